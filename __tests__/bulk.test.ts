@@ -0,0 +1,95 @@
+import { bulkAssignTickets, bulkCloseTickets, bulkEscalateTickets, bulkUpdateTickets } from '../bulk';
+import { Desk365Client } from '../client';
+import { FakeDesk365Server } from '../desk365-fake-server';
+import { NotFoundError } from '../errors';
+import { InMemorySupportProvider } from '../memory-provider';
+import { TicketPriority, TicketStatus } from '../types';
+
+describe('bulk operations', () => {
+  const createProvider = async (count: number) => {
+    const provider = new InMemorySupportProvider();
+    for (let index = 1; index <= count; index++) {
+      await provider.createTicket({ subject: `Ticket ${index}`, description: '', userEmail: 'user@example.com' });
+    }
+    return provider;
+  };
+
+  it('should report every ticket instead of stopping at the first failure', async () => {
+    const provider = await createProvider(3);
+    const progress = jest.fn();
+
+    const report = await bulkCloseTickets(provider, ['1', '404', '3'], { onProgress: progress });
+
+    expect(report).toMatchObject({ succeeded: 2, failed: 1 });
+    expect(report.results).toEqual([
+      { ticketId: '1', success: true, ticket: expect.objectContaining({ status: TicketStatus.CLOSED }) },
+      { ticketId: '404', success: false, error: expect.any(NotFoundError) },
+      { ticketId: '3', success: true, ticket: expect.objectContaining({ status: TicketStatus.CLOSED }) }
+    ]);
+    expect(progress).toHaveBeenCalledTimes(3);
+    expect(progress).toHaveBeenLastCalledWith(expect.anything(), 3, 3);
+    expect((await provider.getTicketDetails('2')).status).toBe(TicketStatus.OPEN);
+  });
+
+  it('should keep at most `concurrency` operations in flight', async () => {
+    const provider = await createProvider(10);
+    let inFlight = 0;
+    let peak = 0;
+    const assign = provider.assignTicket.bind(provider);
+    jest.spyOn(provider, 'assignTicket').mockImplementation(async (ticketId, assignTo) => {
+      peak = Math.max(peak, ++inFlight);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      inFlight--;
+      return assign(ticketId, assignTo);
+    });
+
+    const ticketIds = Array.from({ length: 10 }, (_, index) => String(index + 1));
+    const report = await bulkAssignTickets(provider, ticketIds, 'agent@example.com', { concurrency: 3 });
+
+    expect(peak).toBe(3);
+    expect(report.succeeded).toBe(10);
+    expect(report.results.map(result => result.ticketId)).toEqual(ticketIds);
+  });
+
+  it('should apply different updates to each ticket', async () => {
+    const provider = await createProvider(2);
+
+    const report = await bulkUpdateTickets(provider, [
+      { ticketId: '1', status: TicketStatus.PENDING },
+      { ticketId: '2', priority: TicketPriority.LOW, assignedTo: 'agent@example.com' }
+    ]);
+
+    expect(report.failed).toBe(0);
+    expect((await provider.getTicketDetails('1')).status).toBe(TicketStatus.PENDING);
+    expect(await provider.getTicketDetails('2')).toMatchObject({ priority: TicketPriority.LOW, assignedTo: 'agent@example.com' });
+  });
+
+  it('should fall back from PUT to POST for every Desk365 ticket', async () => {
+    const server = new FakeDesk365Server({
+      tickets: [1, 2, 3].map(ticketNumber => ({
+        ticket_number: ticketNumber,
+        subject: `Ticket ${ticketNumber}`,
+        description: '',
+        status: 'open',
+        priority: 5,
+        contact_email: 'user@example.com',
+        created_on: '2024-01-01T10:00:00.000Z',
+        updated_on: '2024-01-01T10:00:00.000Z'
+      }))
+    });
+    const client = new Desk365Client({ baseUrl: await server.start(), apiKey: 'test-api-key', retry: false, keepAlive: false });
+
+    try {
+      server.injectFault({ method: 'PUT', path: '/v3/tickets/update', status: 405 });
+
+      const report = await bulkEscalateTickets(client, ['1', '2', '3'], TicketPriority.URGENT, { concurrency: 2 });
+
+      expect(report).toMatchObject({ succeeded: 3, failed: 0 });
+      expect(report.results.every(result => result.success && result.ticket.priority === TicketPriority.URGENT)).toBe(true);
+      expect(server.requests.map(request => request.method).sort()).toEqual(['POST', 'POST', 'POST', 'PUT', 'PUT', 'PUT']);
+      expect(server.getTicket(2)?.priority).toBe(20);
+    } finally {
+      await server.stop();
+    }
+  });
+});
@@ -0,0 +1,132 @@
+import { CachedSupportApi, createRedisCacheStore, MemoryCacheStore } from '../cache';
+import { runSupportApiConformanceTests } from '../conformance';
+import { InMemorySupportProvider } from '../memory-provider';
+import { TicketPriority, TicketStatus } from '../types';
+
+describe('CachedSupportApi', () => {
+  const setup = async (options: ConstructorParameters<typeof CachedSupportApi>[1] = {}) => {
+    const provider = new InMemorySupportProvider();
+    const ticket = await provider.createTicket({ subject: 'Login problem', description: '', userEmail: 'user@example.com' });
+    const spies = {
+      getTicketDetails: jest.spyOn(provider, 'getTicketDetails'),
+      listUserTickets: jest.spyOn(provider, 'listUserTickets')
+    };
+    return { provider, ticket, spies, api: new CachedSupportApi(provider, options) };
+  };
+
+  it('should serve repeated reads from the cache', async () => {
+    const { api, ticket, spies } = await setup();
+
+    await api.getTicketDetails(ticket.id);
+    const details = await api.getTicketDetails(ticket.id);
+    await api.listUserTickets('user@example.com', { limit: 10, page: 1 });
+    await api.listUserTickets('user@example.com', { page: 1, limit: 10 });
+    await api.listUserTickets('user@example.com', { page: 2, limit: 10 });
+
+    expect(details).toMatchObject({ id: ticket.id, subject: 'Login problem', conversation: [] });
+    expect(spies.getTicketDetails).toHaveBeenCalledTimes(1);
+    expect(spies.listUserTickets).toHaveBeenCalledTimes(2);
+  });
+
+  it.each([
+    ['respondToTicket', (api: CachedSupportApi, id: string) => api.respondToTicket({ ticketId: id, message: 'Hi', agentEmail: 'agent@example.com' })],
+    ['updateTicket', (api: CachedSupportApi, id: string) => api.updateTicket({ ticketId: id, status: TicketStatus.PENDING })],
+    ['closeTicket', (api: CachedSupportApi, id: string) => api.closeTicket(id)],
+    ['reopenTicket', (api: CachedSupportApi, id: string) => api.reopenTicket(id)],
+    ['assignTicket', (api: CachedSupportApi, id: string) => api.assignTicket(id, 'agent@example.com')],
+    ['escalateTicket', (api: CachedSupportApi, id: string) => api.escalateTicket(id, TicketPriority.URGENT)]
+  ])('should invalidate the ticket and listings after %s', async (_method, mutate) => {
+    const { api, ticket, spies } = await setup();
+    await api.getTicketDetails(ticket.id);
+    await api.listUserTickets('user@example.com');
+
+    await mutate(api, ticket.id);
+    await api.getTicketDetails(ticket.id);
+    await api.listUserTickets('user@example.com');
+
+    expect(spies.getTicketDetails).toHaveBeenCalledTimes(2);
+    expect(spies.listUserTickets).toHaveBeenCalledTimes(2);
+  });
+
+  it('should keep other tickets cached when one changes', async () => {
+    const { api, provider, ticket, spies } = await setup();
+    const other = await provider.createTicket({ subject: 'Billing', description: '', userEmail: 'user@example.com' });
+    await api.getTicketDetails(other.id);
+
+    await api.closeTicket(ticket.id);
+    await api.getTicketDetails(other.id);
+
+    expect(spies.getTicketDetails).toHaveBeenCalledTimes(1);
+    expect((await api.getTicketDetails(ticket.id)).status).toBe(TicketStatus.CLOSED);
+  });
+
+  it('should read cached custom field dates back as dates', async () => {
+    const provider = new InMemorySupportProvider();
+    const api = new CachedSupportApi(provider);
+    const ticket = await api.createTicket({
+      subject: 'Upgrade',
+      description: '',
+      userEmail: 'user@example.com',
+      customFields: { renewal: new Date('2025-03-01T00:00:00Z'), seats: 5 }
+    });
+    const getTicketDetails = jest.spyOn(provider, 'getTicketDetails');
+
+    await api.getTicketDetails(ticket.id);
+    const cached = await api.getTicketDetails(ticket.id);
+
+    expect(getTicketDetails).toHaveBeenCalledTimes(1);
+    expect(cached.customFields?.renewal).toBeInstanceOf(Date);
+    expect(cached.customFields).toEqual({ renewal: new Date('2025-03-01T00:00:00Z'), seats: 5 });
+    expect(cached.createdAt).toBe(ticket.createdAt);
+  });
+
+  it('should apply per-method TTLs', async () => {
+    let time = 0;
+    const store = new MemoryCacheStore({ now: () => time });
+    const { api, ticket, spies } = await setup({ store, ttl: { getTicketDetails: 1000, listUserTickets: 0 } });
+
+    await api.getTicketDetails(ticket.id);
+    time = 999;
+    await api.getTicketDetails(ticket.id);
+    time = 1000;
+    await api.getTicketDetails(ticket.id);
+    await api.listUserTickets('user@example.com');
+    await api.listUserTickets('user@example.com');
+
+    expect(spies.getTicketDetails).toHaveBeenCalledTimes(2);
+    expect(spies.listUserTickets).toHaveBeenCalledTimes(2);
+  });
+
+  it('should evict the least recently used entries from the memory store', async () => {
+    const store = new MemoryCacheStore({ maxEntries: 2 });
+    await store.set('a', '1', 1000);
+    await store.set('b', '2', 1000);
+    await store.get('a');
+    await store.set('c', '3', 1000);
+
+    expect(await store.get('a')).toBe('1');
+    expect(await store.get('b')).toBeUndefined();
+    expect(await store.get('c')).toBe('3');
+  });
+
+  it('should work with a Redis client and fall back to the provider when Redis fails', async () => {
+    const data = new Map<string, string>();
+    const redis = {
+      get: jest.fn(async (key: string) => data.get(key) ?? null),
+      set: jest.fn(async (key: string, value: string) => data.set(key, value)),
+      del: jest.fn(async (...keys: string[]) => keys.forEach(key => data.delete(key)))
+    };
+    const { api, ticket, spies } = await setup({ store: createRedisCacheStore(redis), keyPrefix: 'tenant-1:' });
+
+    await api.getTicketDetails(ticket.id);
+    await api.getTicketDetails(ticket.id);
+    expect(spies.getTicketDetails).toHaveBeenCalledTimes(1);
+    expect(redis.set).toHaveBeenCalledWith(expect.stringMatching(/^tenant-1:ticket:1@.+:getTicketDetails:\["1"\]$/), expect.any(String), 'PX', 30000);
+
+    redis.get.mockRejectedValue(new Error('connection lost'));
+    await expect(api.getTicketDetails(ticket.id)).resolves.toMatchObject({ id: ticket.id });
+    expect(spies.getTicketDetails).toHaveBeenCalledTimes(2);
+  });
+});
+
+runSupportApiConformanceTests(() => new CachedSupportApi(new InMemorySupportProvider()), { name: 'CachedSupportApi conformance' });
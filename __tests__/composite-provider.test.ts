@@ -0,0 +1,191 @@
+import { CompositeSupportApi } from '../composite-provider';
+import { runSupportApiConformanceTests } from '../conformance';
+import { NetworkError, NotFoundError, ValidationError } from '../errors';
+import { InMemorySupportProvider } from '../memory-provider';
+import { TicketPriority, TicketStatus } from '../types';
+
+describe('CompositeSupportApi', () => {
+  // A shared clock keeps timestamps unique across providers, so merged listings have a stable order
+  const createClock = () => {
+    let time = Date.UTC(2024, 0, 1);
+    return () => new Date(time += 1000);
+  };
+
+  const createProviders = () => {
+    const now = createClock();
+    return {
+      desk365: new InMemorySupportProvider({ now }),
+      zendesk: new InMemorySupportProvider({ now })
+    };
+  };
+
+  it('should route new tickets and namespace their IDs', async () => {
+    const providers = createProviders();
+    const api = new CompositeSupportApi({
+      providers,
+      route: request => (request.userEmail.endsWith('@enterprise.com') ? 'zendesk' : undefined)
+    });
+
+    const regular = await api.createTicket({ subject: 'Help', description: '', userEmail: 'user@example.com' });
+    const enterprise = await api.createTicket({ subject: 'Help', description: '', userEmail: 'cto@enterprise.com' });
+
+    expect(regular.id).toBe('desk365:1');
+    expect(enterprise.id).toBe('zendesk:1');
+    expect((await providers.zendesk.getTicketDetails('1')).userEmail).toBe('cto@enterprise.com');
+  });
+
+  it('should send reads and updates to the owning provider', async () => {
+    const providers = createProviders();
+    const api = new CompositeSupportApi({ providers, route: () => 'zendesk' });
+    const ticket = await api.createTicket({ subject: 'Help', description: '', userEmail: 'user@example.com' });
+
+    const message = await api.respondToTicket({ ticketId: ticket.id, message: 'On it', agentEmail: 'agent@example.com' });
+    const escalated = await api.escalateTicket(ticket.id, TicketPriority.URGENT);
+    const details = await api.getTicketDetails(ticket.id);
+
+    expect(message.ticketId).toBe('zendesk:1');
+    expect(escalated).toMatchObject({ id: 'zendesk:1', priority: TicketPriority.URGENT });
+    expect(details.conversation).toEqual([expect.objectContaining({ ticketId: 'zendesk:1', message: 'On it' })]);
+    expect((await providers.zendesk.getTicketDetails('1')).priority).toBe(TicketPriority.URGENT);
+
+    await expect(api.getTicketDetails('desk365:1')).rejects.toBeInstanceOf(NotFoundError);
+    await expect(api.getTicketDetails('1')).rejects.toBeInstanceOf(NotFoundError);
+    await expect(api.closeTicket('freshdesk:1')).rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  it('should merge listings across providers with combined pagination', async () => {
+    const providers = createProviders();
+    let count = 0;
+    const api = new CompositeSupportApi({ providers, route: () => (count++ % 2 ? 'zendesk' : 'desk365') });
+
+    for (let index = 1; index <= 5; index++) {
+      await api.createTicket({ subject: `Ticket ${index}`, description: '', userEmail: 'user@example.com' });
+    }
+
+    const first = await api.listUserTickets('user@example.com', { limit: 2 });
+    const last = await api.listUserTickets('user@example.com', { limit: 2, page: 3 });
+
+    expect(first).toMatchObject({ total: 5, page: 1, limit: 2, totalPages: 3 });
+    expect(first.tickets.map(ticket => ticket.id)).toEqual(['desk365:3', 'zendesk:2']);
+    expect(last.tickets.map(ticket => ticket.subject)).toEqual(['Ticket 1']);
+
+    const all = await api.listAllTickets({ sortBy: 'createdAt', sortOrder: 'asc', limit: 2 });
+    expect(all.map(ticket => ticket.subject)).toEqual(['Ticket 1', 'Ticket 2', 'Ticket 3', 'Ticket 4', 'Ticket 5']);
+  });
+
+  it('should read each provider page by page, only as far as the requested page', async () => {
+    const providers = createProviders();
+    const api = new CompositeSupportApi({ providers, route: request => (request.subject === 'Zendesk' ? 'zendesk' : 'desk365') });
+    for (let index = 1; index <= 7; index++) {
+      await api.createTicket({ subject: `Ticket ${index}`, description: '', userEmail: 'user@example.com' });
+    }
+    await api.createTicket({ subject: 'Zendesk', description: '', userEmail: 'user@example.com' });
+    const desk365Search = jest.spyOn(providers.desk365, 'searchTickets');
+    const zendeskSearch = jest.spyOn(providers.zendesk, 'searchTickets');
+
+    const result = await api.searchTickets({ sortOrder: 'asc', limit: 2, page: 2 });
+
+    expect(result).toMatchObject({ total: 8, page: 2, limit: 2, totalPages: 4 });
+    expect(result.tickets.map(ticket => ticket.subject)).toEqual(['Ticket 3', 'Ticket 4']);
+    expect(desk365Search.mock.calls.map(([options]) => options)).toEqual([
+      { sortOrder: 'asc', limit: 2, page: 1 },
+      { sortOrder: 'asc', limit: 2, page: 2 }
+    ]);
+    expect(zendeskSearch.mock.calls.map(([options]) => options)).toEqual([{ sortOrder: 'asc', limit: 2, page: 1 }]);
+  });
+
+  it('should fail over to the next provider when the routed one is down', async () => {
+    const providers = createProviders();
+    jest.spyOn(providers.desk365, 'createTicket').mockRejectedValue(new NetworkError('connect ECONNREFUSED', { code: 'ECONNREFUSED' }));
+    const warn = jest.fn();
+    const api = new CompositeSupportApi({
+      providers,
+      failover: ['zendesk'],
+      logger: { debug: jest.fn(), info: jest.fn(), warn, error: jest.fn() }
+    });
+
+    const ticket = await api.createTicket({ subject: 'Help', description: '', userEmail: 'user@example.com' });
+
+    expect(ticket).toMatchObject({ id: 'zendesk:1', status: TicketStatus.OPEN });
+    expect(warn).toHaveBeenCalledWith('Support provider unavailable, failing over', expect.objectContaining({
+      provider: 'desk365',
+      failover: 'zendesk'
+    }));
+  });
+
+  it('should not fail over on request errors', async () => {
+    const providers = createProviders();
+    jest.spyOn(providers.desk365, 'createTicket').mockRejectedValue(new ValidationError('Invalid email', { status: 400 }));
+    const api = new CompositeSupportApi({ providers, failover: ['zendesk'] });
+
+    await expect(api.createTicket({ subject: 'Help', description: '', userEmail: 'invalid' })).rejects.toBeInstanceOf(ValidationError);
+    expect((await providers.zendesk.searchTickets({})).total).toBe(0);
+  });
+
+  it('should leave unavailable providers out of listings', async () => {
+    const providers = createProviders();
+    const api = new CompositeSupportApi({ providers });
+    await api.createTicket({ subject: 'Help', description: '', userEmail: 'user@example.com' });
+    jest.spyOn(providers.zendesk, 'searchTickets').mockRejectedValue(new NetworkError('socket hang up'));
+
+    const result = await api.searchTickets({});
+
+    expect(result.total).toBe(1);
+    expect(result.tickets.map(ticket => ticket.id)).toEqual(['desk365:1']);
+  });
+
+  it('should leave a provider that fails during iteration out of the rest of it', async () => {
+    const providers = createProviders();
+    let count = 0;
+    const warn = jest.fn();
+    const api = new CompositeSupportApi({
+      providers,
+      route: () => (count++ % 2 ? 'zendesk' : 'desk365'),
+      logger: { debug: jest.fn(), info: jest.fn(), warn, error: jest.fn() }
+    });
+    for (let index = 1; index <= 6; index++) {
+      await api.createTicket({ subject: `Ticket ${index}`, description: '', userEmail: 'user@example.com' });
+    }
+    const search = providers.zendesk.searchTickets.bind(providers.zendesk);
+    jest.spyOn(providers.zendesk, 'searchTickets')
+      .mockImplementationOnce(search)
+      .mockRejectedValue(new NetworkError('socket hang up'));
+
+    const tickets = await api.listAllTickets({ sortOrder: 'asc', limit: 1 });
+
+    expect(tickets.map(ticket => ticket.subject)).toEqual(['Ticket 1', 'Ticket 2', 'Ticket 3', 'Ticket 5']);
+    expect(warn).toHaveBeenCalledWith('Support provider unavailable, leaving it out of the listing', {
+      provider: 'zendesk',
+      error: 'socket hang up'
+    });
+  });
+
+  it('should reject invalid provider names', () => {
+    expect(() => new CompositeSupportApi({ providers: {} })).toThrow(new ValidationError('CompositeSupportApi requires at least one provider'));
+    expect(() => new CompositeSupportApi({ providers: { 'a:b': new InMemorySupportProvider() } })).toThrow('must not contain');
+    expect(() => new CompositeSupportApi({ providers: { a: new InMemorySupportProvider() }, failover: ['b'] })).toThrow(ValidationError);
+  });
+
+  it('should reject tickets routed to an unknown provider with a ValidationError', async () => {
+    const api = new CompositeSupportApi({ providers: createProviders(), route: () => 'freshdesk' });
+
+    await expect(api.createTicket({ subject: 'Help', description: '', userEmail: 'user@example.com' }))
+      .rejects.toThrow(new ValidationError('Ticket routed to unknown provider: freshdesk'));
+  });
+});
+
+runSupportApiConformanceTests(() => {
+  const now = (() => {
+    let time = Date.UTC(2024, 0, 1);
+    return () => new Date(time += 1000);
+  })();
+  let count = 0;
+
+  return new CompositeSupportApi({
+    providers: {
+      primary: new InMemorySupportProvider({ now }),
+      secondary: new InMemorySupportProvider({ now })
+    },
+    route: () => (count++ % 2 ? 'secondary' : 'primary')
+  });
+}, { name: 'CompositeSupportApi conformance' });
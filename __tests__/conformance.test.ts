@@ -0,0 +1,21 @@
+import { Desk365Client } from '../client';
+import { runSupportApiConformanceTests } from '../conformance';
+import { FakeDesk365Server } from '../desk365-fake-server';
+import { InMemorySupportProvider } from '../memory-provider';
+
+runSupportApiConformanceTests(() => new InMemorySupportProvider(), { name: 'InMemorySupportProvider conformance' });
+
+const servers = new Map<object, FakeDesk365Server>();
+
+runSupportApiConformanceTests(async () => {
+  const server = new FakeDesk365Server();
+  const client = new Desk365Client({ baseUrl: await server.start(), apiKey: 'test-api-key', retry: false, keepAlive: false });
+  servers.set(client, server);
+  return client;
+}, {
+  name: 'Desk365Client conformance',
+  teardown: async api => {
+    await servers.get(api)?.stop();
+    servers.delete(api);
+  }
+});
@@ -0,0 +1,97 @@
+import {
+  CustomFieldDefinition,
+  decodeCustomFields,
+  encodeCustomFields,
+  mappedCustomFieldCodec,
+  prefixCustomFieldCodec,
+  validateCustomFields
+} from '../custom-fields';
+
+describe('custom fields', () => {
+  const types = {
+    seats: 'number',
+    trial: 'boolean',
+    renewal: 'date',
+    plan: 'dropdown',
+    modules: 'multiselect',
+    notes: 'text'
+  } as const;
+
+  it('should convert values to their declared types', () => {
+    expect(decodeCustomFields({
+      seats: '25',
+      trial: 'yes',
+      renewal: '2025-03-01',
+      plan: 3,
+      modules: 'billing, reports',
+      notes: 42,
+      legacy: 'kept as is'
+    }, { types })).toEqual({
+      seats: 25,
+      trial: true,
+      renewal: new Date('2025-03-01'),
+      plan: '3',
+      modules: ['billing', 'reports'],
+      notes: '42',
+      legacy: 'kept as is'
+    });
+  });
+
+  it('should keep values that cannot be converted and map empty values to null', () => {
+    expect(decodeCustomFields({ seats: 'many', trial: 'maybe', renewal: 'soon', plan: '', notes: '' }, { types })).toEqual({
+      seats: 'many',
+      trial: 'maybe',
+      renewal: 'soon',
+      plan: null,
+      notes: ''
+    });
+  });
+
+  it('should translate names with a codec in both directions', () => {
+    const codec = prefixCustomFieldCodec('cf_');
+
+    expect(encodeCustomFields({ renewal: new Date('2025-03-01T12:00:00Z'), seats: 25, skipped: undefined }, { types, codec }))
+      .toEqual({ cf_renewal: '2025-03-01', cf_seats: 25 });
+    expect(decodeCustomFields({ cf_seats: '25', other: 'x' }, { types, codec })).toEqual({ seats: 25, other: 'x' });
+  });
+
+  it('should translate names through a table with mappedCustomFieldCodec', () => {
+    const codec = mappedCustomFieldCodec({ plan: '360001' });
+
+    expect(encodeCustomFields({ plan: 'pro', other: 'x' }, { codec })).toEqual({ '360001': 'pro', other: 'x' });
+    expect(decodeCustomFields({ '360001': 'pro', '360002': 'y' }, { codec })).toEqual({ plan: 'pro', '360002': 'y' });
+  });
+
+  describe('validateCustomFields', () => {
+    const definitions: CustomFieldDefinition[] = [
+      { name: 'plan', type: 'dropdown', required: true, options: ['Free', 'Pro'] },
+      { name: 'seats', type: 'number', required: false },
+      { name: 'modules', type: 'multiselect', required: false, options: ['billing', 'reports'] },
+      { name: 'renewal', type: 'date', required: false }
+    ];
+
+    it('should accept valid values', () => {
+      expect(validateCustomFields({ plan: 'Pro', seats: '25', modules: ['billing'], renewal: new Date() }, definitions)).toEqual([]);
+    });
+
+    it('should list every problem', () => {
+      const issues = validateCustomFields({ seats: 'many', modules: ['billing', 'crm'], renewal: 'soon', seat: 3 }, definitions);
+
+      expect(issues.map(issue => [issue.field, issue.problem])).toEqual([
+        ['seats', 'type'],
+        ['modules', 'option'],
+        ['renewal', 'type'],
+        ['seat', 'unknown'],
+        ['plan', 'required']
+      ]);
+      expect(issues[1].message).toBe("'crm' is not an option of 'modules' (allowed: billing, reports)");
+    });
+
+    it('should only require fields that a partial update clears', () => {
+      expect(validateCustomFields({ seats: 3 }, definitions, { partial: true })).toEqual([]);
+      expect(validateCustomFields({ plan: null }, definitions, { partial: true })).toEqual([
+        { field: 'plan', problem: 'required', message: "'plan' is required" }
+      ]);
+    });
+  });
+});
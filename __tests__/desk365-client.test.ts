@@ -1,21 +1,25 @@
-import axios from 'axios';
-import { Desk365Client } from '../client';
+import { AxiosInstance } from 'axios';
+import { Desk365Client, Desk365ClientConfig, Desk365MappingConfig } from '../client';
+import { prefixCustomFieldCodec } from '../custom-fields';
+import { CustomFieldValidationError, ResponseValidationError, UnmappedValueError, ValidationError } from '../errors';
+import { createSupportApi, SupportProvider } from '../index';
 import { TicketPriority, TicketStatus } from '../types';
 
-// Mock axios to avoid actual API calls
-jest.mock('axios');
-
 describe('Desk365Client', () => {
   let client: Desk365Client;
+  let http: { request: jest.Mock };
   
   beforeEach(() => {
-    // Reset axios mocks before each test
-    jest.clearAllMocks();
+    // Inject a mock HTTP instance to avoid actual API calls
+    http = { request: jest.fn() };
     
     // Create a new client instance for each test
     client = new Desk365Client({
       baseUrl: 'https://test.desk365.io/apis',
-      apiKey: 'test-api-key'
+      apiKey: 'test-api-key',
+      httpClient: http as unknown as AxiosInstance,
+      retry: false,
+      customFieldDefinitionsTtl: 0 // Mocked responses are consumed in order, so never answer from the cache
     });
   });
   
@@ -23,6 +27,7 @@ describe('Desk365Client', () => {
     it('should create a ticket successfully', async () => {
       // Prepare mock response
       const mockResponse = {
+        status: 200,
         data: {
           ticket_number: '12345',
           subject: 'Test Ticket',
@@ -35,8 +40,10 @@ describe('Desk365Client', () => {
         }
       };
       
-      // Setup axios mock implementation
-      (axios as jest.MockedFunction<typeof axios>).mockResolvedValueOnce(mockResponse);
+      // Setup HTTP mock implementation (the tenant defines no custom fields)
+      http.request
+        .mockResolvedValueOnce({ status: 200, data: { custom_fields: [] } })
+        .mockResolvedValueOnce(mockResponse);
       
       // Call the method
       const result = await client.createTicket({
@@ -47,19 +54,22 @@ describe('Desk365Client', () => {
       });
       
       // Assertions
-      expect(axios).toHaveBeenCalledWith({
+      expect(http.request).toHaveBeenCalledWith(expect.objectContaining({
         method: 'POST',
-        url: 'https://test.desk365.io/apis/v3/tickets/create',
+        url: 'https://test.desk365.io/apis/v3/tickets/create_with_attachment',
         headers: {
-          'Content-Type': 'application/json',
+          'Content-Type': 'multipart/form-data',
           'Authorization': 'test-api-key'
         },
-        data: {
-          subject: 'Test Ticket',
-          description: 'Test Description',
-          priority: 5,
-          contact_email: 'user@example.com'
-        }
+        data: expect.any(FormData)
+      }));
+      
+      const formData = http.request.mock.calls[1][0].data as FormData;
+      expect(JSON.parse(formData.get('ticket_object') as string)).toMatchObject({
+        subject: 'Test Ticket',
+        description: 'Test Description',
+        priority: 5,
+        email: 'user@example.com'
       });
       
       expect(result).toEqual({
@@ -68,10 +78,137 @@ describe('Desk365Client', () => {
         description: 'Test Description',
         status: TicketStatus.OPEN,
         priority: TicketPriority.MEDIUM,
+        rawStatus: 'open',
+        rawPriority: 5,
         userEmail: 'user@example.com',
         createdAt: '2023-01-01 12:00:00',
-        updatedAt: '2023-01-01 12:00:00'
+        updatedAt: '2023-01-01 12:00:00',
+        attachments: []
+      });
+    });
+    
+    it('should send the source from ticketDefaults through the alternative endpoint, and no source without one', async () => {
+      const deskTicket = {
+        ticket_number: '12345',
+        subject: 'Test Ticket',
+        description: 'Test Description',
+        status: 'open',
+        priority: 5,
+        contact_email: 'user@example.com',
+        created_on: '2023-01-01 12:00:00',
+        updated_on: '2023-01-01 12:00:00'
+      };
+      const portalClient = new Desk365Client({
+        baseUrl: 'https://test.desk365.io/apis',
+        apiKey: 'test-api-key',
+        httpClient: http as unknown as AxiosInstance,
+        retry: false,
+        ticketDefaults: { source: 'Email' }
+      });
+      const request = {
+        subject: 'Test Ticket',
+        description: 'Test Description',
+        priority: TicketPriority.MEDIUM,
+        userEmail: 'user@example.com'
+      };
+      http.request
+        .mockResolvedValueOnce({ status: 200, data: { count: 0, tickets: [] } })
+        .mockResolvedValueOnce({ status: 200, data: deskTicket })
+        .mockResolvedValueOnce({ status: 200, data: { count: 0, tickets: [] } })
+        .mockResolvedValueOnce({ status: 200, data: deskTicket });
+      
+      await portalClient.createTicketAlt(request);
+      await client.createTicketAlt(request);
+      
+      expect(http.request.mock.calls[1][0]).toMatchObject({
+        method: 'GET',
+        url: 'https://test.desk365.io/apis/v3/tickets/create',
+        params: { source: 'Email' }
+      });
+      expect(http.request.mock.calls[3][0].params).not.toHaveProperty('source');
+    });
+  });
+  
+  describe('custom field definitions', () => {
+    // Definitions are cached per base URL for every client, so each test uses its own tenant
+    const createTenantClient = (baseUrl: string, config: Partial<Desk365ClientConfig> = {}) =>
+      new Desk365Client({ baseUrl, apiKey: 'test-api-key', httpClient: http as unknown as AxiosInstance, retry: false, ...config });
+    const deskTicket = {
+      ticket_number: 1,
+      subject: 'Upgrade',
+      status: 'open',
+      priority: 5,
+      contact_email: 'user@example.com',
+      created_on: '2023-01-01 12:00:00',
+      updated_on: '2023-01-01 12:00:00'
+    };
+    const definitionRequests = () => http.request.mock.calls.filter(([request]) => request.url.endsWith('/custom_fields'));
+    
+    it('should share the raw definitions of a tenant and name them with each client\'s codec', async () => {
+      const plain = createTenantClient('https://codecs.desk365.io/apis');
+      const prefixed = createTenantClient('https://codecs.desk365.io/apis', { customFieldCodec: prefixCustomFieldCodec('cf_') });
+      http.request.mockResolvedValueOnce({
+        status: 200,
+        data: { custom_fields: [{ name: 'cf_plan', label: 'Plan', type: 'Dropdown', required: true, options: ['Free', 'Pro'] }] }
+      });
+      
+      const [plainDefinition] = await plain.getCustomFieldDefinitions();
+      const [prefixedDefinition] = await prefixed.getCustomFieldDefinitions();
+      
+      expect(plainDefinition).toEqual({ name: 'cf_plan', label: 'Plan', type: 'dropdown', required: true, options: ['Free', 'Pro'] });
+      expect(prefixedDefinition).toEqual({ ...plainDefinition, name: 'plan' });
+      expect(definitionRequests()).toHaveLength(1);
+    });
+    
+    it('should evict a failed load, send custom fields unchecked and load again on the next request', async () => {
+      const tenantClient = createTenantClient('https://unavailable.desk365.io/apis');
+      http.request
+        .mockResolvedValueOnce({ status: 500, data: { message: 'Internal error' } })
+        .mockResolvedValueOnce({ status: 200, data: deskTicket })
+        .mockResolvedValueOnce({ status: 200, data: { custom_fields: [{ name: 'cf_plan', type: 'Dropdown', options: ['Free', 'Pro'] }] } })
+        .mockResolvedValueOnce({ status: 200, data: deskTicket });
+      const request = { subject: 'Upgrade', description: '', userEmail: 'user@example.com', customFields: { cf_plan: 'Pro' } };
+      
+      await tenantClient.createTicket(request);
+      await tenantClient.createTicket(request);
+      
+      await expect(tenantClient.createTicket({ ...request, customFields: { cf_plan: 'Gold' } }))
+        .rejects.toBeInstanceOf(CustomFieldValidationError);
+      expect(definitionRequests()).toHaveLength(2);
+      expect(http.request).toHaveBeenCalledTimes(4);
+    });
+    
+    it('should treat definitions without a usable type as text', async () => {
+      const tenantClient = createTenantClient('https://untyped.desk365.io/apis');
+      http.request.mockResolvedValueOnce({
+        status: 200,
+        data: { custom_fields: [{ name: 'cf_plan', type: null }, { name: 'cf_seats', type: 7 }, { name: 'cf_notes', type: 'Memo' }] }
       });
+      
+      const definitions = await tenantClient.getCustomFieldDefinitions();
+      
+      expect(definitions.map(definition => definition.type)).toEqual(['text', 'text', 'text']);
+    });
+    
+    it('should reject a create without custom fields when the tenant requires one', async () => {
+      const tenantClient = createTenantClient('https://required.desk365.io/apis');
+      http.request.mockResolvedValueOnce({ status: 200, data: { custom_fields: [{ name: 'cf_plan', type: 'Text', required: true }] } });
+      
+      const error = await tenantClient.createTicket({ subject: 'Upgrade', description: '', userEmail: 'user@example.com' })
+        .catch(caught => caught);
+      
+      expect(error).toBeInstanceOf(CustomFieldValidationError);
+      expect(error.issues).toEqual([expect.objectContaining({ field: 'cf_plan', problem: 'required' })]);
+      expect(http.request).toHaveBeenCalledTimes(1);
+    });
+    
+    it('should not load definitions for updates without custom fields', async () => {
+      const tenantClient = createTenantClient('https://no-fields.desk365.io/apis');
+      http.request.mockResolvedValueOnce({ status: 200, data: deskTicket });
+      
+      await tenantClient.updateTicket({ ticketId: '1', priority: TicketPriority.HIGH });
+      
+      expect(definitionRequests()).toHaveLength(0);
     });
   });
   
@@ -79,6 +216,7 @@ describe('Desk365Client', () => {
     it('should list tickets for a user', async () => {
       // Prepare mock response
       const mockResponse = {
+        status: 200,
         data: {
           count: 1,
           tickets: [
@@ -96,14 +234,14 @@ describe('Desk365Client', () => {
         }
       };
       
-      // Setup axios mock implementation
-      (axios as jest.MockedFunction<typeof axios>).mockResolvedValueOnce(mockResponse);
+      // Setup HTTP mock implementation
+      http.request.mockResolvedValueOnce(mockResponse);
       
       // Call the method
       const result = await client.listUserTickets('user@example.com', { page: 1, limit: 30 });
       
       // Assertions
-      expect(axios).toHaveBeenCalledWith({
+      expect(http.request).toHaveBeenCalledWith(expect.objectContaining({
         method: 'GET',
         url: 'https://test.desk365.io/apis/v3/tickets',
         headers: {
@@ -115,7 +253,7 @@ describe('Desk365Client', () => {
           ticket_count: 30,
           filters: JSON.stringify({ contact: ['user@example.com'] })
         }
-      });
+      }));
       
       expect(result).toEqual({
         tickets: [
@@ -125,9 +263,12 @@ describe('Desk365Client', () => {
             description: 'Test Description',
             status: TicketStatus.OPEN,
             priority: TicketPriority.MEDIUM,
+            rawStatus: 'open',
+            rawPriority: 5,
             userEmail: 'user@example.com',
             createdAt: '2023-01-01 12:00:00',
-            updatedAt: '2023-01-01 12:00:00'
+            updatedAt: '2023-01-01 12:00:00',
+            attachments: []
           }
         ],
         total: 1,
@@ -138,31 +279,65 @@ describe('Desk365Client', () => {
     });
   });
   
+  describe('searchTickets', () => {
+    const deskTickets = (from: number, count: number) => Array.from({ length: count }, (_, index) => ({
+      ticket_number: String(from + index),
+      status: 'open',
+      priority: 5
+    }));
+    
+    it('should trim Desk365 batches to the requested page size', async () => {
+      http.request.mockResolvedValueOnce({ status: 200, data: { count: 95, tickets: deskTickets(21, 30) } });
+      
+      const result = await client.searchTickets({ page: 3, limit: 10 });
+      
+      expect(http.request.mock.calls[0][0].params).toMatchObject({ offset: 20, ticket_count: 30 });
+      expect(result.tickets.map(ticket => ticket.id)).toEqual(
+        Array.from({ length: 10 }, (_, index) => String(21 + index))
+      );
+      expect(result).toMatchObject({ total: 95, page: 3, limit: 10, totalPages: 10 });
+    });
+    
+    it('should combine Desk365 batches for pages larger than 100 tickets', async () => {
+      http.request
+        .mockResolvedValueOnce({ status: 200, data: { count: 500, tickets: deskTickets(151, 100) } })
+        .mockResolvedValueOnce({ status: 200, data: { count: 500, tickets: deskTickets(251, 50) } });
+      
+      const result = await client.searchTickets({ page: 2, limit: 150 });
+      
+      expect(http.request.mock.calls[0][0].params).toMatchObject({ offset: 150, ticket_count: 100 });
+      expect(http.request.mock.calls[1][0].params).toMatchObject({ offset: 250, ticket_count: 50 });
+      expect(result.tickets).toHaveLength(150);
+      expect(result.tickets[149].id).toBe('300');
+      expect(result.totalPages).toBe(4);
+    });
+  });
+  
   describe('getTicketDetails', () => {
     it('should get ticket details', async () => {
-      // Prepare mock response
-      const mockResponse = {
-        data: {
-          ticket_number: '12345',
-          subject: 'Test Ticket',
-          description: 'Test Description',
-          status: 'open',
-          priority: 5,
-          contact_email: 'user@example.com',
-          assign_to: 'admin@example.com',
-          created_on: '2023-01-01 12:00:00',
-          updated_on: '2023-01-01 12:00:00'
-        }
-      };
-      
-      // Setup axios mock implementation
-      (axios as jest.MockedFunction<typeof axios>).mockResolvedValueOnce(mockResponse);
+      // Prepare mock responses for the details and conversations calls
+      http.request
+        .mockResolvedValueOnce({
+          status: 200,
+          data: {
+            ticket_number: '12345',
+            subject: 'Test Ticket',
+            description: 'Test Description',
+            status: 'open',
+            priority: 5,
+            contact_email: 'user@example.com',
+            assign_to: 'admin@example.com',
+            created_on: '2023-01-01 12:00:00',
+            updated_on: '2023-01-01 12:00:00'
+          }
+        })
+        .mockResolvedValueOnce({ status: 200, data: { conversations: [] } });
       
       // Call the method
       const result = await client.getTicketDetails('12345');
       
       // Assertions
-      expect(axios).toHaveBeenCalledWith({
+      expect(http.request).toHaveBeenCalledWith(expect.objectContaining({
         method: 'GET',
         url: 'https://test.desk365.io/apis/v3/tickets/details',
         headers: {
@@ -172,7 +347,7 @@ describe('Desk365Client', () => {
         params: {
           ticket_number: '12345'
         }
-      });
+      }));
       
       expect(result).toEqual({
         id: '12345',
@@ -180,6 +355,8 @@ describe('Desk365Client', () => {
         description: 'Test Description',
         status: TicketStatus.OPEN,
         priority: TicketPriority.MEDIUM,
+        rawStatus: 'open',
+        rawPriority: 5,
         userEmail: 'user@example.com',
         assignedTo: 'admin@example.com',
         createdAt: '2023-01-01 12:00:00',
@@ -188,7 +365,315 @@ describe('Desk365Client', () => {
         attachments: []
       });
     });
+
+    it('should throw a NotFoundError for unknown tickets', async () => {
+      http.request.mockRejectedValueOnce(Object.assign(new Error('Request failed with status code 404'), {
+        isAxiosError: true,
+        response: { status: 404, statusText: 'Not Found', headers: {}, data: { message: 'Ticket not found' } }
+      }));
+      
+      await expect(client.getTicketDetails('99999')).rejects.toMatchObject({
+        name: 'NotFoundError',
+        status: 404,
+        provider: 'desk365',
+        endpoint: '/v3/tickets/details'
+      });
+    });
+
+    it('should share the HTTP requests of concurrent identical calls', async () => {
+      http.request.mockImplementation(async ({ url }) => ({
+        status: 200,
+        data: url.endsWith('/details')
+          ? { ticket_number: '12345', subject: 'Test Ticket', status: 'open', priority: 5, contact_email: 'user@example.com' }
+          : { conversations: [] }
+      }));
+
+      const [first, second, third] = await Promise.all([
+        client.getTicketDetails('12345'),
+        client.getTicketDetails('12345'),
+        client.getTicketDetails('12345')
+      ]);
+
+      expect(http.request).toHaveBeenCalledTimes(2);
+      expect(first).toEqual(second);
+      expect(first).not.toBe(second);
+      expect(third.id).toBe('12345');
+      expect(client.getCoalescingStats()).toEqual({ calls: 6, coalesced: 4, inFlight: 0 });
+
+      // Settled requests are not reused
+      await client.getTicketDetails('12345');
+      expect(http.request).toHaveBeenCalledTimes(4);
+    });
+  });
+  
+  describe('iterateTickets', () => {
+    const deskTickets = (from: number, count: number) => Array.from({ length: count }, (_, index) => ({
+      ticket_number: String(from + index),
+      subject: `Ticket ${from + index}`,
+      status: 'open',
+      priority: 5,
+      contact_email: 'user@example.com',
+      created_on: '2023-01-01 12:00:00',
+      updated_on: '2023-01-01 12:00:00'
+    }));
+    
+    it('should walk Desk365 pages until the total is reached', async () => {
+      http.request
+        .mockResolvedValueOnce({ status: 200, data: { count: 45, tickets: deskTickets(1, 30) } })
+        .mockResolvedValueOnce({ status: 200, data: { count: 45, tickets: deskTickets(31, 15) } });
+      
+      const tickets = await client.listAllTickets({ userEmail: 'user@example.com', limit: 10 });
+      
+      expect(tickets.map(ticket => ticket.id)).toEqual(Array.from({ length: 45 }, (_, index) => String(index + 1)));
+      expect(http.request).toHaveBeenCalledTimes(2);
+      expect(http.request.mock.calls[0][0].params).toMatchObject({ offset: 0, ticket_count: 30 });
+      expect(http.request.mock.calls[1][0].params).toMatchObject({ offset: 30, ticket_count: 30 });
+    });
+    
+    it('should stop fetching when the caller breaks early', async () => {
+      http.request.mockResolvedValue({ status: 200, data: { count: 500, tickets: deskTickets(1, 100) } });
+      
+      const seen: string[] = [];
+      for await (const ticket of client.iterateTickets()) {
+        seen.push(ticket.id);
+        if (seen.length === 5) break;
+      }
+      
+      expect(seen).toHaveLength(5);
+      expect(http.request).toHaveBeenCalledTimes(1);
+      await expect(client.listAllTickets({}, { max: 150 })).resolves.toHaveLength(150);
+      expect(http.request).toHaveBeenCalledTimes(3);
+    });
+  });
+  
+  describe('hooks', () => {
+    it('should let request hooks modify headers and observe responses', async () => {
+      http.request.mockResolvedValueOnce({ status: 200, headers: { 'x-request-id': 'abc' }, data: { count: 0, tickets: [] } });
+      const onResponse = jest.fn();
+      
+      client.onRequest(request => {
+        request.headers['X-Correlation-Id'] = 'trace-1';
+      });
+      client.onResponse(onResponse);
+      
+      await client.searchTickets({});
+      
+      expect(http.request.mock.calls[0][0].headers).toMatchObject({ 'X-Correlation-Id': 'trace-1' });
+      expect(onResponse).toHaveBeenCalledWith(expect.objectContaining({
+        status: 200,
+        headers: { 'x-request-id': 'abc' }
+      }));
+    });
+  });
+  
+  describe('status and priority mapping', () => {
+    const createClient = (mapping: Desk365MappingConfig) => new Desk365Client({
+      baseUrl: 'https://test.desk365.io/apis',
+      apiKey: 'test-api-key',
+      httpClient: http as unknown as AxiosInstance,
+      retry: false,
+      mapping
+    });
+    const deskTicket = (status: string, priority: number) => ({
+      ticket_number: 1,
+      subject: 'Test Ticket',
+      status,
+      priority,
+      contact_email: 'user@example.com',
+      created_on: '2023-01-01 12:00:00',
+      updated_on: '2023-01-01 12:00:00'
+    });
+    
+    it('should map with the configured tables in both directions and keep the raw values', async () => {
+      const mappedClient = createClient({
+        statuses: { 'On Hold': TicketStatus.PENDING },
+        priorities: { '15': TicketPriority.HIGH },
+        outgoingStatuses: { [TicketStatus.PENDING]: 'On Hold' }
+      });
+      http.request
+        .mockResolvedValueOnce({ status: 200, data: { count: 1, tickets: [deskTicket('on hold', 15)] } })
+        .mockResolvedValueOnce({ status: 200, data: deskTicket('On Hold', 15) });
+      
+      const { tickets: [ticket] } = await mappedClient.searchTickets({});
+      await mappedClient.updateTicket({ ticketId: '1', status: TicketStatus.PENDING, priority: TicketPriority.URGENT });
+      
+      expect(ticket).toMatchObject({
+        status: TicketStatus.PENDING,
+        priority: TicketPriority.HIGH,
+        rawStatus: 'on hold',
+        rawPriority: 15
+      });
+      expect(http.request.mock.calls[1][0].data).toEqual({ status: 'On Hold', priority: 20 });
+    });
+    
+    it('should close and reopen tickets with the configured outgoing statuses', async () => {
+      const mappedClient = createClient({
+        statuses: { Archived: TicketStatus.CLOSED, New: TicketStatus.OPEN },
+        outgoingStatuses: { [TicketStatus.CLOSED]: 'Archived', [TicketStatus.OPEN]: 'New' }
+      });
+      http.request
+        .mockResolvedValueOnce({ status: 200, data: deskTicket('Archived', 1) })
+        .mockResolvedValueOnce({ status: 200, data: deskTicket('New', 1) });
+      
+      await expect(mappedClient.closeTicket('1')).resolves.toMatchObject({ status: TicketStatus.CLOSED });
+      await expect(mappedClient.reopenTicket('1')).resolves.toMatchObject({ status: TicketStatus.OPEN });
+      expect(http.request.mock.calls[0][0].data).toEqual({ status: 'Archived' });
+      expect(http.request.mock.calls[1][0].data).toEqual({ status: 'New' });
+    });
+    
+    it('should apply the policy for unmapped values', async () => {
+      http.request
+        .mockResolvedValueOnce({ status: 200, data: deskTicket('Spam', 3) })
+        .mockResolvedValueOnce({ status: 200, data: { conversations: [] } });
+      
+      await expect(client.getTicketDetails('1')).resolves.toMatchObject({
+        status: TicketStatus.OPEN,
+        priority: TicketPriority.MEDIUM,
+        rawStatus: 'Spam'
+      });
+      expect(createClient({ unmapped: 'default', defaultStatus: TicketStatus.CLOSED }).mapTicket(deskTicket('Spam', 3)))
+        .toMatchObject({ status: TicketStatus.CLOSED });
+      expect(() => createClient({ unmapped: 'throw' }).mapTicket(deskTicket('Spam', 5))).toThrow(UnmappedValueError);
+      
+      const passthrough = createClient({ unmapped: 'passthrough' });
+      const ticket = passthrough.mapTicket(deskTicket('Spam', 3));
+      expect(ticket).toMatchObject({ status: 'Spam', priority: 3 });
+      
+      http.request.mockResolvedValueOnce({ status: 200, data: deskTicket('Spam', 3) });
+      await passthrough.updateTicket({ ticketId: '1', status: ticket.status, priority: ticket.priority });
+      expect(http.request.mock.calls[2][0].data).toEqual({ status: 'Spam', priority: 3 });
+    });
   });
   
-  // Add more tests for other methods as needed
-}); 
\ No newline at end of file
+  describe('response validation', () => {
+    const incompleteTicket = {
+      ticket_number: 7,
+      status: 'open',
+      priority: 5,
+      contact_email: 'user@example.com',
+      created_on: '2023-01-01 12:00:00'
+    };
+    
+    it('should throw a ResponseValidationError listing every offending path in strict mode', async () => {
+      const strictClient = new Desk365Client({
+        baseUrl: 'https://test.desk365.io/apis',
+        apiKey: 'test-api-key',
+        httpClient: http as unknown as AxiosInstance,
+        retry: false,
+        validation: 'strict'
+      });
+      http.request.mockResolvedValueOnce({ status: 200, data: { count: 1, tickets: [incompleteTicket] } });
+      
+      const error = await strictClient.searchTickets({}).catch(caught => caught);
+      
+      expect(error).toBeInstanceOf(ResponseValidationError);
+      expect(error.endpoint).toBe('/v3/tickets');
+      expect(error.issues).toEqual([
+        { path: '$.tickets[0].subject', expected: 'string', received: 'undefined' },
+        { path: '$.tickets[0].updated_on', expected: 'string', received: 'undefined' }
+      ]);
+    });
+    
+    it('should report issues through the hook in lenient mode without inventing values', async () => {
+      const onValidationIssues = jest.fn();
+      const lenientClient = new Desk365Client({
+        baseUrl: 'https://test.desk365.io/apis',
+        apiKey: 'test-api-key',
+        httpClient: http as unknown as AxiosInstance,
+        retry: false,
+        onValidationIssues
+      });
+      http.request.mockResolvedValueOnce({ status: 200, data: { count: 1, tickets: [incompleteTicket] } });
+      
+      const result = await lenientClient.searchTickets({});
+      
+      expect(onValidationIssues).toHaveBeenCalledWith(
+        [expect.objectContaining({ path: '$.tickets[0].subject' }), expect.objectContaining({ path: '$.tickets[0].updated_on' })],
+        { endpoint: '/v3/tickets' }
+      );
+      expect(result.tickets[0]).toMatchObject({ id: '7', userEmail: 'user@example.com' });
+      expect(result.tickets[0].subject).toBeUndefined();
+      expect(result.tickets[0].updatedAt).toBeUndefined();
+    });
+    
+    it('should skip or default only the malformed nested parts in lenient mode', async () => {
+      const onValidationIssues = jest.fn();
+      const lenientClient = new Desk365Client({
+        baseUrl: 'https://test.desk365.io/apis',
+        apiKey: 'test-api-key',
+        httpClient: http as unknown as AxiosInstance,
+        retry: false,
+        onValidationIssues
+      });
+      const ticket = { ...incompleteTicket, subject: 'Printer', updated_on: '2023-01-01 12:00:00' };
+      http.request.mockResolvedValueOnce({
+        status: 200,
+        data: { count: 3, tickets: [ticket, null, { ...ticket, ticket_number: 8, attachments: { file_name: 'log.txt' } }] }
+      });
+      
+      const result = await lenientClient.searchTickets({});
+      
+      expect(result.tickets.map(item => [item.id, item.attachments])).toEqual([['7', []], ['8', []]]);
+      expect(onValidationIssues).toHaveBeenCalledWith([
+        { path: '$.tickets[1]', expected: 'object', received: 'null' },
+        { path: '$.tickets[2].attachments', expected: 'array', received: 'object' }
+      ], { endpoint: '/v3/tickets' });
+    });
+    
+    it('should throw even in lenient mode when the response is not a ticket list', async () => {
+      http.request.mockResolvedValueOnce({ status: 200, data: 'Service temporarily unavailable' });
+      
+      await expect(client.searchTickets({})).rejects.toMatchObject({
+        name: 'ResponseValidationError',
+        issues: [{ path: '$', expected: 'object', received: 'string' }]
+      });
+    });
+  });
+  
+  describe('createSupportApi', () => {
+    it('should forward every Desk365 option to the client', async () => {
+      const onValidationIssues = jest.fn();
+      const api = createSupportApi({
+        provider: SupportProvider.DESK365,
+        baseUrl: 'https://test.desk365.io/apis',
+        apiKey: 'test-api-key',
+        httpClient: http as unknown as AxiosInstance,
+        retry: false,
+        onValidationIssues,
+        mapping: { statuses: { archived: TicketStatus.CLOSED } },
+        customFieldCodec: prefixCustomFieldCodec('cf_'),
+        validateCustomFields: false
+      });
+      http.request.mockResolvedValueOnce({
+        status: 200,
+        data: {
+          count: 1,
+          tickets: [{
+            ticket_number: 7,
+            status: 'Archived',
+            priority: 5,
+            contact_email: 'user@example.com',
+            created_on: '2023-01-01 12:00:00',
+            updated_on: '2023-01-01 12:00:00',
+            custom_fields: { cf_plan: 'pro' }
+          }]
+        }
+      });
+      
+      const { tickets } = await api.searchTickets({});
+      
+      expect(api).toBeInstanceOf(Desk365Client);
+      expect(tickets[0]).toMatchObject({ status: TicketStatus.CLOSED, customFields: { plan: 'pro' } });
+      expect(onValidationIssues).toHaveBeenCalledWith(
+        [{ path: '$.tickets[0].subject', expected: 'string', received: 'undefined' }],
+        { endpoint: '/v3/tickets' }
+      );
+    });
+    
+    it('should raise a ValidationError when baseUrl or apiKey is missing', () => {
+      expect(() => createSupportApi({ provider: SupportProvider.DESK365, baseUrl: 'https://test.desk365.io/apis' }))
+        .toThrow(new ValidationError('The Desk365 provider requires baseUrl and apiKey'));
+      expect(() => createSupportApi({ provider: 'unknown' as SupportProvider })).toThrow(ValidationError);
+    });
+  });
+});
@@ -0,0 +1,241 @@
+import { Desk365Client } from '../client';
+import { prefixCustomFieldCodec } from '../custom-fields';
+import { FakeDesk365Server, FakeDesk365Ticket } from '../desk365-fake-server';
+import { AuthenticationError, CustomFieldValidationError, NotFoundError, RateLimitError } from '../errors';
+import { TicketPriority, TicketStatus } from '../types';
+
+function seedTicket(ticketNumber: number, overrides: Partial<FakeDesk365Ticket> = {}): FakeDesk365Ticket {
+  const day = String(ticketNumber).padStart(2, '0');
+  return {
+    ticket_number: ticketNumber,
+    subject: `Ticket ${ticketNumber}`,
+    description: `Description ${ticketNumber}`,
+    status: 'open',
+    priority: 5,
+    contact_email: 'user@example.com',
+    created_on: `2024-01-${day}T10:00:00.000Z`,
+    updated_on: `2024-01-${day}T10:00:00.000Z`,
+    ...overrides
+  };
+}
+
+describe('FakeDesk365Server', () => {
+  let server: FakeDesk365Server;
+  let client: Desk365Client;
+
+  beforeEach(async () => {
+    server = new FakeDesk365Server({
+      tickets: [
+        seedTicket(1),
+        seedTicket(2, { status: 'closed', priority: 10 }),
+        seedTicket(3, { contact_email: 'other@example.com', assign_to: 'agent@example.com' })
+      ],
+      customFields: [
+        { name: 'cf_plan', label: 'Plan', type: 'dropdown', required: false, options: ['Free', 'Pro'] },
+        { name: 'cf_seats', label: 'Seats', type: 'number', required: false },
+        { name: 'cf_renewal', label: 'Renewal', type: 'date', required: false }
+      ]
+    });
+
+    client = new Desk365Client({
+      baseUrl: await server.start(),
+      apiKey: 'test-api-key',
+      retry: { baseDelayMs: 1, jitter: false },
+      keepAlive: false
+    });
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('should create a ticket from a multipart request', async () => {
+    const ticket = await client.createTicket({
+      subject: 'Cannot log in',
+      description: 'The login page hangs',
+      priority: TicketPriority.HIGH,
+      userEmail: 'new@example.com',
+      attachments: [new File(['log output'], 'log.txt', { type: 'text/plain' })]
+    });
+
+    expect(ticket).toMatchObject({
+      id: '4',
+      subject: 'Cannot log in',
+      status: TicketStatus.OPEN,
+      priority: TicketPriority.HIGH,
+      userEmail: 'new@example.com'
+    });
+    expect(ticket.attachments).toEqual([expect.objectContaining({ fileName: 'log.txt', fileSize: 10 })]);
+    expect(server.getTicket(4)).toMatchObject({ subject: 'Cannot log in', priority: 10 });
+  });
+
+  it('should apply ticket defaults unless the request overrides them', async () => {
+    const routedClient = new Desk365Client({
+      baseUrl: server.baseUrl,
+      apiKey: 'test-api-key',
+      keepAlive: false,
+      ticketDefaults: { type: 'Question', group: 'Billing', category: 'payments', source: '6', tags: ['portal'] }
+    });
+
+    const ticket = await routedClient.createTicket({
+      subject: 'Refund',
+      description: 'Charged twice',
+      userEmail: 'new@example.com',
+      group: 'Finance',
+      subCategory: 'Refunds'
+    });
+
+    const create = server.requests.find(request => request.path === '/v3/tickets/create_with_attachment');
+    const sent = JSON.parse((create?.body as { ticket_object: string }).ticket_object);
+    expect(sent).toMatchObject({ type: 'Question', group: 'Finance', category: 'payments', sub_category: 'Refunds', source: '6', tags: ['portal'] });
+    expect(ticket).toMatchObject({ type: 'Question', group: 'Finance', category: 'payments', subCategory: 'Refunds', source: '6', tags: ['portal'] });
+    expect((await client.getTicketDetails(ticket.id)).group).toBe('Finance');
+  });
+
+  it('should send the previous routing without ticketDefaults, and no routing with empty ticketDefaults', async () => {
+    const unroutedClient = new Desk365Client({ baseUrl: server.baseUrl, apiKey: 'test-api-key', keepAlive: false, ticketDefaults: {} });
+
+    await client.createTicket({ subject: 'Hello', description: '', userEmail: 'new@example.com' });
+    await unroutedClient.createTicket({ subject: 'Hello', description: '', userEmail: 'new@example.com' });
+
+    const [legacy, unrouted] = server.requests
+      .filter(request => request.path === '/v3/tickets/create_with_attachment')
+      .map(request => JSON.parse((request.body as { ticket_object: string }).ticket_object));
+    expect(legacy).toMatchObject({ type: 'Question', group: 'Development', category: 'allumni', sub_category: 'General' });
+    expect(Object.keys(unrouted)).toEqual(['email', 'subject', 'description', 'status', 'priority', 'custom_fields']);
+  });
+
+  it('should send and read back typed custom fields', async () => {
+    interface AccountFields {
+      plan: string;
+      seats: number;
+      renewal: Date;
+    }
+    const typedClient = new Desk365Client<AccountFields>({
+      baseUrl: server.baseUrl,
+      apiKey: 'test-api-key',
+      keepAlive: false,
+      customFieldTypes: { plan: 'dropdown', seats: 'number', renewal: 'date' },
+      customFieldCodec: prefixCustomFieldCodec('cf_')
+    });
+
+    const created = await typedClient.createTicket({
+      subject: 'Upgrade',
+      description: '',
+      userEmail: 'new@example.com',
+      customFields: { plan: 'Pro', renewal: new Date('2025-03-01T00:00:00Z') }
+    });
+    const updated = await typedClient.updateTicket({ ticketId: created.id, customFields: { seats: 25 } });
+
+    expect(server.getTicket(Number(created.id))?.custom_fields).toEqual({ cf_plan: 'Pro', cf_renewal: '2025-03-01', cf_seats: 25 });
+    expect(updated.customFields).toEqual({ plan: 'Pro', seats: 25, renewal: new Date('2025-03-01T00:00:00Z') });
+    expect(updated.customFields?.renewal.getUTCFullYear()).toBe(2025);
+  });
+
+  it('should reject invalid custom fields before sending the ticket', async () => {
+    const codecClient = new Desk365Client({
+      baseUrl: server.baseUrl,
+      apiKey: 'test-api-key',
+      keepAlive: false,
+      customFieldCodec: prefixCustomFieldCodec('cf_')
+    });
+
+    const definitions = await codecClient.getCustomFieldDefinitions({ refresh: true });
+    expect(definitions[0]).toEqual({ name: 'plan', label: 'Plan', type: 'dropdown', required: false, options: ['Free', 'Pro'] });
+
+    const error = await codecClient.createTicket({
+      subject: 'Upgrade',
+      description: '',
+      userEmail: 'new@example.com',
+      customFields: { plan: 'Enterprise', seat: 3 }
+    }).catch(e => e);
+
+    expect(error).toBeInstanceOf(CustomFieldValidationError);
+    expect(error.issues).toEqual([
+      expect.objectContaining({ field: 'plan', problem: 'option' }),
+      expect.objectContaining({ field: 'seat', problem: 'unknown' })
+    ]);
+    await expect(codecClient.updateTicket({ ticketId: '1', customFields: { seats: 'many' } }))
+      .rejects.toBeInstanceOf(CustomFieldValidationError);
+
+    // Definitions are fetched once per tenant, and nothing invalid reached the server
+    expect(server.requests.map(request => request.path)).toEqual(['/v3/tickets/custom_fields']);
+  });
+
+  it('should filter and page ticket listings', async () => {
+    const mine = await client.listUserTickets('user@example.com');
+    expect(mine.tickets.map(ticket => ticket.id)).toEqual(['2', '1']);
+    expect(mine.total).toBe(2);
+
+    const closed = await client.searchTickets({ status: TicketStatus.CLOSED });
+    expect(closed.tickets.map(ticket => ticket.id)).toEqual(['2']);
+
+    const assigned = await client.listAssignedTickets('agent@example.com');
+    expect(assigned.tickets.map(ticket => ticket.id)).toEqual(['3']);
+
+    expect(server.requests.every(request => ['30', '50', '100'].includes(request.query.ticket_count))).toBe(true);
+  });
+
+  it('should record replies as conversations', async () => {
+    await client.respondToTicket({ ticketId: '1', message: 'Any update?' });
+    await client.respondToTicket({ ticketId: '1', message: 'Looking into it', agentEmail: 'agent@example.com' });
+
+    const details = await client.getTicketDetails('1');
+    expect(details.conversation.map(message => [message.message, message.isStaff])).toEqual([
+      ['Any update?', false],
+      ['Looking into it', true]
+    ]);
+  });
+
+  it('should map the attachments of conversation entries', async () => {
+    await client.respondToTicketWithAttachments(
+      { ticketId: '1', message: 'Log attached' },
+      [new File(['log output'], 'log.txt', { type: 'text/plain' })]
+    );
+
+    const [message] = await client.getTicketConversations('1');
+    expect(message.attachments).toEqual([{
+      fileName: 'log.txt',
+      fileSize: 10,
+      fileType: 'text/plain',
+      createdOn: message.createdAt,
+      url: expect.any(String)
+    }]);
+  });
+
+  it('should reject unknown tickets and bad API keys', async () => {
+    await expect(client.getTicketDetails('99')).rejects.toThrow(NotFoundError);
+
+    const unauthorized = new Desk365Client({ baseUrl: server.baseUrl, apiKey: 'wrong-key', retry: false });
+    await expect(unauthorized.listUserTickets('user@example.com')).rejects.toThrow(AuthenticationError);
+  });
+
+  it('should fall back to POST when PUT is rejected with 405, without logging an error', async () => {
+    const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    const loggedClient = new Desk365Client({ baseUrl: server.baseUrl, apiKey: 'test-api-key', keepAlive: false, logger });
+    server.injectFault({ method: 'PUT', path: '/v3/tickets/update', status: 405 });
+
+    const ticket = await loggedClient.assignTicket('1', 'agent@example.com');
+
+    expect(ticket.assignedTo).toBe('agent@example.com');
+    expect(server.requests.map(request => request.method)).toEqual(['PUT', 'POST']);
+    expect(logger.debug).toHaveBeenCalledWith('Desk365 request failed', expect.objectContaining({ method: 'PUT', status: 405 }));
+    expect(logger.error).not.toHaveBeenCalled();
+  });
+
+  it('should retry throttled requests after Retry-After', async () => {
+    server.injectFault({ path: '/v3/tickets/details', status: 429, retryAfter: 0, times: 1 });
+
+    const details = await client.getTicketDetails('1');
+
+    expect(details.id).toBe('1');
+    expect(server.requests.filter(request => request.path === '/v3/tickets/details')).toHaveLength(2);
+  });
+
+  it('should surface persistent throttling as RateLimitError', async () => {
+    server.injectFault({ status: 429, retryAfter: 0 });
+
+    await expect(client.closeTicket('1')).rejects.toThrow(RateLimitError);
+    expect(server.requests).toHaveLength(3);
+  });
+});
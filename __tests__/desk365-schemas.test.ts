@@ -0,0 +1,63 @@
+import {
+  removeMalformedParts,
+  validateDesk365ConversationList,
+  validateDesk365Reply,
+  validateDesk365Ticket,
+  validateDesk365TicketList
+} from '../desk365-schemas';
+
+describe('Desk365 response schemas', () => {
+  const ticket = {
+    ticket_number: 1,
+    subject: 'Printer on fire',
+    status: 'open',
+    priority: 20,
+    contact_email: 'user@example.com',
+    created_on: '2024-01-01T10:00:00Z',
+    updated_on: '2024-01-01T10:00:00Z'
+  };
+
+  it('should accept tickets with optional fields missing or null', () => {
+    expect(validateDesk365Ticket(ticket)).toEqual([]);
+    expect(validateDesk365Ticket({ ...ticket, description: null, assigned_to: null, attachments: [] })).toEqual([]);
+  });
+
+  it('should report the path, expected and received type of each mismatch', () => {
+    expect(validateDesk365Ticket({
+      ...ticket,
+      priority: null,
+      contact_email: undefined,
+      attachments: [{ file_name: 'log.txt', file_size: '12', file_type: 'text/plain', created_on: '2024-01-01T10:00:00Z' }]
+    })).toEqual([
+      { path: '$.priority', expected: 'number | string', received: 'null' },
+      { path: '$.attachments[0].file_size', expected: 'number', received: 'string' },
+      { path: '$.attachments[0].attachment_url', expected: 'string', received: 'undefined' },
+      { path: '$.contact_email', expected: 'string', received: 'undefined' }
+    ]);
+  });
+
+  it('should check nested conversation lists and replies', () => {
+    expect(validateDesk365ConversationList({ conversations: [{ ticket_number: 1, created_by: 'agent@example.com', body: 'Hi' }] })).toEqual([
+      { path: '$.conversations[0].sender_type', expected: 'string', received: 'undefined' },
+      { path: '$.conversations[0].created_on', expected: 'string', received: 'undefined' }
+    ]);
+    expect(validateDesk365ConversationList({})).toEqual([{ path: '$.conversations', expected: 'array', received: 'undefined' }]);
+    expect(validateDesk365Reply([])).toEqual([{ path: '$', expected: 'object', received: 'array' }]);
+  });
+
+  it('should remove only the list items and fields with structural issues', () => {
+    const attachment = { file_name: 'log.txt', file_size: 3, file_type: 'text/plain', created_on: '2024-01-01T10:00:00Z', attachment_url: 'https://x/log.txt' };
+    const response = {
+      count: 4,
+      tickets: [ticket, 'deleted', { ...ticket, attachments: 'none', custom_fields: [] }, { ...ticket, attachments: [null, attachment] }]
+    };
+
+    const repaired = removeMalformedParts(response, validateDesk365TicketList(response));
+
+    expect(repaired).toEqual({ count: 4, tickets: [ticket, ticket, { ...ticket, attachments: [attachment] }] });
+    expect(validateDesk365TicketList(repaired)).toEqual([]);
+    expect(response.tickets).toHaveLength(4);
+    expect(validateDesk365TicketList(removeMalformedParts({ count: 1 }, validateDesk365TicketList({ count: 1 }))))
+      .toEqual([{ path: '$.tickets', expected: 'array', received: 'undefined' }]);
+  });
+});
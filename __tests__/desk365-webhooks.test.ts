@@ -0,0 +1,180 @@
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import { Desk365Client } from '../client';
+import {
+  createExpressWebhookHandler,
+  createNextWebhookHandler,
+  Desk365WebhookReceiver
+} from '../desk365-webhooks';
+import { WebhookVerificationError } from '../errors';
+import { TicketPriority, TicketStatus } from '../types';
+
+describe('Desk365WebhookReceiver', () => {
+  const now = new Date('2024-05-01T12:00:00Z');
+  const client = new Desk365Client({ baseUrl: 'https://test.desk365.io/apis', apiKey: 'test-api-key' });
+  const createReceiver = () => new Desk365WebhookReceiver({ client, secret: 'webhook-secret', now: () => now });
+
+  const rawTicket = {
+    ticket_number: 42,
+    subject: 'Login problem',
+    description: 'Cannot log in',
+    status: 'pending',
+    priority: 10,
+    contact_email: 'user@example.com',
+    created_on: '2024-05-01 11:00:00',
+    updated_on: '2024-05-01 11:59:00'
+  };
+
+  const delivery = (payload: Record<string, unknown>) => ({
+    headers: { 'content-type': 'application/json', 'x-desk365-webhook-secret': 'webhook-secret' },
+    body: JSON.stringify({ delivery_id: 'd-1', timestamp: now.toISOString(), ...payload })
+  });
+
+  it('should turn ticket payloads into typed events with the client mappers', async () => {
+    const receiver = createReceiver();
+    const listener = jest.fn();
+    receiver.on('status.changed', listener);
+
+    const result = await receiver.handle(delivery({ event: 'status.changed', ticket: rawTicket, previous_status: 'open' }));
+
+    expect(result).toEqual({ status: 200, body: { received: true, type: 'status.changed' } });
+    expect(listener).toHaveBeenCalledWith({
+      type: 'status.changed',
+      id: 'd-1',
+      occurredAt: '2024-05-01T12:00:00.000Z',
+      ticketId: '42',
+      ticket: expect.objectContaining({ id: '42', priority: TicketPriority.HIGH, userEmail: 'user@example.com' }),
+      status: TicketStatus.PENDING,
+      previousStatus: TicketStatus.OPEN
+    });
+  });
+
+  it('should parse replies and notes from conversation payloads', async () => {
+    const receiver = createReceiver();
+    const conversation = {
+      ticket_number: 42,
+      created_by: 'agent@example.com',
+      sender_type: 'agent',
+      body: 'Try resetting your password',
+      public_note: 0,
+      created_on: '2024-05-01 11:58:00'
+    };
+
+    const reply = await receiver.verify(delivery({ event: 'reply.added', delivery_id: 'd-1', conversation }));
+    const note = await receiver.verify(delivery({ event: 'note.added', delivery_id: 'd-2', conversation }));
+
+    expect(reply).toMatchObject({
+      type: 'reply.added',
+      ticketId: '42',
+      message: { ticketId: '42', message: 'Try resetting your password', sender: 'agent@example.com', isStaff: true }
+    });
+    expect(note).toMatchObject({ type: 'note.added', ticketId: '42', isPrivate: true });
+  });
+
+  it('should accept HMAC signatures of the body instead of the secret header', async () => {
+    const receiver = createReceiver();
+    const body = JSON.stringify({ event: 'ticket.created', delivery_id: 'd-1', timestamp: Math.floor(now.getTime() / 1000), ticket: rawTicket });
+    const signature = crypto.createHmac('sha256', 'webhook-secret').update(body).digest('hex');
+
+    const accepted = await receiver.handle({ headers: new Headers({ 'X-Desk365-Signature': `sha256=${signature}` }), body });
+    const tampered = await receiver.handle({
+      headers: new Headers({ 'X-Desk365-Signature': `sha256=${signature}` }),
+      body: body.replace('Login problem', 'Other problem')
+    });
+
+    expect(accepted.status).toBe(200);
+    expect(tampered).toEqual({ status: 401, body: { error: 'Webhook signature does not match', reason: 'unauthenticated' } });
+  });
+
+  it('should reject unauthenticated, stale, replayed and malformed deliveries', async () => {
+    const receiver = createReceiver();
+    const valid = delivery({ event: 'ticket.created', ticket: rawTicket });
+
+    await expect(receiver.verify({ ...valid, headers: { 'x-desk365-webhook-secret': 'wrong' } })).rejects.toMatchObject({ reason: 'unauthenticated' });
+    await expect(receiver.verify({ ...valid, headers: {} })).rejects.toMatchObject({ reason: 'unauthenticated' });
+    await expect(receiver.verify(delivery({ event: 'ticket.created', ticket: rawTicket, timestamp: '2024-05-01T11:50:00Z' })))
+      .rejects.toMatchObject({ reason: 'stale', status: 400 });
+    await expect(receiver.verify(delivery({ event: 'ticket.deleted', ticket: rawTicket }))).rejects.toMatchObject({ reason: 'malformed' });
+    await expect(receiver.verify(delivery({ event: 'reply.added' }))).rejects.toMatchObject({ reason: 'malformed' });
+    await expect(receiver.verify(delivery({ event: 'ticket.updated', ticket: [rawTicket] }))).rejects.toMatchObject({ reason: 'malformed' });
+
+    await receiver.verify(valid);
+    const replayed = await receiver.verify(valid).catch(error => error);
+    expect(replayed).toBeInstanceOf(WebhookVerificationError);
+    expect(replayed).toMatchObject({ reason: 'replayed', status: 409 });
+  });
+
+  it('should answer 400 malformed when a signed payload cannot be mapped', async () => {
+    const throwingClient = new Desk365Client({
+      baseUrl: 'https://test.desk365.io/apis',
+      apiKey: 'test-api-key',
+      validation: 'lenient',
+      mapping: { unmapped: 'throw' }
+    });
+    const receiver = new Desk365WebhookReceiver({ client: throwingClient, secret: 'webhook-secret', now: () => now });
+    const signed = (payload: Record<string, unknown>) => {
+      const body = JSON.stringify({ delivery_id: `d-${payload.event}`, timestamp: now.toISOString(), ...payload });
+      const signature = crypto.createHmac('sha256', 'webhook-secret').update(body).digest('hex');
+      return { headers: { 'x-desk365-signature': `sha256=${signature}` }, body };
+    };
+
+    const unmapped = await receiver.handle(signed({ event: 'ticket.created', ticket: { ...rawTicket, status: 'Spam' } }));
+    const broken = await receiver.handle(signed({ event: 'note.added', conversation: 5 }));
+
+    expect(unmapped).toEqual({ status: 400, body: { error: expect.stringContaining('Spam'), reason: 'malformed' } });
+    expect(broken).toEqual({ status: 400, body: { error: expect.any(String), reason: 'malformed' } });
+  });
+
+  it('should accept the retry of a delivery whose listener failed', async () => {
+    const receiver = createReceiver();
+    const listener = jest.fn().mockRejectedValueOnce(new Error('database down')).mockResolvedValueOnce(undefined);
+    receiver.on('*', listener);
+    const request = delivery({ event: 'ticket.updated', ticket: rawTicket });
+
+    expect((await receiver.handle(request)).status).toBe(500);
+    expect((await receiver.handle(request)).status).toBe(200);
+    expect((await receiver.handle(request)).status).toBe(409);
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+
+  it('should answer 500 instead of throwing when the replay store or the request body fails', async () => {
+    const error = jest.fn();
+    const receiver = new Desk365WebhookReceiver({
+      client,
+      secret: 'webhook-secret',
+      now: () => now,
+      replayStore: { claim: jest.fn().mockRejectedValue(new Error('Redis unavailable')), release: jest.fn() },
+      logger: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error }
+    });
+    const request = delivery({ event: 'ticket.created', ticket: rawTicket });
+
+    expect(await receiver.handle(request)).toEqual({ status: 500, body: { error: 'Webhook delivery failed' } });
+    expect(error).toHaveBeenCalledWith('Desk365 webhook delivery could not be verified', { error: 'Redis unavailable' });
+
+    const status = jest.fn(() => ({ json: jest.fn() }));
+    const brokenStream = Object.assign(Readable.from((async function* () {
+      throw new Error('aborted');
+    })()), { headers: request.headers });
+    await expect(createExpressWebhookHandler(createReceiver())(brokenStream, { status } as any)).resolves.toBeUndefined();
+    expect(status).toHaveBeenCalledWith(500);
+  });
+
+  it('should serve Express and Next.js routes', async () => {
+    const receiver = createReceiver();
+    const request = delivery({ event: 'ticket.created', ticket: rawTicket });
+
+    // Express without a body parser: the body is read from the stream
+    const json = jest.fn();
+    const expressRequest = Object.assign(Readable.from([Buffer.from(request.body)]), { headers: request.headers });
+    await createExpressWebhookHandler(receiver)(expressRequest, { status: jest.fn(() => ({ json })) } as any);
+    expect(json).toHaveBeenCalledWith({ received: true, type: 'ticket.created' });
+
+    const response = await createNextWebhookHandler(receiver)(new Request('https://example.com/webhooks/desk365', {
+      method: 'POST',
+      headers: request.headers,
+      body: request.body
+    }));
+    expect(response.status).toBe(409);
+    expect(await response.json()).toMatchObject({ reason: 'replayed' });
+  });
+});
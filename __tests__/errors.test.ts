@@ -0,0 +1,50 @@
+import {
+  AuthenticationError,
+  createErrorFromStatus,
+  MethodNotSupportedError,
+  NetworkError,
+  NotFoundError,
+  RateLimitError,
+  SupportApiError,
+  ValidationError
+} from '../errors';
+
+describe('createErrorFromStatus', () => {
+  it('should map HTTP statuses to typed errors', () => {
+    expect(createErrorFromStatus(400, 'Bad request')).toBeInstanceOf(ValidationError);
+    expect(createErrorFromStatus(401, 'Unauthorized')).toBeInstanceOf(AuthenticationError);
+    expect(createErrorFromStatus(403, 'Forbidden')).toBeInstanceOf(AuthenticationError);
+    expect(createErrorFromStatus(404, 'Not found')).toBeInstanceOf(NotFoundError);
+    expect(createErrorFromStatus(405, 'Method not allowed')).toBeInstanceOf(MethodNotSupportedError);
+    expect(createErrorFromStatus(429, 'Too many requests')).toBeInstanceOf(RateLimitError);
+  });
+
+  it('should carry the request context and provider errors', () => {
+    const error = createErrorFromStatus(422, 'Invalid ticket', {
+      provider: 'desk365',
+      endpoint: '/v3/tickets/update',
+      method: 'PUT',
+      errors: [{ field: 'priority', message: 'Invalid value' }]
+    });
+
+    expect(error).toBeInstanceOf(SupportApiError);
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe('ValidationError');
+    expect(error.status).toBe(422);
+    expect(error.provider).toBe('desk365');
+    expect(error.endpoint).toBe('/v3/tickets/update');
+    expect(error.method).toBe('PUT');
+    expect(error.errors).toEqual([{ field: 'priority', message: 'Invalid value' }]);
+    expect(error.retryable).toBe(false);
+  });
+
+  it('should flag throttling, server and network failures as retryable', () => {
+    const rateLimited = createErrorFromStatus(429, 'Too many requests', { retryAfterMs: 2000 });
+
+    expect(rateLimited.retryable).toBe(true);
+    expect((rateLimited as RateLimitError).retryAfterMs).toBe(2000);
+    expect(createErrorFromStatus(503, 'Unavailable').retryable).toBe(true);
+    expect(createErrorFromStatus(501, 'Not implemented', { retryable: false }).retryable).toBe(false);
+    expect(new NetworkError('No response', { code: 'ECONNRESET' }).retryable).toBe(true);
+  });
+});
@@ -0,0 +1,91 @@
+import { Desk365Client } from '../client';
+import { RateLimitError } from '../errors';
+import { FetchTransport } from '../fetch-transport';
+
+describe('FetchTransport', () => {
+  const jsonResponse = (status: number, body: unknown, headers: Record<string, string> = {}) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { 'Content-Type': 'application/json', ...headers }
+    });
+
+  it('should serialize query parameters and parse JSON responses', async () => {
+    const fetchMock = jest.fn().mockResolvedValueOnce(jsonResponse(200, { count: 0, tickets: [] }));
+    const transport = new FetchTransport({ fetch: fetchMock });
+
+    const response = await transport.send({
+      method: 'GET',
+      url: 'https://test.desk365.io/apis/v3/tickets',
+      headers: { Authorization: 'test-api-key' },
+      params: { ticket_count: 30, filters: JSON.stringify({ contact: ['user@example.com'] }) }
+    });
+
+    expect(fetchMock.mock.calls[0][0]).toBe(
+      'https://test.desk365.io/apis/v3/tickets?ticket_count=30&filters=%7B%22contact%22%3A%5B%22user%40example.com%22%5D%7D'
+    );
+    expect(response).toMatchObject({ status: 200, data: { count: 0, tickets: [] } });
+  });
+
+  it('should let fetch set the multipart boundary for FormData bodies', async () => {
+    const fetchMock = jest.fn().mockResolvedValueOnce(jsonResponse(200, { ticket_number: 1 }));
+    const transport = new FetchTransport({ fetch: fetchMock });
+    const formData = new FormData();
+    formData.append('ticket_object', '{}');
+
+    await transport.send({
+      method: 'POST',
+      url: 'https://test.desk365.io/apis/v3/tickets/create_with_attachment',
+      headers: { Authorization: 'test-api-key', 'Content-Type': 'multipart/form-data' },
+      data: formData
+    });
+
+    const init = fetchMock.mock.calls[0][1];
+    expect(init.body).toBe(formData);
+    expect(init.headers).toEqual({ Authorization: 'test-api-key' });
+  });
+
+  it('should send binary bodies as is', async () => {
+    const fetchMock = jest.fn().mockResolvedValueOnce(jsonResponse(201, { upload: { token: 'abc' } }));
+    const transport = new FetchTransport({ fetch: fetchMock });
+    const file = new ArrayBuffer(3);
+
+    await transport.send({
+      method: 'POST',
+      url: 'https://acme.zendesk.com/api/v2/uploads.json',
+      headers: { 'Content-Type': 'application/binary' },
+      data: file
+    });
+
+    expect(fetchMock.mock.calls[0][1].body).toBe(file);
+  });
+
+  it('should surface error statuses to the client as typed errors', async () => {
+    const fetchMock = jest.fn().mockResolvedValueOnce(jsonResponse(429, { message: 'Slow down' }, { 'Retry-After': '2' }));
+    const client = new Desk365Client({
+      baseUrl: 'https://test.desk365.io/apis',
+      apiKey: 'test-api-key',
+      transport: new FetchTransport({ fetch: fetchMock }),
+      retry: false
+    });
+
+    const error = await client.searchTickets({}).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.message).toBe('Desk365 API Error: Slow down');
+    expect(error.retryAfterMs).toBe(2000);
+  });
+
+  it('should report network failures with their error code', async () => {
+    const fetchMock = jest.fn().mockRejectedValueOnce(
+      Object.assign(new TypeError('fetch failed'), { cause: { code: 'ECONNRESET' } })
+    );
+    const client = new Desk365Client({
+      baseUrl: 'https://test.desk365.io/apis',
+      apiKey: 'test-api-key',
+      transport: new FetchTransport({ fetch: fetchMock }),
+      retry: false
+    });
+
+    await expect(client.searchTickets({})).rejects.toMatchObject({ name: 'NetworkError', code: 'ECONNRESET', retryable: true });
+  });
+});
@@ -0,0 +1,472 @@
+import { AxiosInstance } from 'axios';
+import { FreshdeskClient } from '../freshdesk-client';
+import { ValidationError } from '../errors';
+import { HttpRequestContext, HttpTransport, HttpTransportResponse } from '../http';
+import { runSupportApiConformanceTests } from '../conformance';
+import { createSupportApi, SupportProvider } from '../index';
+import { TicketPriority, TicketStatus } from '../types';
+
+describe('FreshdeskClient', () => {
+  let client: FreshdeskClient;
+  let http: { request: jest.Mock };
+
+  const freshdeskTicket = (overrides: Record<string, unknown> = {}) => ({
+    id: 7,
+    subject: 'Cannot log in',
+    description: '<div>The login page hangs</div>',
+    description_text: 'The login page hangs',
+    status: 2,
+    priority: 3,
+    requester_id: 100,
+    responder_id: null,
+    requester: { id: 100, email: 'user@example.com' },
+    attachments: [],
+    created_at: '2024-01-01T10:00:00Z',
+    updated_at: '2024-01-01T10:00:00Z',
+    ...overrides
+  });
+
+  const respond = (data: unknown, status: number = 200) => ({ status, headers: {}, data });
+
+  beforeEach(() => {
+    http = { request: jest.fn() };
+    client = new FreshdeskClient({
+      domain: 'acme',
+      apiKey: 'secret',
+      httpClient: http as unknown as AxiosInstance,
+      retry: false
+    });
+  });
+
+  it('should create tickets with attachments as multipart requests', async () => {
+    http.request.mockResolvedValueOnce(respond(freshdeskTicket({
+      attachments: [{
+        name: 'log.txt',
+        size: 3,
+        content_type: 'text/plain',
+        attachment_url: 'https://acme.freshdesk.com/log.txt',
+        created_at: '2024-01-01T10:00:00Z'
+      }]
+    }), 201));
+
+    const ticket = await client.createTicket({
+      subject: 'Cannot log in',
+      description: 'The login page hangs',
+      priority: TicketPriority.HIGH,
+      userEmail: 'user@example.com',
+      customFields: { cf_plan: 'pro' },
+      attachments: [new File(['log'], 'log.txt', { type: 'text/plain' })]
+    });
+
+    const request = http.request.mock.calls[0][0];
+    expect(request).toMatchObject({
+      method: 'POST',
+      url: 'https://acme.freshdesk.com/api/v2/tickets',
+      headers: expect.objectContaining({
+        'Content-Type': 'multipart/form-data',
+        'Authorization': `Basic ${Buffer.from('secret:X').toString('base64')}`
+      })
+    });
+    const formData = request.data as FormData;
+    expect(formData.get('email')).toBe('user@example.com');
+    expect(formData.get('status')).toBe('2');
+    expect(formData.get('priority')).toBe('3');
+    expect(formData.get('custom_fields[cf_plan]')).toBe('pro');
+    expect((formData.get('attachments[]') as File).name).toBe('log.txt');
+
+    expect(ticket).toEqual({
+      id: '7',
+      subject: 'Cannot log in',
+      description: 'The login page hangs',
+      status: TicketStatus.OPEN,
+      priority: TicketPriority.HIGH,
+      userEmail: 'user@example.com',
+      assignedTo: undefined,
+      createdAt: '2024-01-01T10:00:00Z',
+      updatedAt: '2024-01-01T10:00:00Z',
+      attachments: [{
+        fileName: 'log.txt',
+        fileSize: 3,
+        fileType: 'text/plain',
+        createdOn: '2024-01-01T10:00:00Z',
+        url: 'https://acme.freshdesk.com/log.txt'
+      }]
+    });
+  });
+
+  it('should filter, sort and page a requester\'s tickets locally', async () => {
+    http.request.mockResolvedValueOnce(respond([
+      freshdeskTicket({ id: 1, status: 2, created_at: '2024-01-01T00:00:00Z' }),
+      freshdeskTicket({ id: 2, status: 6, created_at: '2024-01-02T00:00:00Z' }),
+      freshdeskTicket({ id: 3, status: 2, created_at: '2024-01-03T00:00:00Z' }),
+      freshdeskTicket({ id: 4, status: 2, created_at: '2024-01-04T00:00:00Z' })
+    ]));
+
+    const response = await client.listUserTickets('user@example.com', { status: TicketStatus.OPEN, page: 2, limit: 2 });
+
+    expect(http.request.mock.calls[0][0]).toMatchObject({
+      method: 'GET',
+      url: 'https://acme.freshdesk.com/api/v2/tickets',
+      params: { email: 'user@example.com', include: 'requester', updated_since: '1970-01-01T00:00:00Z', page: 1, per_page: 100 }
+    });
+    expect(response).toMatchObject({ total: 3, page: 2, limit: 2, totalPages: 2 });
+    expect(response.tickets.map(ticket => ticket.id)).toEqual(['1']);
+  });
+
+  it('should use the filter API for assigned tickets', async () => {
+    http.request
+      .mockResolvedValueOnce(respond([{ id: 200, contact: { email: 'agent@example.com' } }]))
+      .mockResolvedValueOnce(respond({ results: [freshdeskTicket({ responder_id: 200, status: 6 })], total: 1 }));
+
+    const response = await client.listAssignedTickets('agent@example.com', { priority: TicketPriority.HIGH });
+
+    expect(http.request.mock.calls[0][0]).toMatchObject({ url: 'https://acme.freshdesk.com/api/v2/agents', params: { email: 'agent@example.com' } });
+    expect(http.request.mock.calls[1][0]).toMatchObject({
+      url: 'https://acme.freshdesk.com/api/v2/search/tickets',
+      params: { query: '"agent_id:200 AND priority:3"', page: 1 }
+    });
+    expect(response.tickets[0]).toMatchObject({ status: TicketStatus.PENDING, assignedTo: 'agent@example.com' });
+  });
+
+  it('should use the list endpoint when a sort order is requested', async () => {
+    http.request.mockResolvedValueOnce(respond([
+      freshdeskTicket({ id: 4, status: 2, updated_at: '2024-01-04T00:00:00Z' }),
+      freshdeskTicket({ id: 3, status: 6, updated_at: '2024-01-03T00:00:00Z' }),
+      freshdeskTicket({ id: 2, status: 2, updated_at: '2024-01-02T00:00:00Z' }),
+      freshdeskTicket({ id: 1, status: 2, updated_at: '2024-01-01T00:00:00Z' })
+    ]));
+
+    const response = await client.searchTickets({ status: TicketStatus.OPEN, sortBy: 'updatedAt', sortOrder: 'desc', limit: 2 });
+
+    expect(http.request.mock.calls[0][0]).toMatchObject({
+      url: 'https://acme.freshdesk.com/api/v2/tickets',
+      params: { order_by: 'updated_at', order_type: 'desc', updated_since: '1970-01-01T00:00:00Z', page: 1, per_page: 100 }
+    });
+    expect(response.tickets.map(ticket => ticket.id)).toEqual(['4', '2']);
+    // One more open ticket follows, so there is a second page
+    expect(response).toMatchObject({ total: 3, page: 1, limit: 2, totalPages: 2 });
+
+    await expect(client.searchTickets({ sortBy: 'priority' })).rejects.toBeInstanceOf(ValidationError);
+    expect(http.request).toHaveBeenCalledTimes(1);
+  });
+
+  it('should count every matching ticket when listing in a sort order', async () => {
+    const batch = (first: number, count: number) => Array.from({ length: count }, (_, index) =>
+      freshdeskTicket({ id: first + index, status: (first + index) % 2 ? 2 : 6 }));
+    http.request
+      .mockResolvedValueOnce(respond(batch(1, 100)))
+      .mockResolvedValueOnce(respond(batch(101, 20)));
+
+    const response = await client.searchTickets({ status: TicketStatus.OPEN, sortOrder: 'asc', limit: 10 });
+
+    expect(response).toMatchObject({ total: 60, page: 1, limit: 10, totalPages: 6 });
+    expect(response.tickets).toHaveLength(10);
+    expect(http.request.mock.calls.map(([request]) => request.params.page)).toEqual([1, 2]);
+  });
+
+  it('should stop at the filter API limit of 10 pages', async () => {
+    const warn = jest.fn();
+    client = new FreshdeskClient({
+      domain: 'acme',
+      apiKey: 'secret',
+      httpClient: http as unknown as AxiosInstance,
+      retry: false,
+      logger: { debug: jest.fn(), info: jest.fn(), warn, error: jest.fn() }
+    });
+    const results = Array.from({ length: 30 }, (_, index) => freshdeskTicket({ id: index + 1 }));
+    http.request.mockResolvedValue(respond({ results, total: 450 }));
+
+    const last = await client.searchTickets({ status: TicketStatus.OPEN, page: 10, limit: 30 });
+    const beyond = await client.searchTickets({ status: TicketStatus.OPEN, page: 11, limit: 30 });
+
+    expect(last).toMatchObject({ total: 300, totalPages: 10 });
+    expect(warn).toHaveBeenCalledWith('Freshdesk filter API results truncated', expect.objectContaining({ total: 450 }));
+    expect(last.tickets).toHaveLength(30);
+    expect(beyond).toMatchObject({ tickets: [], total: 300, totalPages: 10 });
+    expect(http.request.mock.calls.map(([request]) => request.params.page)).toEqual([10, 10]);
+  });
+
+  it('should record customer responses as incoming notes and agent responses as replies', async () => {
+    http.request
+      .mockResolvedValueOnce(respond(freshdeskTicket()))
+      .mockResolvedValueOnce(respond({ id: 1, body_text: 'Any news?', user_id: 100, incoming: true, created_at: '2024-01-02T00:00:00Z' }, 201))
+      .mockResolvedValueOnce(respond(freshdeskTicket()))
+      .mockResolvedValueOnce(respond([{ id: 200, contact: { email: 'agent@example.com' } }]))
+      .mockResolvedValueOnce(respond({ id: 2, body_text: 'On it', user_id: 200, created_at: '2024-01-03T00:00:00Z' }, 201));
+
+    const customer = await client.respondToTicket({ ticketId: '7', message: 'Any news?' });
+    const agent = await client.respondToTicket({ ticketId: '7', message: 'On it', agentEmail: 'agent@example.com' });
+
+    expect(http.request.mock.calls[1][0]).toMatchObject({
+      method: 'POST',
+      url: 'https://acme.freshdesk.com/api/v2/tickets/7/notes',
+      data: { body: 'Any news?', user_id: 100, incoming: true, private: false }
+    });
+    expect(http.request.mock.calls[4][0]).toMatchObject({
+      method: 'POST',
+      url: 'https://acme.freshdesk.com/api/v2/tickets/7/reply',
+      data: { body: 'On it', user_id: 200 }
+    });
+    expect(customer).toMatchObject({ id: '1', ticketId: '7', message: 'Any news?', sender: 'user@example.com', isStaff: false });
+    expect(agent).toMatchObject({ id: '2', ticketId: '7', message: 'On it', sender: 'agent@example.com', isStaff: true });
+  });
+
+  it('should send custom fields on updates', async () => {
+    http.request.mockResolvedValueOnce(respond(freshdeskTicket({ custom_fields: { cf_plan: 'pro' } })));
+
+    await client.updateTicket({ ticketId: '7', customFields: { cf_plan: 'pro' } });
+
+    expect(http.request.mock.calls[0][0]).toMatchObject({
+      method: 'PUT',
+      url: 'https://acme.freshdesk.com/api/v2/tickets/7',
+      data: { custom_fields: { cf_plan: 'pro' } }
+    });
+  });
+
+  it('should convert Freshdesk validation errors into typed errors', async () => {
+    http.request.mockResolvedValueOnce(respond({
+      description: 'Validation failed',
+      errors: [{ field: 'status', message: 'It should be one of these values: 2,3,4,5', code: 'invalid_value' }]
+    }, 400));
+
+    const error = await client.closeTicket('7').catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.message).toBe('Freshdesk API Error: Validation failed');
+    expect(error.errors).toEqual([expect.objectContaining({ field: 'status' })]);
+  });
+
+  it('should be available through createSupportApi', () => {
+    expect(createSupportApi({ provider: SupportProvider.FRESHDESK, subdomain: 'acme', apiKey: 'secret' }))
+      .toBeInstanceOf(FreshdeskClient);
+
+    expect(() => createSupportApi({ provider: SupportProvider.FRESHDESK, subdomain: 'acme' }))
+      .toThrow(new ValidationError('The Freshdesk provider requires subdomain and apiKey'));
+  });
+
+  it('should forward the HTTP options from createSupportApi', async () => {
+    const api = createSupportApi({
+      provider: SupportProvider.FRESHDESK,
+      subdomain: 'acme',
+      apiKey: 'secret',
+      httpClient: http as unknown as AxiosInstance,
+      retry: false
+    });
+    http.request.mockResolvedValueOnce({ status: 503, data: {} });
+
+    await expect(api.getTicketDetails('7')).rejects.toThrow();
+    expect(http.request).toHaveBeenCalledTimes(1);
+  });
+});
+
+const FRESHDESK_URL = 'https://acme.freshdesk.com/api/v2';
+
+interface FakeFreshdeskTicket {
+  id: number;
+  subject: string;
+  description: string;
+  description_text: string;
+  status: number;
+  priority: number;
+  requester_id: number;
+  responder_id: number | null;
+  attachments: unknown[];
+  created_at: string;
+  updated_at: string;
+}
+
+interface FakeFreshdeskConversation {
+  id: number;
+  body: string;
+  body_text: string;
+  user_id: number;
+  incoming: boolean;
+  private: boolean;
+  attachments: unknown[];
+  created_at: string;
+}
+
+/**
+ * In-memory Freshdesk API covering the endpoints FreshdeskClient uses
+ * Every email looked up as an agent belongs to one, so tickets can be assigned to any address
+ */
+class FakeFreshdeskTransport implements HttpTransport {
+  private contacts = new Map<number, string>();
+  private agents = new Map<number, string>();
+  private tickets = new Map<number, FakeFreshdeskTicket>();
+  private conversations = new Map<number, FakeFreshdeskConversation[]>();
+  private nextId = 100;
+  private clock = 0;
+
+  async send(request: HttpRequestContext): Promise<HttpTransportResponse> {
+    const path = request.url.slice(FRESHDESK_URL.length);
+    const params = request.params || {};
+    const body = request.data as Record<string, any>;
+    const ticketMatch = path.match(/^\/tickets\/(\d+)(?:\/(conversations|reply|notes))?$/);
+    const personMatch = path.match(/^\/(agents|contacts)\/(\d+)$/);
+
+    if (path === '/tickets') {
+      return request.method === 'POST'
+        ? this.respond(201, this.createTicket(body))
+        : this.listTickets(params);
+    }
+
+    if (ticketMatch) {
+      const ticket = this.tickets.get(Number(ticketMatch[1]));
+      if (!ticket) {
+        return this.respond(404, '');
+      }
+
+      if (ticketMatch[2] === 'conversations') {
+        return this.respond(200, this.paginate(this.conversations.get(ticket.id)!, params));
+      }
+
+      if (ticketMatch[2]) {
+        const reply = ticketMatch[2] === 'reply';
+        return this.respond(201, this.addConversation(ticket, body.user_id, body.body, !reply));
+      }
+
+      if (request.method === 'PUT') {
+        return this.respond(200, this.updateTicket(ticket, body));
+      }
+
+      return this.respond(200, this.withRequester(ticket));
+    }
+
+    if (path === '/search/tickets') {
+      return this.search(params);
+    }
+
+    if (path === '/agents') {
+      return this.respond(200, [this.toAgent(this.agentFor(params.email))]);
+    }
+
+    if (personMatch) {
+      const people = personMatch[1] === 'agents' ? this.agents : this.contacts;
+      const id = Number(personMatch[2]);
+      if (!people.has(id)) {
+        return this.respond(404, '');
+      }
+      return this.respond(200, people === this.agents ? this.toAgent(id) : { id, email: people.get(id) });
+    }
+
+    return this.respond(404, { code: 'invalid_endpoint', message: `No route for ${request.method} ${path}` });
+  }
+
+  private createTicket(fields: Record<string, any>): FakeFreshdeskTicket {
+    const now = this.now();
+    let requesterId = Array.from(this.contacts.keys()).find(id => this.contacts.get(id) === fields.email);
+    if (requesterId === undefined) {
+      requesterId = this.nextId++;
+      this.contacts.set(requesterId, fields.email);
+    }
+
+    const ticket: FakeFreshdeskTicket = {
+      id: this.nextId++,
+      subject: fields.subject,
+      description: `<div>${fields.description}</div>`,
+      description_text: fields.description,
+      status: fields.status,
+      priority: fields.priority,
+      requester_id: requesterId,
+      responder_id: null,
+      attachments: [],
+      created_at: now,
+      updated_at: now
+    };
+
+    this.tickets.set(ticket.id, ticket);
+    this.conversations.set(ticket.id, []);
+    return ticket;
+  }
+
+  private updateTicket(ticket: FakeFreshdeskTicket, update: Record<string, any>): FakeFreshdeskTicket {
+    ticket.status = update.status ?? ticket.status;
+    ticket.priority = update.priority ?? ticket.priority;
+    ticket.responder_id = update.responder_id ?? ticket.responder_id;
+    ticket.updated_at = this.now();
+    return ticket;
+  }
+
+  private addConversation(ticket: FakeFreshdeskTicket, userId: number, text: string, incoming: boolean): FakeFreshdeskConversation {
+    const conversation: FakeFreshdeskConversation = {
+      id: this.nextId++,
+      body: `<div>${text}</div>`,
+      body_text: text,
+      user_id: userId,
+      incoming,
+      private: false,
+      attachments: [],
+      created_at: this.now()
+    };
+
+    this.conversations.get(ticket.id)!.push(conversation);
+    return conversation;
+  }
+
+  private listTickets(params: Record<string, any>): HttpTransportResponse {
+    const field = (params.order_by || 'created_at') as 'created_at' | 'updated_at';
+    const direction = params.order_type === 'asc' ? 1 : -1;
+    const tickets = Array.from(this.tickets.values())
+      .filter(ticket => !params.email || this.contacts.get(ticket.requester_id) === params.email)
+      .sort((a, b) => (a[field].localeCompare(b[field]) || a.id - b.id) * direction);
+
+    return this.respond(200, this.paginate(tickets, params).map(ticket => this.withRequester(ticket)));
+  }
+
+  private search(params: Record<string, any>): HttpTransportResponse {
+    // The filter API serves at most 10 pages of 30 results
+    if (Number(params.page) > 10) {
+      return this.respond(400, { description: 'Validation failed', errors: [{ field: 'page', code: 'invalid_value' }] });
+    }
+
+    const terms = String(params.query).replace(/^"|"$/g, '').split(' AND ').map(term => term.split(':'));
+    const fields: Record<string, keyof FakeFreshdeskTicket> = { agent_id: 'responder_id', status: 'status', priority: 'priority' };
+    const results = Array.from(this.tickets.values())
+      .filter(ticket => terms.every(([name, value]) => !fields[name] || ticket[fields[name]] === Number(value)))
+      .sort((a, b) => b.created_at.localeCompare(a.created_at) || b.id - a.id);
+
+    return this.respond(200, { results: this.paginate(results, { ...params, per_page: 30 }), total: results.length });
+  }
+
+  private agentFor(email: string): number {
+    const existing = Array.from(this.agents.keys()).find(id => this.agents.get(id) === email);
+    if (existing !== undefined) {
+      return existing;
+    }
+
+    const id = this.nextId++;
+    this.agents.set(id, email);
+    return id;
+  }
+
+  private toAgent(id: number): Record<string, unknown> {
+    return { id, contact: { email: this.agents.get(id) } };
+  }
+
+  private withRequester(ticket: FakeFreshdeskTicket): Record<string, unknown> {
+    return { ...ticket, requester: { id: ticket.requester_id, email: this.contacts.get(ticket.requester_id) } };
+  }
+
+  private paginate<T>(items: T[], params: Record<string, any>): T[] {
+    const page = Number(params.page || 1);
+    const perPage = Number(params.per_page || 30);
+    return items.slice((page - 1) * perPage, page * perPage);
+  }
+
+  private now(): string {
+    // Every write happens a second after the previous one, so orderings are deterministic
+    return new Date(Date.UTC(2024, 0, 1) + this.clock++ * 1000).toISOString();
+  }
+
+  private respond(status: number, data: unknown): HttpTransportResponse {
+    return { status, headers: {}, data: JSON.parse(JSON.stringify(data)) };
+  }
+}
+
+runSupportApiConformanceTests(() => new FreshdeskClient({
+  domain: 'acme',
+  apiKey: 'secret',
+  transport: new FakeFreshdeskTransport(),
+  retry: false
+}), { name: 'FreshdeskClient conformance' });
@@ -0,0 +1,118 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import createSupportApi, { SupportProvider } from '../index';
+import { runSupportApiConformanceTests } from '../conformance';
+import { NotFoundError } from '../errors';
+import { LocalFileSupportProvider } from '../local-file-provider';
+import { TicketPriority, TicketStatus } from '../types';
+
+describe('LocalFileSupportProvider', () => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'support-api-local-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should keep tickets, conversations and attachments across restarts', async () => {
+    const provider = new LocalFileSupportProvider({ dataDir });
+    const ticket = await provider.createTicket({
+      subject: 'Billing question',
+      description: 'Invoice is missing',
+      priority: TicketPriority.HIGH,
+      userEmail: 'user@example.com',
+      attachments: [new File(['%PDF'], 'invoice.pdf', { type: 'application/pdf' })]
+    });
+    await provider.respondToTicket({ ticketId: ticket.id, message: 'Looking into it', agentEmail: 'agent@example.com' });
+
+    const restarted = new LocalFileSupportProvider({ dataDir });
+    const details = await restarted.getTicketDetails(ticket.id);
+
+    expect(details).toMatchObject({
+      id: '1',
+      subject: 'Billing question',
+      status: TicketStatus.PENDING,
+      priority: TicketPriority.HIGH
+    });
+    expect(details.conversation).toEqual([expect.objectContaining({ message: 'Looking into it', isStaff: true })]);
+
+    const attachment = details.attachments![0];
+    expect(attachment.url).toMatch(/^file:\/\/.*\/attachments\/1\/1-invoice\.pdf$/);
+    expect(await restarted.getAttachmentContent(attachment.url)!.text()).toBe('%PDF');
+
+    // IDs continue after the saved tickets
+    const next = await restarted.createTicket({ subject: 'Another', description: '', userEmail: 'user@example.com' });
+    expect(next.id).toBe('2');
+  });
+
+  it('should support every ticket filter', async () => {
+    const provider = new LocalFileSupportProvider({ dataDir });
+    provider.seed({
+      tickets: [1, 2, 3, 4].map(index => ({
+        id: String(index),
+        subject: index % 2 ? `Login problem ${index}` : `Billing ${index}`,
+        description: '',
+        status: index > 2 ? TicketStatus.CLOSED : TicketStatus.OPEN,
+        priority: index === 4 ? TicketPriority.URGENT : TicketPriority.LOW,
+        userEmail: index === 1 ? 'other@example.com' : 'user@example.com',
+        assignedTo: index === 3 ? 'agent@example.com' : undefined,
+        createdAt: `2024-01-0${index}T00:00:00.000Z`,
+        updatedAt: `2024-01-0${5 - index}T00:00:00.000Z`
+      }))
+    });
+    await provider.flush();
+
+    const restarted = new LocalFileSupportProvider({ dataDir });
+    const ids = async (options: Parameters<typeof restarted.searchTickets>[0]) =>
+      (await restarted.searchTickets(options)).tickets.map(ticket => ticket.id);
+
+    expect(await ids({ userEmail: 'user@example.com' })).toEqual(['4', '3', '2']);
+    expect(await ids({ assignedTo: 'agent@example.com' })).toEqual(['3']);
+    expect(await ids({ status: TicketStatus.CLOSED })).toEqual(['4', '3']);
+    expect(await ids({ priority: TicketPriority.URGENT })).toEqual(['4']);
+    expect(await ids({ searchQuery: 'login' })).toEqual(['3', '1']);
+    expect(await ids({ sortBy: 'updatedAt', sortOrder: 'asc' })).toEqual(['4', '3', '2', '1']);
+    expect(await ids({ sortBy: 'priority', limit: 2, page: 1 })).toEqual(['4', '3']);
+  });
+
+  it('should clear the data directory on reset', async () => {
+    const provider = new LocalFileSupportProvider({ dataDir });
+    await provider.createTicket({
+      subject: 'Help',
+      description: '',
+      userEmail: 'user@example.com',
+      attachments: [new File(['log'], 'log.txt')]
+    });
+
+    provider.reset();
+    await provider.flush();
+
+    expect(fs.existsSync(path.join(dataDir, 'attachments'))).toBe(false);
+    await expect(new LocalFileSupportProvider({ dataDir }).getTicketDetails('1')).rejects.toMatchObject({
+      name: NotFoundError.name,
+      provider: 'local'
+    });
+  });
+
+  it('should be available through createSupportApi', () => {
+    expect(createSupportApi({ provider: SupportProvider.LOCAL, dataDir })).toBeInstanceOf(LocalFileSupportProvider);
+    expect(() => createSupportApi({ provider: SupportProvider.LOCAL })).toThrow('The local provider requires dataDir');
+  });
+});
+
+const conformanceDirs: string[] = [];
+
+runSupportApiConformanceTests(() => {
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'support-api-local-'));
+  conformanceDirs.push(dataDir);
+  return new LocalFileSupportProvider({ dataDir });
+}, {
+  name: 'LocalFileSupportProvider conformance',
+  teardown: () => {
+    conformanceDirs.splice(0).forEach(dataDir => fs.rmSync(dataDir, { recursive: true, force: true }));
+  }
+});
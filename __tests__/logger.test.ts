@@ -0,0 +1,46 @@
+import { adaptLogger, createConsoleLogger } from '../logger';
+
+describe('adaptLogger', () => {
+  const createTarget = () => ({
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn()
+  });
+
+  it('should pass fields first to pino-style loggers', () => {
+    const target = createTarget();
+    const logger = adaptLogger(target);
+
+    logger.info('Desk365 response', { status: 200 });
+
+    expect(target.info).toHaveBeenCalledWith({ status: 200 }, 'Desk365 response');
+  });
+
+  it('should pass the message first to winston-style loggers', () => {
+    const target = createTarget();
+    const logger = adaptLogger(target, 'winston');
+
+    logger.error('Desk365 request failed', { status: 500 });
+
+    expect(target.error).toHaveBeenCalledWith('Desk365 request failed', { status: 500 });
+  });
+});
+
+describe('createConsoleLogger', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should drop entries below the minimum level', () => {
+    const debugSpy = jest.spyOn(console, 'debug').mockImplementation(() => undefined);
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const logger = createConsoleLogger('warn');
+
+    logger.debug('Desk365 request');
+    logger.warn('Attachment file not found', { path: '/tmp/missing.pdf' });
+
+    expect(debugSpy).not.toHaveBeenCalled();
+    expect(warnSpy).toHaveBeenCalledWith('[support-api] WARN Attachment file not found', { path: '/tmp/missing.pdf' });
+  });
+});
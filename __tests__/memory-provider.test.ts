@@ -0,0 +1,112 @@
+import createSupportApi, { SupportProvider } from '../index';
+import { NotFoundError, ValidationError } from '../errors';
+import { InMemorySupportProvider } from '../memory-provider';
+import { TicketPriority, TicketStatus } from '../types';
+
+describe('InMemorySupportProvider', () => {
+  let provider: InMemorySupportProvider;
+  
+  beforeEach(() => {
+    provider = new InMemorySupportProvider();
+  });
+  
+  it('should create tickets with sequential IDs and defaults', async () => {
+    const first = await provider.createTicket({
+      subject: 'Cannot log in',
+      description: 'Password reset link is broken',
+      userEmail: 'user@example.com'
+    });
+    const second = await provider.createTicket({
+      subject: 'Billing question',
+      description: 'Invoice is missing',
+      priority: TicketPriority.HIGH,
+      userEmail: 'user@example.com',
+      attachments: [new File(['%PDF'], 'invoice.pdf', { type: 'application/pdf' })],
+      group: 'Billing',
+      tags: ['invoice']
+    });
+    
+    expect(first).toMatchObject({ id: '1', status: TicketStatus.OPEN, priority: TicketPriority.MEDIUM });
+    expect(second).toMatchObject({ id: '2', group: 'Billing', tags: ['invoice'] });
+    expect(second.attachments).toEqual([
+      expect.objectContaining({ fileName: 'invoice.pdf', fileSize: 4, fileType: 'application/pdf' })
+    ]);
+    expect(provider.getAttachmentContent(second.attachments![0].url)).toBeDefined();
+  });
+  
+  it('should move tickets through status transitions on replies', async () => {
+    const ticket = await provider.createTicket({ subject: 'Help', description: '', userEmail: 'user@example.com' });
+    
+    await provider.respondToTicket({ ticketId: ticket.id, message: 'Looking into it', agentEmail: 'agent@example.com' });
+    expect((await provider.getTicketDetails(ticket.id)).status).toBe(TicketStatus.PENDING);
+    
+    await provider.respondToTicket({ ticketId: ticket.id, message: 'Any update?' });
+    const details = await provider.getTicketDetails(ticket.id);
+    expect(details.status).toBe(TicketStatus.OPEN);
+    expect(details.conversation.map(message => [message.sender, message.isStaff])).toEqual([
+      ['agent@example.com', true],
+      ['user@example.com', false]
+    ]);
+    
+    await provider.closeTicket(ticket.id);
+    await expect(provider.respondToTicket({ ticketId: ticket.id, message: 'Hello?' })).rejects.toBeInstanceOf(ValidationError);
+    
+    await provider.reopenTicket(ticket.id);
+    await expect(provider.respondToTicket({ ticketId: ticket.id, message: 'Hello?' })).resolves.toMatchObject({ ticketId: ticket.id });
+  });
+  
+  it('should filter, sort and paginate seeded tickets', async () => {
+    provider.seed({
+      tickets: [1, 2, 3, 4, 5].map(index => ({
+        id: String(index * 10),
+        subject: `Ticket ${index}`,
+        description: index % 2 ? 'printer on fire' : 'slow network',
+        status: TicketStatus.OPEN,
+        priority: index > 3 ? TicketPriority.URGENT : TicketPriority.LOW,
+        userEmail: 'user@example.com',
+        assignedTo: index % 2 ? 'agent@example.com' : undefined,
+        createdAt: `2024-01-0${index}T00:00:00.000Z`,
+        updatedAt: `2024-01-0${index}T00:00:00.000Z`
+      }))
+    });
+    
+    const assigned = await provider.listAssignedTickets('agent@example.com', { sortBy: 'createdAt', sortOrder: 'asc' });
+    expect(assigned.tickets.map(ticket => ticket.id)).toEqual(['10', '30', '50']);
+    
+    const page = await provider.searchTickets({ searchQuery: 'PRINTER', page: 2, limit: 2 });
+    expect(page).toMatchObject({ total: 3, page: 2, limit: 2, totalPages: 2 });
+    expect(page.tickets.map(ticket => ticket.id)).toEqual(['10']);
+    
+    const urgent = await provider.listAllTickets({ priority: TicketPriority.URGENT });
+    expect(urgent.map(ticket => ticket.id)).toEqual(['50', '40']);
+    
+    const created = await provider.createTicket({ subject: 'New', description: '', userEmail: 'user@example.com' });
+    expect(created.id).toBe('51');
+  });
+  
+  it('should raise typed errors for unknown tickets', async () => {
+    await expect(provider.getTicketDetails('404')).rejects.toBeInstanceOf(NotFoundError);
+    await expect(provider.assignTicket('404', 'agent@example.com')).rejects.toBeInstanceOf(NotFoundError);
+  });
+  
+  it('should be selectable through createSupportApi', async () => {
+    const supportApi = createSupportApi({
+      provider: SupportProvider.MEMORY,
+      fixtures: {
+        tickets: [{
+          id: '7',
+          subject: 'Seeded',
+          description: '',
+          status: TicketStatus.PENDING,
+          priority: TicketPriority.MEDIUM,
+          userEmail: 'user@example.com',
+          createdAt: '2024-01-01T00:00:00.000Z',
+          updatedAt: '2024-01-01T00:00:00.000Z'
+        }]
+      }
+    });
+    
+    expect(supportApi).toBeInstanceOf(InMemorySupportProvider);
+    await expect(supportApi.listUserTickets('user@example.com')).resolves.toMatchObject({ total: 1 });
+  });
+});
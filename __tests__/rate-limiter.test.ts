@@ -0,0 +1,56 @@
+import { RateLimiter } from '../rate-limiter';
+
+describe('RateLimiter', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should cap the number of calls in flight', async () => {
+    const limiter = new RateLimiter({ maxConcurrent: 2 });
+    const releases: Array<() => void> = [];
+    const task = () => new Promise<void>(resolve => releases.push(resolve));
+
+    const calls = [limiter.schedule(task), limiter.schedule(task), limiter.schedule(task)];
+    await Promise.resolve();
+
+    expect(limiter.getStats()).toMatchObject({ inFlight: 2, queued: 1, remaining: null });
+
+    releases[0]();
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(limiter.getStats()).toMatchObject({ inFlight: 2, queued: 0 });
+
+    releases[1]();
+    releases[2]();
+    await Promise.all(calls);
+
+    expect(limiter.getStats()).toMatchObject({ inFlight: 0, queued: 0 });
+  });
+
+  it('should queue calls that exceed the per-minute budget', async () => {
+    jest.useFakeTimers();
+    const limiter = new RateLimiter({ requestsPerMinute: 60, burst: 2 });
+    const task = jest.fn().mockResolvedValue('done');
+
+    const calls = [limiter.schedule(task), limiter.schedule(task), limiter.schedule(task)];
+    await Promise.resolve();
+
+    expect(task).toHaveBeenCalledTimes(2);
+    expect(limiter.getStats()).toMatchObject({ queued: 1, remaining: 0, requestsPerMinute: 60 });
+
+    // One token is earned per second at 60 requests per minute
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(task).toHaveBeenCalledTimes(3);
+    await expect(Promise.all(calls)).resolves.toEqual(['done', 'done', 'done']);
+  });
+
+  it('should propagate task failures without blocking the queue', async () => {
+    const limiter = new RateLimiter({ maxConcurrent: 1 });
+    const failing = limiter.schedule(() => Promise.reject(new Error('boom')));
+    const succeeding = limiter.schedule(() => Promise.resolve('ok'));
+
+    await expect(failing).rejects.toThrow('boom');
+    await expect(succeeding).resolves.toBe('ok');
+  });
+});
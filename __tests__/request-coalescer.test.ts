@@ -0,0 +1,34 @@
+import { RequestCoalescer } from '../request-coalescer';
+
+describe('RequestCoalescer', () => {
+  it('should share a call in flight between callers with the same key', async () => {
+    const coalescer = new RequestCoalescer();
+    let release: (value: string) => void = () => undefined;
+    const task = jest.fn(() => new Promise<string>(resolve => {
+      release = resolve;
+    }));
+
+    const calls = [coalescer.run('a', task), coalescer.run('a', task), coalescer.run('b', async () => 'other')];
+    await Promise.resolve();
+
+    expect(task).toHaveBeenCalledTimes(1);
+    expect(coalescer.getStats()).toEqual({ calls: 3, coalesced: 1, inFlight: 2 });
+
+    release('shared');
+    expect(await Promise.all(calls)).toEqual(['shared', 'shared', 'other']);
+    expect(coalescer.getStats()).toEqual({ calls: 3, coalesced: 1, inFlight: 0 });
+  });
+
+  it('should share failures and start afresh after a call settles', async () => {
+    const coalescer = new RequestCoalescer();
+    const task = jest.fn()
+      .mockRejectedValueOnce(new Error('timeout'))
+      .mockResolvedValueOnce('ok');
+
+    const results = await Promise.allSettled([coalescer.run('a', task), coalescer.run('a', task)]);
+
+    expect(results.map(result => result.status)).toEqual(['rejected', 'rejected']);
+    await expect(coalescer.run('a', task)).resolves.toBe('ok');
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+});
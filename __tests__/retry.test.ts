@@ -0,0 +1,97 @@
+import { NetworkError, RateLimitError, SupportApiError, ValidationError } from '../errors';
+import { computeRetryDelay, parseRetryAfter, withRetry } from '../retry';
+
+describe('withRetry', () => {
+  const policy = { maxAttempts: 3, baseDelayMs: 0 };
+
+  it('should retry retryable failures of idempotent methods', async () => {
+    const operation = jest.fn()
+      .mockRejectedValueOnce(new NetworkError('No response', { code: 'ECONNRESET' }))
+      .mockRejectedValueOnce(new SupportApiError('Unavailable', { status: 503, retryable: true }))
+      .mockResolvedValueOnce('ok');
+    const onRetry = jest.fn();
+
+    const result = await withRetry(operation, { ...policy, onRetry }, { method: 'GET', endpoint: '/v3/tickets' });
+
+    expect(result).toBe('ok');
+    expect(operation).toHaveBeenCalledTimes(3);
+    expect(onRetry).toHaveBeenCalledTimes(2);
+    expect(onRetry.mock.calls[0][0]).toMatchObject({ attempt: 1, method: 'GET', endpoint: '/v3/tickets' });
+  });
+
+  it('should give up after the maximum number of attempts', async () => {
+    const error = new NetworkError('No response');
+    const operation = jest.fn().mockRejectedValue(error);
+
+    await expect(withRetry(operation, policy, { method: 'GET', endpoint: '/v3/tickets' })).rejects.toBe(error);
+    expect(operation).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not retry non-idempotent methods unless marked safe', async () => {
+    const operation = jest.fn().mockRejectedValue(new NetworkError('No response'));
+
+    await expect(withRetry(operation, policy, { method: 'POST', endpoint: '/v3/tickets/add_reply' })).rejects.toBeInstanceOf(NetworkError);
+    expect(operation).toHaveBeenCalledTimes(1);
+
+    operation.mockClear();
+    await expect(withRetry(operation, policy, { method: 'POST', endpoint: '/v3/tickets/update', safe: true })).rejects.toBeInstanceOf(NetworkError);
+    expect(operation).toHaveBeenCalledTimes(3);
+  });
+
+  it('should only retry throttled non-idempotent requests when marked safe', async () => {
+    const throttled = new RateLimitError('Too many requests', { retryAfterMs: 0 });
+    const operation = jest.fn().mockRejectedValueOnce(throttled).mockResolvedValueOnce('created');
+
+    await expect(withRetry(operation, policy, { method: 'POST', endpoint: '/v3/tickets/create_with_attachment' })).rejects.toBe(throttled);
+    expect(operation).toHaveBeenCalledTimes(1);
+
+    operation.mockReset().mockRejectedValueOnce(throttled).mockResolvedValueOnce('updated');
+    await expect(withRetry(operation, policy, { method: 'POST', endpoint: '/v3/tickets/update', safe: true })).resolves.toBe('updated');
+  });
+
+  it('should fail fast when Retry-After exceeds the maximum delay', async () => {
+    const throttled = new RateLimitError('Too many requests', { retryAfterMs: 3600000 });
+    const operation = jest.fn().mockRejectedValue(throttled);
+
+    await expect(withRetry(operation, { ...policy, maxDelayMs: 1000 }, { method: 'GET', endpoint: '/v3/tickets' })).rejects.toBe(throttled);
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not retry permanent failures or when disabled', async () => {
+    const operation = jest.fn().mockRejectedValue(new ValidationError('Bad request', { status: 400 }));
+
+    await expect(withRetry(operation, policy, { method: 'GET', endpoint: '/v3/tickets' })).rejects.toBeInstanceOf(ValidationError);
+    expect(operation).toHaveBeenCalledTimes(1);
+
+    const network = jest.fn().mockRejectedValue(new NetworkError('No response'));
+    await expect(withRetry(network, false, { method: 'GET', endpoint: '/v3/tickets' })).rejects.toBeInstanceOf(NetworkError);
+    expect(network).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('computeRetryDelay', () => {
+  it('should back off exponentially up to the maximum delay', () => {
+    const policy = { baseDelayMs: 100, maxDelayMs: 1000, jitter: false };
+
+    expect(computeRetryDelay(1, policy)).toBe(100);
+    expect(computeRetryDelay(3, policy)).toBe(400);
+    expect(computeRetryDelay(10, policy)).toBe(1000);
+  });
+
+  it('should honor the Retry-After delay of throttled requests', () => {
+    const error = new RateLimitError('Too many requests', { retryAfterMs: 5000 });
+
+    expect(computeRetryDelay(1, { baseDelayMs: 100 }, error)).toBe(5000);
+    expect(computeRetryDelay(1, { baseDelayMs: 100, maxDelayMs: 2000 }, error)).toBe(2000);
+    expect(computeRetryDelay(1, { baseDelayMs: 100, jitter: false, respectRetryAfter: false }, error)).toBe(100);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('should parse delays in seconds and HTTP dates', () => {
+    expect(parseRetryAfter('3')).toBe(3000);
+    expect(parseRetryAfter(new Date(Date.now() + 60000).toUTCString())).toBeGreaterThan(55000);
+    expect(parseRetryAfter(undefined)).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
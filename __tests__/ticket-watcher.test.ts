@@ -0,0 +1,104 @@
+import { InMemorySupportProvider } from '../memory-provider';
+import { TicketChangeEvent, TicketWatchCursor, TicketWatcher, watchTickets } from '../ticket-watcher';
+import { TicketPriority, TicketStatus } from '../types';
+
+describe('TicketWatcher', () => {
+  const createProvider = () => {
+    let time = Date.UTC(2024, 0, 1);
+    return new InMemorySupportProvider({ now: () => new Date(time += 1000) });
+  };
+
+  const createTicket = (provider: InMemorySupportProvider, subject: string) =>
+    provider.createTicket({ subject, description: '', userEmail: 'user@example.com' });
+
+  it('should report created and updated tickets with field diffs after the first poll', async () => {
+    const provider = createProvider();
+    const existing = await createTicket(provider, 'Existing');
+    const watcher = new TicketWatcher(provider);
+    const events: TicketChangeEvent[] = [];
+    watcher.on('*', event => {
+      events.push(event);
+    });
+
+    expect(await watcher.poll()).toEqual([]);
+
+    const created = await createTicket(provider, 'New');
+    await provider.updateTicket({ ticketId: existing.id, status: TicketStatus.PENDING, priority: TicketPriority.HIGH });
+    await watcher.poll();
+
+    expect(events.map(event => [event.type, event.ticket.id])).toEqual([
+      ['ticket.created', created.id],
+      ['ticket.updated', existing.id],
+      ['status.changed', existing.id]
+    ]);
+    expect(events[1]).toMatchObject({
+      changes: [
+        { field: 'status', from: TicketStatus.OPEN, to: TicketStatus.PENDING },
+        { field: 'priority', from: TicketPriority.MEDIUM, to: TicketPriority.HIGH }
+      ]
+    });
+    expect(events[2]).toMatchObject({ from: TicketStatus.OPEN, to: TicketStatus.PENDING });
+    expect(await watcher.poll()).toEqual([]);
+  });
+
+  it('should resume from a saved cursor without repeating or missing changes', async () => {
+    const provider = createProvider();
+    const ticket = await createTicket(provider, 'Login problem');
+    let saved: TicketWatchCursor | undefined;
+    const first = new TicketWatcher(provider, { since: '2023-12-31T00:00:00Z', onCursor: cursor => { saved = cursor; } });
+
+    expect((await first.poll()).map(event => event.type)).toEqual(['ticket.created']);
+
+    await provider.assignTicket(ticket.id, 'agent@example.com');
+    const restarted = new TicketWatcher(provider, { cursor: JSON.parse(JSON.stringify(saved)) });
+    const events = await restarted.poll();
+
+    expect(events).toEqual([
+      expect.objectContaining({
+        type: 'ticket.updated',
+        changes: [{ field: 'assignedTo', from: undefined, to: 'agent@example.com' }]
+      })
+    ]);
+  });
+
+  it('should keep the cursor before a ticket whose listener failed', async () => {
+    const provider = createProvider();
+    const watcher = new TicketWatcher(provider);
+    await watcher.poll();
+
+    await createTicket(provider, 'First');
+    await createTicket(provider, 'Second');
+    const listener = jest.fn()
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new Error('queue unavailable'))
+      .mockResolvedValue(undefined);
+    watcher.on('ticket.created', listener);
+
+    await expect(watcher.poll()).rejects.toThrow('queue unavailable');
+    await watcher.poll();
+
+    expect(listener.mock.calls.map(([event]) => event.ticket.subject)).toEqual(['First', 'Second', 'Second']);
+  });
+
+  it('should poll on an interval until stopped', async () => {
+    const provider = createProvider();
+    const seen: string[] = [];
+    let notify: () => void = () => undefined;
+    const received = new Promise<void>(resolve => {
+      notify = resolve;
+    });
+
+    const watcher = watchTickets(provider, { intervalMs: 5 }, event => {
+      seen.push(event.type);
+      notify();
+    });
+
+    // Let the first poll set the high-water mark before the ticket is created
+    await new Promise(resolve => setTimeout(resolve, 20));
+    await createTicket(provider, 'Urgent');
+    await received;
+    await watcher.stop();
+
+    expect(seen).toEqual(['ticket.created']);
+  });
+});
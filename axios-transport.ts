@@ -0,0 +1,84 @@
+/**
+ * Axios HTTP Transport
+ * Sends support API requests through an axios instance
+ */
+
+import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import {
+  createHttpAgents,
+  HttpProxyConfig,
+  HttpRequestContext,
+  HttpTransport,
+  HttpTransportResponse,
+  serializeParams,
+  toHeaderRecord
+} from './http';
+
+/**
+ * Configuration for the axios transport
+ */
+export interface AxiosTransportConfig {
+  baseUrl?: string;
+  headers?: Record<string, string>; // Default headers sent with every request
+  timeout?: number; // Request timeout in milliseconds (defaults to 30000)
+  keepAlive?: boolean; // Reuse connections in Node.js (defaults to true)
+  proxy?: HttpProxyConfig | false; // Proxy for outgoing requests (false disables environment proxies)
+  instance?: AxiosInstance; // Preconfigured axios instance to use instead of creating one
+}
+
+/**
+ * HttpTransport backed by a dedicated axios instance
+ */
+export class AxiosTransport implements HttpTransport {
+  private http: AxiosInstance;
+
+  /**
+   * Creates a new axios transport
+   * @param config - Configuration for the underlying axios instance
+   */
+  constructor(config: AxiosTransportConfig = {}) {
+    this.http = config.instance || axios.create({
+      baseURL: config.baseUrl,
+      headers: config.headers,
+      timeout: config.timeout ?? 30000,
+      proxy: config.proxy,
+      ...createHttpAgents(config.keepAlive !== false)
+    });
+  }
+
+  /**
+   * Sends a request through axios
+   * @param request - The request to send
+   * @returns The response, whatever its status
+   */
+  async send(request: HttpRequestContext): Promise<HttpTransportResponse> {
+    let response: AxiosResponse;
+
+    try {
+      response = await this.http.request({
+        method: request.method,
+        url: request.url,
+        headers: request.headers,
+        params: request.params,
+        paramsSerializer: (params) => serializeParams(params),
+        data: request.data,
+        // Error statuses are handled by the client, not by axios
+        validateStatus: () => true
+      });
+    } catch (error) {
+      // Interceptors of an injected instance may still reject on error statuses
+      if (axios.isAxiosError(error) && error.response) {
+        response = error.response;
+      } else {
+        throw error;
+      }
+    }
+
+    return {
+      status: response.status,
+      statusText: response.statusText,
+      headers: toHeaderRecord(response.headers),
+      data: response.data
+    };
+  }
+}
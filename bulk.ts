@@ -0,0 +1,130 @@
+/**
+ * Support API Bulk Operations
+ * Applies the same change to many tickets with bounded concurrency
+ */
+
+import { CustomFields, SupportApiInterface, Ticket, TicketPriority, UpdateTicketRequest } from './types';
+
+/**
+ * Outcome of a bulk operation for one ticket
+ */
+export type BulkItemResult<TCustom extends CustomFields = CustomFields> =
+  | { ticketId: string; success: true; ticket: Ticket<TCustom> }
+  | { ticketId: string; success: false; error: Error };
+
+/**
+ * Per-ticket report of a bulk operation, in the order the tickets were given
+ */
+export interface BulkOperationReport<TCustom extends CustomFields = CustomFields> {
+  results: BulkItemResult<TCustom>[];
+  succeeded: number;
+  failed: number;
+}
+
+/**
+ * Options for bulk operations
+ */
+export interface BulkOperationOptions<TCustom extends CustomFields = CustomFields> {
+  concurrency?: number; // Tickets processed at once (defaults to 5)
+  onProgress?: (result: BulkItemResult<TCustom>, completed: number, total: number) => void; // Called as each ticket finishes
+}
+
+/**
+ * Applies several ticket updates
+ * @param api - The provider to update the tickets in
+ * @param requests - The update requests
+ * @param options - Concurrency and progress options
+ * @returns The per-ticket report; failures do not stop the other updates
+ */
+export function bulkUpdateTickets<TCustom extends CustomFields = CustomFields>(
+  api: SupportApiInterface<TCustom>,
+  requests: UpdateTicketRequest<TCustom>[],
+  options: BulkOperationOptions<TCustom> = {}
+): Promise<BulkOperationReport<TCustom>> {
+  return runBulk(requests.map(request => ({ ticketId: request.ticketId, run: () => api.updateTicket(request) })), options);
+}
+
+/**
+ * Closes several tickets
+ * @param api - The provider the tickets belong to
+ * @param ticketIds - The IDs of the tickets
+ * @param options - Concurrency and progress options
+ * @returns The per-ticket report; failures do not stop the other tickets
+ */
+export function bulkCloseTickets<TCustom extends CustomFields = CustomFields>(
+  api: SupportApiInterface<TCustom>,
+  ticketIds: string[],
+  options: BulkOperationOptions<TCustom> = {}
+): Promise<BulkOperationReport<TCustom>> {
+  return runBulk(ticketIds.map(ticketId => ({ ticketId, run: () => api.closeTicket(ticketId) })), options);
+}
+
+/**
+ * Assigns several tickets to the same agent
+ * @param api - The provider the tickets belong to
+ * @param ticketIds - The IDs of the tickets
+ * @param assignTo - The email of the agent to assign the tickets to
+ * @param options - Concurrency and progress options
+ * @returns The per-ticket report; failures do not stop the other tickets
+ */
+export function bulkAssignTickets<TCustom extends CustomFields = CustomFields>(
+  api: SupportApiInterface<TCustom>,
+  ticketIds: string[],
+  assignTo: string,
+  options: BulkOperationOptions<TCustom> = {}
+): Promise<BulkOperationReport<TCustom>> {
+  return runBulk(ticketIds.map(ticketId => ({ ticketId, run: () => api.assignTicket(ticketId, assignTo) })), options);
+}
+
+/**
+ * Sets the priority of several tickets
+ * @param api - The provider the tickets belong to
+ * @param ticketIds - The IDs of the tickets
+ * @param priority - The new priority
+ * @param options - Concurrency and progress options
+ * @returns The per-ticket report; failures do not stop the other tickets
+ */
+export function bulkEscalateTickets<TCustom extends CustomFields = CustomFields>(
+  api: SupportApiInterface<TCustom>,
+  ticketIds: string[],
+  priority: TicketPriority,
+  options: BulkOperationOptions<TCustom> = {}
+): Promise<BulkOperationReport<TCustom>> {
+  return runBulk(ticketIds.map(ticketId => ({ ticketId, run: () => api.escalateTicket(ticketId, priority) })), options);
+}
+
+/**
+ * Runs the operations with at most `concurrency` in flight and collects their outcomes
+ * @param items - The operations, one per ticket
+ * @param options - Concurrency and progress options
+ * @returns The per-ticket report
+ */
+async function runBulk<TCustom extends CustomFields>(
+  items: Array<{ ticketId: string; run: () => Promise<Ticket<TCustom>> }>,
+  options: BulkOperationOptions<TCustom>
+): Promise<BulkOperationReport<TCustom>> {
+  const concurrency = Math.max(1, options.concurrency ?? 5);
+  const results: BulkItemResult<TCustom>[] = new Array(items.length);
+  let next = 0;
+  let completed = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      const { ticketId, run } = items[index];
+
+      try {
+        results[index] = { ticketId, success: true, ticket: await run() };
+      } catch (error) {
+        results[index] = { ticketId, success: false, error: error instanceof Error ? error : new Error(String(error)) };
+      }
+
+      options.onProgress?.(results[index], ++completed, items.length);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+
+  const succeeded = results.filter(result => result.success).length;
+  return { results, succeeded, failed: results.length - succeeded };
+}
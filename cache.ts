@@ -0,0 +1,446 @@
+/**
+ * Support API Cache
+ * Optional response cache for any SupportApiInterface implementation
+ */
+
+import {
+  CreateTicketRequest,
+  CustomFields,
+  ListAllTicketsOptions,
+  PaginatedTicketsResponse,
+  SupportApiInterface,
+  Ticket,
+  TicketDetails,
+  TicketFilterOptions,
+  TicketMessage,
+  TicketPriority,
+  TicketResponseRequest,
+  UpdateTicketRequest
+} from './types';
+import { Logger, silentLogger } from './logger';
+
+/**
+ * Storage for cached responses
+ * Values are strings and TTLs are in milliseconds, so that a Redis client can back it directly
+ */
+export interface CacheStore {
+  get(key: string): Promise<string | null | undefined>;
+  set(key: string, value: string, ttlMs: number): Promise<void>;
+  delete(keys: string[]): Promise<void>;
+}
+
+/**
+ * The subset of a Redis client (e.g. ioredis) used by the Redis cache store
+ */
+export interface RedisLikeClient {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, mode: 'PX', ttlMs: number): Promise<unknown>;
+  del(...keys: string[]): Promise<unknown>;
+}
+
+/**
+ * Cached methods and how long their responses are kept, in milliseconds (0 disables caching)
+ */
+export interface CacheTtls {
+  getTicketDetails?: number; // Defaults to 30000
+  getTicketConversations?: number; // Defaults to 30000
+  listUserTickets?: number; // Defaults to 15000
+  listAssignedTickets?: number; // Defaults to 15000
+  searchTickets?: number; // Defaults to 15000
+}
+
+/**
+ * Options for the response cache
+ */
+export interface CachedSupportApiOptions {
+  store?: CacheStore; // Where responses are kept (defaults to an in-memory LRU store)
+  ttl?: CacheTtls; // Per-method TTLs
+  keyPrefix?: string; // Prefix for every key, to share a store between tenants (defaults to 'support-api:')
+  logger?: Logger; // Destination for log output (silent by default)
+}
+
+const DEFAULT_TTLS: Required<CacheTtls> = {
+  getTicketDetails: 30000,
+  getTicketConversations: 30000,
+  listUserTickets: 15000,
+  listAssignedTickets: 15000,
+  searchTickets: 15000
+};
+
+// Versions outlive every cached entry; a missing version is simply replaced
+const VERSION_TTL_MS = 24 * 60 * 60 * 1000;
+
+const LISTS_SCOPE = 'lists';
+
+// Key of the object that stands for a Date in stored values
+const DATE_TAG = '$date';
+
+/**
+ * In-memory cache store that evicts the least recently used entries
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, { value: string; expiresAt: number }>();
+  private maxEntries: number;
+  private now: () => number;
+
+  /**
+   * Creates a new in-memory store
+   * @param options - The maximum number of entries (defaults to 1000) and the clock
+   */
+  constructor(options: { maxEntries?: number; now?: () => number } = {}) {
+    this.maxEntries = options.maxEntries ?? 1000;
+    this.now = options.now || Date.now;
+  }
+
+  async get(key: string): Promise<string | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    if (entry.expiresAt <= this.now()) {
+      return undefined;
+    }
+
+    // Re-insert so that the map stays ordered from least to most recently used
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: this.now() + ttlMs });
+
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    keys.forEach(key => this.entries.delete(key));
+  }
+}
+
+/**
+ * Creates a cache store backed by a Redis client
+ * @param client - A Redis client with ioredis-style `get`, `set` and `del`
+ * @returns The cache store
+ */
+export function createRedisCacheStore(client: RedisLikeClient): CacheStore {
+  return {
+    async get(key) {
+      return client.get(key);
+    },
+    async set(key, value, ttlMs) {
+      await client.set(key, value, 'PX', Math.max(1, Math.round(ttlMs)));
+    },
+    async delete(keys) {
+      if (keys.length > 0) {
+        await client.del(...keys);
+      }
+    }
+  };
+}
+
+/**
+ * SupportApiInterface implementation that caches the responses of another one
+ * Dates (e.g. typed custom field values) are stored tagged, so cached responses read back with the same types
+ *
+ * Entries live in scopes: one per ticket (details and conversation) and one for every listing.
+ * Each scope's keys include a version, so a mutation invalidates a whole scope by deleting its
+ * version. Responses fetched while a mutation was in flight are written under the old version
+ * and never served.
+ */
+export class CachedSupportApi<TCustom extends CustomFields = CustomFields> implements SupportApiInterface<TCustom> {
+  private api: SupportApiInterface<TCustom>;
+  private store: CacheStore;
+  private ttl: Required<CacheTtls>;
+  private keyPrefix: string;
+  private logger: Logger;
+  private versionCounter = 0;
+
+  /**
+   * Creates a new cache in front of a provider
+   * @param api - The provider to cache
+   * @param options - Cache options
+   */
+  constructor(api: SupportApiInterface<TCustom>, options: CachedSupportApiOptions = {}) {
+    this.api = api;
+    this.store = options.store || new MemoryCacheStore();
+    this.ttl = { ...DEFAULT_TTLS, ...options.ttl };
+    this.keyPrefix = options.keyPrefix ?? 'support-api:';
+    this.logger = options.logger || silentLogger;
+  }
+
+  /**
+   * Creates a ticket and invalidates the cached listings
+   * @param request - The ticket creation request
+   * @returns The created ticket
+   */
+  async createTicket(request: CreateTicketRequest<TCustom>): Promise<Ticket<TCustom>> {
+    const ticket = await this.api.createTicket(request);
+    await this.invalidateScopes([LISTS_SCOPE]);
+    return ticket;
+  }
+
+  /**
+   * Lists a user's tickets, from the cache when possible
+   * @param userEmail - The email of the user
+   * @param options - Filter options
+   * @returns Paginated list of tickets
+   */
+  async listUserTickets(userEmail: string, options?: TicketFilterOptions): Promise<PaginatedTicketsResponse<TCustom>> {
+    return this.cached(LISTS_SCOPE, 'listUserTickets', [userEmail, options], () => this.api.listUserTickets(userEmail, options));
+  }
+
+  /**
+   * Lists tickets assigned to an agent, from the cache when possible
+   * @param adminEmail - The email of the agent
+   * @param options - Filter options
+   * @returns Paginated list of tickets
+   */
+  async listAssignedTickets(adminEmail: string, options?: TicketFilterOptions): Promise<PaginatedTicketsResponse<TCustom>> {
+    return this.cached(LISTS_SCOPE, 'listAssignedTickets', [adminEmail, options], () => this.api.listAssignedTickets(adminEmail, options));
+  }
+
+  /**
+   * Searches tickets, from the cache when possible
+   * @param options - Filter options
+   * @returns Paginated list of tickets
+   */
+  async searchTickets(options: TicketFilterOptions): Promise<PaginatedTicketsResponse<TCustom>> {
+    return this.cached(LISTS_SCOPE, 'searchTickets', [options], () => this.api.searchTickets(options));
+  }
+
+  /**
+   * Iterates over the matching tickets; not cached
+   * @param options - Filter options
+   * @returns An async iterator over the matching tickets
+   */
+  iterateTickets(options?: TicketFilterOptions): AsyncIterable<Ticket<TCustom>> {
+    return this.api.iterateTickets(options);
+  }
+
+  /**
+   * Collects every matching ticket; not cached
+   * @param options - Filter options
+   * @param limits - Limits for the collection (e.g. the maximum number of tickets)
+   * @returns The matching tickets
+   */
+  async listAllTickets(options?: TicketFilterOptions, limits?: ListAllTicketsOptions): Promise<Ticket<TCustom>[]> {
+    return this.api.listAllTickets(options, limits);
+  }
+
+  /**
+   * Gets the details of a ticket, from the cache when possible
+   * @param ticketId - The ID of the ticket
+   * @returns The ticket details including conversation
+   */
+  async getTicketDetails(ticketId: string): Promise<TicketDetails<TCustom>> {
+    return this.cached(ticketScope(ticketId), 'getTicketDetails', [ticketId], () => this.api.getTicketDetails(ticketId));
+  }
+
+  /**
+   * Gets the conversation of a ticket, from the cache when possible
+   * @param ticketId - The ID of the ticket
+   * @returns The list of messages for the ticket
+   */
+  async getTicketConversations(ticketId: string): Promise<TicketMessage[]> {
+    return this.cached(ticketScope(ticketId), 'getTicketConversations', [ticketId], () => this.api.getTicketConversations(ticketId));
+  }
+
+  /**
+   * Responds to a ticket and invalidates it and the cached listings
+   * @param request - The response request
+   * @returns The created ticket message
+   */
+  async respondToTicket(request: TicketResponseRequest): Promise<TicketMessage> {
+    return this.mutate(request.ticketId, () => this.api.respondToTicket(request));
+  }
+
+  /**
+   * Closes a ticket and invalidates it and the cached listings
+   * @param ticketId - The ID of the ticket
+   * @returns The updated ticket
+   */
+  async closeTicket(ticketId: string): Promise<Ticket<TCustom>> {
+    return this.mutate(ticketId, () => this.api.closeTicket(ticketId));
+  }
+
+  /**
+   * Reopens a ticket and invalidates it and the cached listings
+   * @param ticketId - The ID of the ticket
+   * @returns The updated ticket
+   */
+  async reopenTicket(ticketId: string): Promise<Ticket<TCustom>> {
+    return this.mutate(ticketId, () => this.api.reopenTicket(ticketId));
+  }
+
+  /**
+   * Assigns a ticket and invalidates it and the cached listings
+   * @param ticketId - The ID of the ticket
+   * @param assignTo - The email of the agent to assign the ticket to
+   * @returns The updated ticket
+   */
+  async assignTicket(ticketId: string, assignTo: string): Promise<Ticket<TCustom>> {
+    return this.mutate(ticketId, () => this.api.assignTicket(ticketId, assignTo));
+  }
+
+  /**
+   * Escalates a ticket and invalidates it and the cached listings
+   * @param ticketId - The ID of the ticket
+   * @param priority - The new priority
+   * @returns The updated ticket
+   */
+  async escalateTicket(ticketId: string, priority: TicketPriority): Promise<Ticket<TCustom>> {
+    return this.mutate(ticketId, () => this.api.escalateTicket(ticketId, priority));
+  }
+
+  /**
+   * Updates a ticket and invalidates it and the cached listings
+   * @param request - The update request
+   * @returns The updated ticket
+   */
+  async updateTicket(request: UpdateTicketRequest<TCustom>): Promise<Ticket<TCustom>> {
+    return this.mutate(request.ticketId, () => this.api.updateTicket(request));
+  }
+
+  /**
+   * Drops the cached entries of a ticket and every cached listing
+   * Use it when a ticket changes outside this client (e.g. from a webhook)
+   * @param ticketId - The ID of the ticket
+   */
+  async invalidateTicket(ticketId: string): Promise<void> {
+    await this.invalidateScopes([ticketScope(ticketId), LISTS_SCOPE]);
+  }
+
+  /**
+   * Drops every cached listing
+   */
+  async invalidateLists(): Promise<void> {
+    await this.invalidateScopes([LISTS_SCOPE]);
+  }
+
+  /**
+   * Runs a mutation and invalidates the ticket and the listings, even if the mutation failed
+   * A failed request may still have changed the ticket (e.g. a timeout after the provider applied it)
+   * @private
+   */
+  private async mutate<T>(ticketId: string, operation: () => Promise<T>): Promise<T> {
+    try {
+      return await operation();
+    } finally {
+      await this.invalidateTicket(ticketId);
+    }
+  }
+
+  /**
+   * Returns a cached response, or fetches and caches it
+   * Store failures are logged and fall through to the provider
+   * @param scope - The scope the entry belongs to
+   * @param method - The cached method, which selects the TTL
+   * @param args - The method arguments, part of the key
+   * @param fetch - Fetches the response from the provider
+   * @private
+   */
+  private async cached<T>(scope: string, method: keyof CacheTtls, args: unknown[], fetch: () => Promise<T>): Promise<T> {
+    const ttlMs = this.ttl[method];
+    if (!ttlMs) {
+      return fetch();
+    }
+
+    let key: string | undefined;
+    try {
+      key = `${this.keyPrefix}${scope}@${await this.getVersion(scope)}:${method}:${stableStringify(args)}`;
+      const hit = await this.store.get(key);
+      if (hit !== null && hit !== undefined) {
+        this.logger.debug('Support API cache hit', { method, key });
+        return JSON.parse(hit, reviveDates) as T;
+      }
+    } catch (error) {
+      this.logger.warn('Support API cache read failed', { method, error: (error as Error).message });
+    }
+
+    const value = await fetch();
+
+    if (key) {
+      try {
+        await this.store.set(key, JSON.stringify(value, encodeDates), ttlMs);
+      } catch (error) {
+        this.logger.warn('Support API cache write failed', { method, error: (error as Error).message });
+      }
+    }
+
+    return value;
+  }
+
+  /**
+   * Returns the current version of a scope, starting a new one if there is none
+   * @private
+   */
+  private async getVersion(scope: string): Promise<string> {
+    const versionKey = `${this.keyPrefix}${scope}:version`;
+    const existing = await this.store.get(versionKey);
+    if (existing) {
+      return existing;
+    }
+
+    const version = `${Date.now().toString(36)}.${(this.versionCounter++).toString(36)}.${Math.random().toString(36).slice(2, 8)}`;
+    await this.store.set(versionKey, version, VERSION_TTL_MS);
+    return version;
+  }
+
+  /**
+   * Deletes the versions of scopes, so that their entries are no longer read
+   * @private
+   */
+  private async invalidateScopes(scopes: string[]): Promise<void> {
+    try {
+      await this.store.delete(scopes.map(scope => `${this.keyPrefix}${scope}:version`));
+    } catch (error) {
+      this.logger.error('Support API cache invalidation failed', { scopes, error: (error as Error).message });
+    }
+  }
+}
+
+/**
+ * Returns the cache scope of a ticket
+ */
+function ticketScope(ticketId: string): string {
+  return `ticket:${ticketId}`;
+}
+
+/**
+ * Serializes a value to JSON with object keys sorted, so that equal arguments give equal keys
+ */
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, nested) => {
+    if (nested && typeof nested === 'object' && !Array.isArray(nested)) {
+      return Object.keys(nested).sort().reduce<Record<string, unknown>>((sorted, key) => {
+        sorted[key] = nested[key];
+        return sorted;
+      }, {});
+    }
+    return nested;
+  }) ?? 'undefined';
+}
+
+/**
+ * Replaces dates with a tagged form before serialization, as toJSON would turn them into plain strings
+ */
+function encodeDates(this: any, key: string, value: unknown): unknown {
+  const raw = this[key];
+  return raw instanceof Date ? { [DATE_TAG]: isNaN(raw.getTime()) ? null : raw.toISOString() } : value;
+}
+
+/**
+ * Turns tagged dates back into Date objects
+ */
+function reviveDates(_key: string, value: any): unknown {
+  if (value && typeof value === 'object' && DATE_TAG in value && Object.keys(value).length === 1) {
+    return new Date(value[DATE_TAG] ?? NaN);
+  }
+  return value;
+}
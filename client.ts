@@ -3,10 +3,10 @@
  * Implements the SupportApiInterface for Desk365
  */
 
-import axios, { AxiosError, AxiosRequestConfig, AxiosResponse } from 'axios';
-import qs from 'qs';
 import {
   CreateTicketRequest,
+  CustomFields,
+  ListAllTicketsOptions,
   PaginatedTicketsResponse,
   SupportApiInterface,
   Ticket,
@@ -19,24 +19,150 @@ import {
   TicketStatus,
   TicketAttachment
 } from './types';
+import {
+  AuthenticationError,
+  CustomFieldValidationError,
+  MethodNotSupportedError,
+  NetworkError,
+  ResponseValidationError,
+  ResponseValidationIssue,
+  SupportApiError,
+  UnmappedValueError
+} from './errors';
+import { RequestCoalescer, RequestCoalescerStats } from './request-coalescer';
+import { HttpRequestContext, serializeParams } from './http';
+import { HttpApiClient, HttpApiClientConfig, HttpApiErrorBody } from './http-client';
+import { collectTickets } from './pagination';
+import {
+  CustomFieldCodec,
+  CustomFieldDefinition,
+  CustomFieldOptions,
+  CustomFieldType,
+  decodeCustomFields,
+  encodeCustomFields,
+  validateCustomFields
+} from './custom-fields';
+import {
+  Desk365RawConversation,
+  Desk365RawConversationList,
+  Desk365RawCustomField,
+  Desk365RawCustomFieldList,
+  Desk365RawReply,
+  Desk365RawTicket,
+  Desk365RawTicketAttachment,
+  Desk365RawTicketList,
+  isStructuralIssue,
+  removeMalformedParts,
+  validateDesk365Conversation,
+  validateDesk365ConversationList,
+  validateDesk365CustomFieldList,
+  validateDesk365Reply,
+  validateDesk365Ticket,
+  validateDesk365TicketList
+} from './desk365-schemas';
+
+/**
+ * Status and priority mapping between Desk365 and the generic ticket model
+ * The tables are merged over the defaults (open/closed/pending/resolved and priorities 1/5/10/20)
+ */
+export interface Desk365MappingConfig {
+  statuses?: Record<string, TicketStatus>; // Desk365 status → TicketStatus, case-insensitive (e.g. { 'on hold': TicketStatus.PENDING })
+  priorities?: Record<string, TicketPriority>; // Desk365 priority value → TicketPriority (e.g. { '15': TicketPriority.HIGH })
+  outgoingStatuses?: Partial<Record<TicketStatus, string>>; // TicketStatus → Desk365 status sent in updates and filters
+  outgoingPriorities?: Partial<Record<TicketPriority, number>>; // TicketPriority → Desk365 priority sent in updates and filters
+  unmapped?: 'throw' | 'default' | 'passthrough'; // Handling of values missing from the tables (defaults to 'default')
+  defaultStatus?: TicketStatus; // Status used for unmapped values with 'default' (defaults to OPEN)
+  defaultPriority?: TicketPriority; // Priority used for unmapped values with 'default' (defaults to MEDIUM)
+}
+
+/**
+ * Fields sent with every new Desk365 ticket unless the request sets them
+ */
+export interface Desk365TicketDefaults {
+  type?: string; // Ticket type (e.g. 'Question')
+  group?: string; // Group the ticket is routed to
+  category?: string; // Category
+  subCategory?: string; // Sub-category
+  source?: string; // Desk365 source code (e.g. '6' for the support portal)
+  tags?: string[]; // Tags
+}
 
 /**
  * Configuration for the Desk365 API client
  */
-export interface Desk365ClientConfig {
+export interface Desk365ClientConfig extends HttpApiClientConfig {
   baseUrl: string;
   apiKey: string;
-  verbose?: boolean; // Option to control logging verbosity
+  coalesceRequests?: boolean; // Share one HTTP request between concurrent identical GETs (defaults to true)
+  validation?: 'strict' | 'lenient'; // Throw on responses that do not match the schema, or report them (defaults to 'lenient')
+  onValidationIssues?: (issues: ResponseValidationIssue[], context: { endpoint: string }) => void; // Receives schema mismatches in lenient mode (logged as warnings if omitted)
+  mapping?: Desk365MappingConfig; // Status and priority tables and the policy for unmapped values
+  ticketDefaults?: Desk365TicketDefaults; // Type, group, category, sub-category, source and tags of new tickets (defaults to the previous 'Question', 'Development', 'allumni', 'General'; pass {} to send none)
+  customFieldTypes?: Record<string, CustomFieldType>; // Custom field types by name, for converting values (untyped fields are passed through)
+  customFieldCodec?: CustomFieldCodec; // Translates custom field names (e.g. prefixCustomFieldCodec('cf_'))
+  validateCustomFields?: boolean; // Check customFields against getCustomFieldDefinitions() before sending (defaults to true)
+  customFieldDefinitionsTtl?: number; // How long custom field definitions are cached per tenant, in milliseconds (defaults to 300000)
 }
 
+const DEFAULT_STATUS_MAP: Record<string, TicketStatus> = {
+  'open': TicketStatus.OPEN,
+  'closed': TicketStatus.CLOSED,
+  'pending': TicketStatus.PENDING,
+  'resolved': TicketStatus.RESOLVED
+};
+
+// For "Priority": Low=1, Medium=5, High=10, Urgent=20
+const DEFAULT_PRIORITY_MAP: Record<string, TicketPriority> = {
+  '1': TicketPriority.LOW,
+  '5': TicketPriority.MEDIUM,
+  '10': TicketPriority.HIGH,
+  '20': TicketPriority.URGENT
+};
+
+const DEFAULT_OUTGOING_STATUS_MAP: Record<string, string> = {
+  [TicketStatus.OPEN]: 'open',
+  [TicketStatus.CLOSED]: 'closed',
+  [TicketStatus.PENDING]: 'pending',
+  [TicketStatus.RESOLVED]: 'resolved'
+};
+
+const DEFAULT_OUTGOING_PRIORITY_MAP: Record<string, number> = {
+  [TicketPriority.LOW]: 1,
+  [TicketPriority.MEDIUM]: 5,
+  [TicketPriority.HIGH]: 10,
+  [TicketPriority.URGENT]: 20
+};
+
+// Routing sent by earlier versions on every create; used until ticketDefaults is set
+const LEGACY_TICKET_DEFAULTS: Desk365TicketDefaults = {
+  type: 'Question',
+  group: 'Development',
+  category: 'allumni',
+  subCategory: 'General'
+};
+
 /**
  * Desk365 API Client implementation
  * Handles communication with the Desk365 API
  */
-export class Desk365Client implements SupportApiInterface {
-  private baseUrl: string;
-  private headers: Record<string, string>;
-  private verbose: boolean;
+export class Desk365Client<TCustom extends CustomFields = CustomFields> extends HttpApiClient implements SupportApiInterface<TCustom> {
+  // Raw custom field definitions by tenant (base URL), shared by every client of the tenant
+  private static customFieldDefinitions = new Map<string, { expiresAt: number; definitions: Promise<Desk365RawCustomField[]> }>();
+
+  private coalescer: RequestCoalescer | null;
+  private validation: 'strict' | 'lenient';
+  private onValidationIssues?: (issues: ResponseValidationIssue[], context: { endpoint: string }) => void;
+  private statusMap: Record<string, TicketStatus>;
+  private priorityMap: Record<string, TicketPriority>;
+  private outgoingStatusMap: Record<string, string>;
+  private outgoingPriorityMap: Record<string, number>;
+  private unmappedPolicy: 'throw' | 'default' | 'passthrough';
+  private defaultStatus: TicketStatus;
+  private defaultPriority: TicketPriority;
+  private ticketDefaults: Desk365TicketDefaults;
+  private customFieldOptions: CustomFieldOptions;
+  private validateCustomFields: boolean;
+  private customFieldDefinitionsTtl: number;
   private subdomain: string;
 
   /**
@@ -44,12 +170,29 @@ export class Desk365Client implements SupportApiInterface {
    * @param config - Configuration for the client
    */
   constructor(config: Desk365ClientConfig) {
-    this.baseUrl = config.baseUrl;
-    this.headers = {
-      'Content-Type': 'application/json',
-      'Authorization': config.apiKey
-    };
-    this.verbose = config.verbose || false;
+    super(config, {
+      provider: 'desk365',
+      label: 'Desk365',
+      baseUrl: config.baseUrl,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': config.apiKey
+      }
+    });
+    this.coalescer = config.coalesceRequests === false ? null : new RequestCoalescer();
+    this.validation = config.validation ?? 'lenient';
+    this.onValidationIssues = config.onValidationIssues;
+    this.statusMap = normalizeKeys({ ...DEFAULT_STATUS_MAP, ...config.mapping?.statuses });
+    this.priorityMap = normalizeKeys({ ...DEFAULT_PRIORITY_MAP, ...config.mapping?.priorities });
+    this.outgoingStatusMap = { ...DEFAULT_OUTGOING_STATUS_MAP, ...config.mapping?.outgoingStatuses };
+    this.outgoingPriorityMap = { ...DEFAULT_OUTGOING_PRIORITY_MAP, ...config.mapping?.outgoingPriorities };
+    this.unmappedPolicy = config.mapping?.unmapped ?? 'default';
+    this.defaultStatus = config.mapping?.defaultStatus ?? TicketStatus.OPEN;
+    this.defaultPriority = config.mapping?.defaultPriority ?? TicketPriority.MEDIUM;
+    this.ticketDefaults = config.ticketDefaults ?? LEGACY_TICKET_DEFAULTS;
+    this.customFieldOptions = { types: config.customFieldTypes, codec: config.customFieldCodec };
+    this.validateCustomFields = config.validateCustomFields ?? true;
+    this.customFieldDefinitionsTtl = config.customFieldDefinitionsTtl ?? 300000;
     
     // Extract subdomain from baseUrl for error messages
     try {
@@ -76,16 +219,12 @@ export class Desk365Client implements SupportApiInterface {
     } catch (error) {
       let message = 'Failed to validate Desk365 API configuration';
       
-      if (axios.isAxiosError(error)) {
-        const axiosError = error as AxiosError;
-        
-        if (axiosError.response?.status === 403) {
-          message = `Authentication failed: API key may not be valid for subdomain '${this.subdomain}'. Desk365 API keys are tied to specific subdomains.`;
-        } else if (axiosError.response) {
-          message = `API error: ${axiosError.response.status} ${axiosError.response.statusText}`;
-        } else if (axiosError.code === 'ENOTFOUND') {
-          message = `Could not connect to Desk365 API: The subdomain '${this.subdomain}' may not exist or is not reachable.`;
-        }
+      if (error instanceof AuthenticationError) {
+        message = `Authentication failed: API key may not be valid for subdomain '${this.subdomain}'. Desk365 API keys are tied to specific subdomains.`;
+      } else if (error instanceof NetworkError && error.code === 'ENOTFOUND') {
+        message = `Could not connect to Desk365 API: The subdomain '${this.subdomain}' may not exist or is not reachable.`;
+      } else if (error instanceof SupportApiError && error.status) {
+        message = `API error: ${error.status} (${error.message})`;
       }
       
       return { success: false, message };
@@ -101,12 +240,12 @@ export class Desk365Client implements SupportApiInterface {
       // Try to validate configuration first
       const validation = await this.validateConfig();
       if (!validation.success) {
-        throw new Error(validation.message);
+        throw new SupportApiError(validation.message, { provider: 'desk365', endpoint: '/v3/tickets', method: 'GET' });
       }
       
       return `Connected to Desk365 API at ${this.baseUrl}`;
     } catch (error) {
-      console.error('Failed to ping Desk365 API:', error);
+      this.logger.error('Failed to ping Desk365 API', { error: (error as Error).message });
       throw error;
     }
   }
@@ -116,31 +255,24 @@ export class Desk365Client implements SupportApiInterface {
    * @returns A success message if the ping is successful
    */
   async directPing(): Promise<string> {
-    try {
-      // Use the exact ping endpoint from the curl example
-      const response = await axios({
-        method: 'GET',
-        url: `${this.baseUrl}/v3/ping`,
-        headers: this.headers
-      });
-      
-      console.log('Ping response status:', response.status);
-      if (this.verbose) {
-        console.log('Ping response data:', response.data);
-      }
-      
-      return `Successfully pinged Desk365 API at ${this.baseUrl}/v3/ping`;
-    } catch (error) {
-      if (axios.isAxiosError(error) && error.response) {
-        console.error(`Ping error: HTTP ${error.response.status} ${error.response.statusText}`);
-        if (this.verbose && error.response.data) {
-          console.error('Response data:', error.response.data);
-        }
-      } else {
-        console.error('Ping error:', error instanceof Error ? error.message : String(error));
-      }
-      throw error;
-    }
+    // Use the exact ping endpoint from the curl example
+    const data = await this.send('/v3/ping', {
+      method: 'GET',
+      url: `${this.baseUrl}/v3/ping`,
+      headers: { ...this.headers }
+    });
+    
+    this.logger.debug('Ping response', { data });
+    
+    return `Successfully pinged Desk365 API at ${this.baseUrl}/v3/ping`;
+  }
+
+  /**
+   * Returns how many GET calls shared an identical request already in flight
+   * @returns A snapshot of the coalescing counters (all zero when coalescing is disabled)
+   */
+  getCoalescingStats(): RequestCoalescerStats {
+    return this.coalescer ? this.coalescer.getStats() : { calls: 0, coalesced: 0, inFlight: 0 };
   }
 
   /**
@@ -149,6 +281,8 @@ export class Desk365Client implements SupportApiInterface {
    * @param method - HTTP method
    * @param data - Request data
    * @param params - Query parameters
+   * @param retrySafe - Whether a non-idempotent request may be retried
+   * @param isExpected - Recognizes failures the caller handles, which are not logged as errors
    * @returns Response data
    * @private
    */
@@ -156,7 +290,9 @@ export class Desk365Client implements SupportApiInterface {
     endpoint: string,
     method: string = 'GET',
     data?: any,
-    params?: Record<string, any>
+    params?: Record<string, any>,
+    retrySafe: boolean = false,
+    isExpected?: (error: SupportApiError) => boolean
   ): Promise<T> {
     // Ensure endpoint starts with /v3/
     if (!endpoint.startsWith('/v3/')) {
@@ -171,95 +307,80 @@ export class Desk365Client implements SupportApiInterface {
     }
 
     // Prepare request options
-    const config: AxiosRequestConfig = {
+    const request: HttpRequestContext = {
       method,
       url,
-      headers: this.headers,
-      params: safeParams,
-      paramsSerializer: (params) => qs.stringify(params, { arrayFormat: 'brackets' })
+      headers: { ...this.headers },
+      params: safeParams
     };
 
     // Add data for non-GET requests
     if (data && method !== 'GET') {
-      config.data = data;
+      request.data = data;
     }
 
-    // Minimized logging for non-verbose mode
-    if (!this.verbose) {
-      console.log(`📤 ${method} ${endpoint}`);
-    } else {
-      console.log(`📤 Making ${method} request to ${endpoint}`);
-      console.log('Request parameters:', params);
-      if (data) console.log('Request data:', JSON.stringify(data, null, 2));
+    this.logger.debug('Desk365 request', { method, endpoint, params, data });
+
+    if (method === 'GET' && this.coalescer) {
+      // Concurrent identical reads share the HTTP request and its retries; hooks run once for all of them
+      const key = `${url}?${serializeParams(safeParams)}`;
+      return this.coalescer.run(key, () => this.send<T>(endpoint, request, retrySafe, isExpected));
     }
 
-    try {
-      axios.interceptors.request.use((request) => {
-        const fullUrl = `${request.baseURL || ''}${request.url}`;
-        const serializedParams = request.paramsSerializer && typeof request.paramsSerializer === 'function'
-          ? request.paramsSerializer(request.params)
-          : qs.stringify(request.params || {}, { arrayFormat: 'brackets' });
-      
-        console.log('Final Request URL:', `${fullUrl}${serializedParams ? `?${serializedParams}` : ''}`);
-        return request;
-      });
+    return this.send<T>(endpoint, request, retrySafe, isExpected);
+  }
 
-      const response: AxiosResponse<T> = await axios(config);
-      
-      if (!this.verbose) {
-        console.log(`📥 Response: ${response.status} ${response.statusText}`);
-      } else {
-        console.log(`📥 Response status: ${response.status}`);
-      }
-      
-      return response.data;
-    } catch (error: unknown) {
-      if (axios.isAxiosError(error)) {
-        const axiosError = error as AxiosError;
-        
-        // Concise error logging for non-verbose mode
-        if (!this.verbose) {
-          console.error(`📛 Error: ${axiosError.response?.status} ${axiosError.response?.statusText}`);
-          if (axiosError.response?.data) {
-            console.error('Response:', typeof axiosError.response.data === 'object' ? 
-              JSON.stringify(axiosError.response.data) : 
-              axiosError.response.data);
-          }
-        } else {
-          console.error('📛 Request error details:', {
-            url: config.url,
-            method: config.method,
-            headers: config.headers,
-            params: config.params,
-            data: config.data
-          });
-          
-          if (axiosError.response) {
-            console.error('📛 Response error details:', {
-              status: axiosError.response.status,
-              statusText: axiosError.response.statusText,
-              data: axiosError.response.data,
-            });
-
-            if (axiosError.response.data && typeof axiosError.response.data === 'object' && 'errors' in axiosError.response.data) {
-              console.error('📛 Response error details:', {
-                errors: axiosError.response.data.errors
-              });
-            }
-          }
-        }
-        
-        if (axiosError.response) {
-          const errorData = axiosError.response.data as { message?: string, error?: string } || { message: 'Unknown error' };
-          throw new Error(`Desk365 API Error: ${errorData.message || errorData.error || axiosError.response.statusText}`);
-        } else if (axiosError.request) {
-          console.error('📛 No response received', axiosError.request);
-          throw new Error('Desk365 API Error: No response received from server');
-        }
-      }
-      console.error('Desk365 API Error:', error);
-      throw error;
+  /**
+   * Reads a Desk365 error body
+   * Desk365 reports errors as { message, errors } or { error }
+   * @param data - The error response body
+   * @returns The error details
+   * @protected
+   */
+  protected parseErrorBody(data: Record<string, any>): HttpApiErrorBody {
+    const errorData: { message?: string; error?: string; errors?: unknown } = data;
+
+    return { message: errorData.message || errorData.error, errors: errorData.errors };
+  }
+
+  /**
+   * Checks a Desk365 response against its schema
+   * Strict mode throws on any mismatch. Lenient mode reports mismatches and returns the data as received,
+   * except that list items that are not objects are skipped and mistyped optional objects and lists are left out;
+   * it throws only when the envelope itself (the root or its required list) is unusable
+   * @param data - The response data
+   * @param validate - The schema check for the response
+   * @param endpoint - Endpoint that returned the response (or 'webhook')
+   * @returns The response data, typed as the raw schema
+   * @throws ResponseValidationError if the response does not match the schema
+   * @private
+   */
+  private parse<T>(data: unknown, validate: (value: unknown) => ResponseValidationIssue[], endpoint: string): T {
+    const issues = validate(data);
+    if (issues.length === 0) {
+      return data as T;
+    }
+
+    let result = data;
+    if (this.validation === 'lenient' && issues.some(isStructuralIssue)) {
+      result = removeMalformedParts(data, issues);
+    }
+
+    if (this.validation === 'strict' || validate(result).some(isStructuralIssue)) {
+      const paths = issues.map(issue => `${issue.path} (expected ${issue.expected}, received ${issue.received})`);
+      throw new ResponseValidationError(
+        `Desk365 response from ${endpoint} does not match the expected schema: ${paths.join(', ')}`,
+        issues,
+        { provider: 'desk365', endpoint }
+      );
     }
+
+    if (this.onValidationIssues) {
+      this.onValidationIssues(issues, { endpoint });
+    } else {
+      this.logger.warn('Desk365 response does not match the expected schema', { endpoint, issues });
+    }
+    return result as T;
   }
 
   /**
@@ -267,21 +388,19 @@ export class Desk365Client implements SupportApiInterface {
    * @param request - The ticket creation request
    * @returns The created ticket
    */
-  async createTicket(request: CreateTicketRequest): Promise<Ticket> {
-    const url = `${this.baseUrl}/v3/tickets/create_with_attachment`;
+  async createTicket(request: CreateTicketRequest<TCustom>): Promise<Ticket<TCustom>> {
+    // Required custom fields are checked even when the request sets none
+    await this.checkCustomFields(request.customFields ?? {}, false);
 
     // Build the ticket object as per the API
     const ticketObject: any = {
       email: request.userEmail,
       subject: request.subject,
       description: request.description,
-      status: 'open',
+      status: this.mapStatusToDesk365Status(TicketStatus.OPEN),
       priority: this.mapPriorityToDesk365Priority(request.priority) || 5,
-      type: 'Question',
-      group: 'Development',
-      category: 'allumni',
-      sub_category: 'General',
-      custom_fields: request.customFields || {},
+      ...this.buildCreationFields(request),
+      custom_fields: encodeCustomFields(request.customFields || {}, this.customFieldOptions),
     };
 
     // Create FormData for multipart/form-data
@@ -295,62 +414,29 @@ export class Desk365Client implements SupportApiInterface {
       }
     }
 
-    if (this.verbose) {
-      console.log('Making POST request to /v3/tickets/create_with_attachment');
-      console.log('FormData contains:', {
-        ticket_object: ticketObject,
-        files: request.attachments?.map(f => (typeof f === 'string' ? f : f.name))
-      });
-    } else {
-      console.log(`📤 POST /v3/tickets/create_with_attachment (${request.attachments?.length || 0} file(s))`);
-    }
-
-    try {
-      // Use axios directly for this request due to FormData handling
-      const response = await axios.post(url, formData, {
-        headers: {
-          ...this.headers,
-          'Content-Type': 'multipart/form-data'
-        }
-      });
-
-      if (this.verbose) {
-        console.log(`📥 Response status: ${response.status}`);
-        console.log('Response data:', response.data);
-      } else {
-        console.log(`📥 Response: ${response.status} ${response.statusText}`);
-      }
+    this.logger.debug('Desk365 multipart payload', {
+      ticket_object: ticketObject,
+      files: request.attachments?.map(f => (typeof f === 'string' ? f : f.name))
+    });
 
-      return this.mapDeskTicketToTicket(response.data);
-    } catch (error) {
-      if (axios.isAxiosError(error) && error.response) {
-        console.error(`📛 Error: ${error.response.status} ${error.response.statusText}`);
-        if (error.response.data) {
-          console.error('Response:', typeof error.response.data === 'object' ? 
-            JSON.stringify(error.response.data) : 
-            error.response.data);
-        }
-        throw new Error(`Desk365 API Error: ${error.response.statusText || error.message}`);
-      }
-      console.error('Error creating ticket with attachments:', error);
-      throw error;
-    }
+    const response = await this.postMultipart('/v3/tickets/create_with_attachment', formData);
+    return this.mapDeskTicketToTicket(
+      this.parse<Desk365RawTicket>(response, validateDesk365Ticket, '/v3/tickets/create_with_attachment')
+    );
   }
-
   /**
    * Creates a new support ticket (alternative approach)
+   * This endpoint takes no custom fields, so customFields are neither validated nor sent
    * @param request - The ticket creation request
    * @returns The created ticket
    */
-  async createTicketAlt(request: CreateTicketRequest): Promise<Ticket> {
+  async createTicketAlt(request: CreateTicketRequest<TCustom>): Promise<Ticket<TCustom>> {
     try {
       // Try listing tickets first to ensure we're authenticated
       const tickets = await this.listUserTickets(request.userEmail, { limit: 1 });
       
       // If we can list tickets, try the tickets/create endpoint with GET method
-      if (this.verbose) {
-        console.log(`Attempting alternative ticket creation for user ${request.userEmail}`);
-      }
+      this.logger.debug('Attempting alternative ticket creation', { userEmail: request.userEmail });
       
       // Build parameters for the GET request
       const params = {
@@ -359,74 +445,126 @@ export class Desk365Client implements SupportApiInterface {
         priority: this.mapPriorityToDesk365Priority(request.priority) || 5,
         email: request.userEmail,
         contact_email: request.userEmail,
-        type: "Question",
-        source: "6" // Support Portal=6 according to docs
+        ...this.buildCreationFields(request)
       };
-      
-      if (this.verbose) {
-        console.log('Request parameters:', params);
-      } else {
-        console.log(`📤 GET /v3/tickets/create (query params)`);
-      }
+ 
       
       // Make a GET request to the tickets/create endpoint with query parameters
       const response = await this.request('/tickets/create', 'GET', undefined, params);
       
-      if (this.verbose) {
-        console.log('Response data:', response);
-      }
-      
-      return this.mapDeskTicketToTicket(response);
+      return this.mapDeskTicketToTicket(this.parse<Desk365RawTicket>(response, validateDesk365Ticket, '/v3/tickets/create'));
     } catch (error: unknown) {
-      // Concise error logging
-      if (axios.isAxiosError(error) && error.response) {
-        const status = error.response.status;
-        const statusText = error.response.statusText;
-        const allowedMethods = error.response.headers?.allow;
-        
-        console.error(`Create ticket (alt) error: HTTP ${status} ${statusText}`);
-        
-        if (allowedMethods) {
-          console.error(`Allowed methods: ${allowedMethods}`);
-        }
-        
-        // Only log detailed data in verbose mode
-        if (this.verbose && error.response.data) {
-          console.error('Response data:', 
-            typeof error.response.data === 'object' 
-              ? JSON.stringify(error.response.data, null, 2) 
-              : error.response.data.substring(0, 200)
-          );
-        }
-      } else {
-        // Handle non-Axios errors
-        console.error('Create ticket alternative approach error:', error instanceof Error ? error.message : String(error));
-      }
+      this.logger.error('Create ticket (alt) failed', {
+        status: error instanceof SupportApiError ? error.status : undefined,
+        message: error instanceof Error ? error.message : String(error)
+      });
       
       throw error;
     }
   }
 
+  /**
+   * Builds the type, group, category, sub-category, source and tags of a new ticket
+   * Fields set on the request override the client's ticketDefaults; fields set on neither are not sent
+   * @param request - The ticket creation request
+   * @returns The Desk365 fields (snake_case)
+   * @private
+   */
+  private buildCreationFields(request: CreateTicketRequest<TCustom>): Record<string, any> {
+    const fields: Record<string, any> = {
+      type: request.type ?? this.ticketDefaults.type,
+      group: request.group ?? this.ticketDefaults.group,
+      category: request.category ?? this.ticketDefaults.category,
+      sub_category: request.subCategory ?? this.ticketDefaults.subCategory,
+      source: request.source ?? this.ticketDefaults.source,
+      tags: request.tags ?? this.ticketDefaults.tags
+    };
+
+    return Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined));
+  }
+
+  /**
+   * Gets the definitions of the tenant's ticket custom fields
+   * Raw definitions are cached per tenant for customFieldDefinitionsTtl and shared between clients;
+   * a failed load is evicted, so one outage does not turn off validation for the whole TTL
+   * @param options - Pass refresh to bypass the cache
+   * @returns The definitions, named as in customFields (translated by this client's customFieldCodec)
+   */
+  async getCustomFieldDefinitions(options: { refresh?: boolean } = {}): Promise<CustomFieldDefinition[]> {
+    const cache = Desk365Client.customFieldDefinitions;
+    let entry = cache.get(this.baseUrl);
+
+    if (!entry || options.refresh || entry.expiresAt <= Date.now()) {
+      const definitions = this.request<unknown>('/tickets/custom_fields', 'GET').then(response =>
+        this.parse<Desk365RawCustomFieldList>(response, validateDesk365CustomFieldList, '/v3/tickets/custom_fields').custom_fields
+      );
+      const loading = { expiresAt: Date.now() + this.customFieldDefinitionsTtl, definitions };
+      // Callers see the failure; concurrent callers share it, and the next call loads again
+      definitions.catch(() => {
+        if (cache.get(this.baseUrl) === loading) {
+          cache.delete(this.baseUrl);
+        }
+      });
+
+      entry = loading;
+      cache.set(this.baseUrl, entry);
+    }
+
+    const codec = this.customFieldOptions.codec;
+    return (await entry.definitions).map((field): CustomFieldDefinition => ({
+      name: codec ? codec.fromProviderName(field.name) : field.name,
+      label: field.label ?? undefined,
+      type: this.mapDeskCustomFieldType(field.type),
+      required: field.required ?? false,
+      options: field.options ?? undefined
+    }));
+  }
+
+  /**
+   * Checks custom fields against the tenant's definitions before they are sent
+   * If the definitions cannot be loaded, the fields are sent unchecked and left to Desk365
+   * @param fields - The custom fields of the request
+   * @param partial - Whether the request is an update, which may leave required fields out
+   * @throws CustomFieldValidationError listing every problem found
+   * @private
+   */
+  private async checkCustomFields(fields: Record<string, unknown>, partial: boolean): Promise<void> {
+    if (!this.validateCustomFields) {
+      return;
+    }
+
+    let definitions: CustomFieldDefinition[];
+    try {
+      definitions = await this.getCustomFieldDefinitions();
+    } catch (error) {
+      this.logger.warn('Could not load Desk365 custom field definitions; sending custom fields unchecked', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return;
+    }
+
+    const issues = validateCustomFields(fields, definitions, { partial });
+    if (issues.length > 0) {
+      throw new CustomFieldValidationError(
+        `Invalid custom fields: ${issues.map(issue => issue.message).join('; ')}`,
+        issues,
+        { provider: 'desk365', endpoint: partial ? '/v3/tickets/update' : '/v3/tickets/create_with_attachment' }
+      );
+    }
+  }
+
   /**
    * Lists tickets for a specific user
    * @param userEmail - The email of the user
    * @param options - Filter options
    * @returns Paginated list of tickets
    */
-  async listUserTickets(userEmail: string, options?: TicketFilterOptions): Promise<PaginatedTicketsResponse> {
+  async listUserTickets(userEmail: string, options?: TicketFilterOptions): Promise<PaginatedTicketsResponse<TCustom>> {
     const filters = {
       contact: [userEmail]
     };
     
-    const params = {
-      ...this.buildParams(options),
-      filters: filters
-    };
-
-    const response = await this.request('/tickets', 'GET', undefined, params);
-    const page = options?.page || 1;
-    const limit = options?.limit || 30;
-    return this.mapDeskPaginatedResponseToPaginatedTicketsResponse(response, page, limit);
+    return this.fetchTicketPage(JSON.stringify(filters), options);
   }
 
   /**
@@ -434,34 +572,104 @@ export class Desk365Client implements SupportApiInterface {
    * @param options - Filter options
    * @returns Paginated list of tickets
    */
-  async searchTickets(options: TicketFilterOptions): Promise<PaginatedTicketsResponse> {
-    const filters: Record<string, any> = {};
-    
-    if (options.userEmail) {
-      filters.contact = [options.userEmail];
-    }
-    
-    if (options.assignedTo) {
-      filters.assigned_to = [options.assignedTo];
-    }
+  async searchTickets(options: TicketFilterOptions): Promise<PaginatedTicketsResponse<TCustom>> {
+    return this.fetchTicketPage(this.buildFilters(options), options);
+  }
+
+  /**
+   * Fetches exactly one page of `limit` tickets at `page`
+   * Desk365 only returns 30, 50 or 100 tickets per call, so calls are trimmed or combined to fill the page
+   * @param filters - JSON-encoded Desk365 filters
+   * @param options - Filter options, including the page and page size
+   * @returns Paginated list of tickets
+   * @private
+   */
+  private async fetchTicketPage(
+    filters: string | undefined,
+    options: TicketFilterOptions = {}
+  ): Promise<PaginatedTicketsResponse<TCustom>> {
+    const page = Math.max(1, options.page || 1);
+    const limit = Math.max(1, options.limit || 30);
+    const params = {
+      ...this.buildParams(options),
+      filters
+    };
     
-    if (options.status) {
-      filters.status = [this.mapStatusToDesk365Status(options.status)];
-    }
+    const deskTickets: Desk365RawTicket[] = [];
+    let offset = (page - 1) * limit;
+    let total = 0;
     
-    if (options.priority) {
-      filters.priority = [this.mapPriorityToDesk365Priority(options.priority).toString()];
+    while (deskTickets.length < limit) {
+      const ticketCount = this.toDeskTicketCount(limit - deskTickets.length);
+      const response = this.parse<Desk365RawTicketList>(
+        await this.request('/tickets', 'GET', undefined, { offset, ticket_count: ticketCount, ...params }),
+        validateDesk365TicketList,
+        '/v3/tickets'
+      );
+      const batch = response.tickets;
+      
+      deskTickets.push(...batch);
+      total = response.count;
+      offset += batch.length;
+      
+      // A short batch means the listing is exhausted
+      if (batch.length < ticketCount || offset >= total) {
+        break;
+      }
     }
     
+    return this.mapDeskPaginatedResponseToPaginatedTicketsResponse(
+      { count: total, tickets: deskTickets.slice(0, limit) },
+      page,
+      limit
+    );
+  }
+
+  /**
+   * Iterates over every ticket matching the filter options, fetching pages as needed
+   * `options.limit` sets the batch size (rounded to Desk365's 30/50/100 buckets, defaults to 100)
+   * and `options.page` is ignored; breaking out of the loop stops further requests
+   * @param options - Filter options
+   * @returns An async iterator over the matching tickets
+   */
+  async *iterateTickets(options: TicketFilterOptions = {}): AsyncGenerator<Ticket<TCustom>> {
+    const ticketCount = this.toDeskTicketCount(options.limit || 100);
     const params = {
       ...this.buildParams(options),
-      filters: Object.keys(filters).length > 0 ? JSON.stringify(filters) : undefined
+      filters: this.buildFilters(options),
+      ticket_count: ticketCount
     };
     
-    const response = await this.request('/tickets', 'GET', undefined, params);
-    const page = options?.page || 1;
-    const limit = options?.limit || 30;
-    return this.mapDeskPaginatedResponseToPaginatedTicketsResponse(response, page, limit);
+    let offset = 0;
+    while (true) {
+      const response = this.parse<Desk365RawTicketList>(
+        await this.request('/tickets', 'GET', undefined, { ...params, offset }),
+        validateDesk365TicketList,
+        '/v3/tickets'
+      );
+      const tickets = response.tickets.map(this.mapDeskTicketToTicket.bind(this));
+      
+      for (const ticket of tickets) {
+        yield ticket;
+      }
+      
+      offset += tickets.length;
+      
+      // Desk365 returns a short page once the listing is exhausted
+      if (tickets.length < ticketCount || offset >= response.count) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Collects every ticket matching the filter options
+   * @param options - Filter options
+   * @param limits - Limits for the collection (e.g. the maximum number of tickets)
+   * @returns The matching tickets
+   */
+  async listAllTickets(options: TicketFilterOptions = {}, limits: ListAllTicketsOptions = {}): Promise<Ticket<TCustom>[]> {
+    return collectTickets(this.iterateTickets(options), limits.max);
   }
 
   /**
@@ -469,7 +677,7 @@ export class Desk365Client implements SupportApiInterface {
    * @param ticketId - The ID of the ticket
    * @returns The ticket details including conversation
    */
-  async getTicketDetails(ticketId: string): Promise<TicketDetails> {
+  async getTicketDetails(ticketId: string): Promise<TicketDetails<TCustom>> {
     // Fetch ticket details
     const response = await this.request('/tickets/details', 'GET', undefined, {
       ticket_number: ticketId
@@ -478,7 +686,7 @@ export class Desk365Client implements SupportApiInterface {
     const conversation = await this.getTicketConversations(ticketId);
     // Return ticket details with conversation filled
     return {
-      ...this.mapDeskTicketToTicket(response),
+      ...this.mapDeskTicketToTicket(this.parse<Desk365RawTicket>(response, validateDesk365Ticket, '/v3/tickets/details')),
       conversation,
     };
   }
@@ -508,20 +716,11 @@ export class Desk365Client implements SupportApiInterface {
     };
     
     // Make a POST request to the add_reply endpoint
-    if (this.verbose) {
-      console.log('Making POST request to /v3/tickets/add_reply');
-      console.log('Request body:', JSON.stringify(requestBody, null, 2));
-    } else {
-      console.log(`📤 POST /v3/tickets/add_reply`);
-    }
-    
     const response = await this.request('/tickets/add_reply', 'POST', requestBody, queryParams);
     
-    if (this.verbose) {
-      console.log('Response data:', response);
-    }
-    
-    return this.mapDeskMessageToTicketMessage(response);
+    return this.mapDeskMessageToTicketMessage(
+      this.parse<Desk365RawReply>(response, validateDesk365Reply, '/v3/tickets/add_reply')
+    );
   }
 
   /**
@@ -534,8 +733,6 @@ export class Desk365Client implements SupportApiInterface {
     request: TicketResponseRequest, 
     attachments: Array<string | File>
   ): Promise<TicketMessage> {
-    const url = `${this.baseUrl}/v3/tickets/add_reply_with_attachment`;
-    
     // Create a FormData object for multipart/form-data request
     const formData = new FormData();
     
@@ -556,96 +753,19 @@ export class Desk365Client implements SupportApiInterface {
     // Add the reply object as JSON string
     formData.append('reply_object', JSON.stringify(replyObject));
     
-    // Check if we're in a Node.js environment
-    const isNode = typeof process !== 'undefined' && process.versions && process.versions.node;
-    
     // Add the attachments
-    for (const attachment of attachments) {
-      if (typeof attachment === 'string') {
-        if (isNode) {
-          try {
-            // We're in Node.js, so we can use fs to read the file
-            // Need to dynamically import these to avoid browser compatibility issues
-            const fs = require('fs');
-            const path = require('path');
-            const { Blob } = require('buffer');
-            
-            if (!fs.existsSync(attachment)) {
-              console.error(`File not found: ${attachment}`);
-              continue;
-            }
-            
-            const fileBuffer = fs.readFileSync(attachment);
-            const fileName = path.basename(attachment);
-            
-            // Create a Blob from the file data
-            const fileBlob = new Blob([fileBuffer]);
-            
-            // Add file to FormData with the original filename
-            formData.append('files', fileBlob, fileName);
-            
-            if (this.verbose) {
-              console.log(`Added file: ${fileName} (${fileBuffer.length} bytes)`);
-            }
-          } catch (err) {
-            console.error(`Error processing file ${attachment}:`, err);
-          }
-        } else {
-          console.warn('File path attachments are only supported in Node.js environments');
-        }
-      } else {
-        // If attachment is a File object, add it directly
-        formData.append('files', attachment);
-        
-        if (this.verbose) {
-          console.log(`Added file: ${attachment.name} (${attachment.size} bytes)`);
-        }
-      }
-    }
+    this.appendAttachments(formData, attachments);
     
-    if (this.verbose) {
-      console.log('Making POST request to /v3/tickets/add_reply_with_attachment');
-      console.log('FormData contains:', 
-        `ticket_number: ${request.ticketId}`,
-        `reply_object: ${JSON.stringify(replyObject, null, 2)}`,
-        `${attachments.length} file(s)`
-      );
-    } else {
-      console.log(`📤 POST /v3/tickets/add_reply_with_attachment (${attachments.length} file(s))`);
-    }
+    this.logger.debug('Desk365 multipart payload', {
+      ticket_number: request.ticketId,
+      reply_object: replyObject,
+      files: attachments.length
+    });
     
-    try {
-      // Use axios directly for this request due to FormData handling
-      const response = await axios.post(url, formData, {
-        headers: {
-          ...this.headers,
-          'Content-Type': 'multipart/form-data'
-        }
-      });
-      
-      if (this.verbose) {
-        console.log(`📥 Response status: ${response.status}`);
-        console.log('Response data:', response.data);
-      } else {
-        console.log(`📥 Response: ${response.status} ${response.statusText}`);
-      }
-      
-      return this.mapDeskMessageToTicketMessage(response.data);
-    } catch (error) {
-      if (axios.isAxiosError(error) && error.response) {
-        console.error(`📛 Error: ${error.response.status} ${error.response.statusText}`);
-        if (error.response.data) {
-          console.error('Response:', typeof error.response.data === 'object' ? 
-            JSON.stringify(error.response.data) : 
-            error.response.data);
-        }
-        
-        throw new Error(`Desk365 API Error: ${error.response.statusText || error.message}`);
-      }
-      
-      console.error('Error responding to ticket with attachments:', error);
-      throw error;
-    }
+    const response = await this.postMultipart('/v3/tickets/add_reply_with_attachment', formData);
+    return this.mapDeskMessageToTicketMessage(
+      this.parse<Desk365RawReply>(response, validateDesk365Reply, '/v3/tickets/add_reply_with_attachment')
+    );
   }
 
   /**
@@ -675,20 +795,7 @@ export class Desk365Client implements SupportApiInterface {
       private_note: isPrivate ? 1 : 0
     };
     
-    if (this.verbose) {
-      console.log('Making POST request to /v3/tickets/add_note');
-      console.log('Request body:', JSON.stringify(requestBody, null, 2));
-    } else {
-      console.log(`📤 POST /v3/tickets/add_note`);
-    }
-    
-    const response = await this.request('/tickets/add_note', 'POST', requestBody, queryParams);
-    
-    if (this.verbose) {
-      console.log('Response data:', response);
-    }
-    
-    return response;
+    return this.request('/tickets/add_note', 'POST', requestBody, queryParams);
   }
 
   /**
@@ -709,8 +816,6 @@ export class Desk365Client implements SupportApiInterface {
     agentEmail?: string,
     notifyEmails?: string
   ): Promise<any> {
-    const url = `${this.baseUrl}/v3/tickets/add_note_with_attachment`;
-    
     // Create a FormData object for multipart/form-data request
     const formData = new FormData();
     
@@ -728,10 +833,28 @@ export class Desk365Client implements SupportApiInterface {
     // Add the note object as JSON string
     formData.append('note_object', JSON.stringify(noteObject));
     
+    // Add the attachments
+    this.appendAttachments(formData, attachments);
+    
+    this.logger.debug('Desk365 multipart payload', {
+      ticket_number: ticketId,
+      note_object: noteObject,
+      files: attachments.length
+    });
+    
+    return this.postMultipart('/v3/tickets/add_note_with_attachment', formData);
+  }
+
+  /**
+   * Appends file paths or File objects to a multipart request
+   * @param formData - The form data to append to
+   * @param attachments - Array of file paths or file objects to attach
+   * @private
+   */
+  private appendAttachments(formData: FormData, attachments: Array<string | File>): void {
     // Check if we're in a Node.js environment
     const isNode = typeof process !== 'undefined' && process.versions && process.versions.node;
     
-    // Add the attachments
     for (const attachment of attachments) {
       if (typeof attachment === 'string') {
         if (isNode) {
@@ -743,7 +866,7 @@ export class Desk365Client implements SupportApiInterface {
             const { Blob } = require('buffer');
             
             if (!fs.existsSync(attachment)) {
-              console.error(`File not found: ${attachment}`);
+              this.logger.warn('Attachment file not found', { path: attachment });
               continue;
             }
             
@@ -756,68 +879,41 @@ export class Desk365Client implements SupportApiInterface {
             // Add file to FormData with the original filename
             formData.append('files', fileBlob, fileName);
             
-            if (this.verbose) {
-              console.log(`Added file: ${fileName} (${fileBuffer.length} bytes)`);
-            }
+            this.logger.debug('Added attachment', { fileName, size: fileBuffer.length });
           } catch (err) {
-            console.error(`Error processing file ${attachment}:`, err);
+            this.logger.error('Failed to read attachment', { path: attachment, error: (err as Error).message });
           }
         } else {
-          console.warn('File path attachments are only supported in Node.js environments');
+          this.logger.warn('File path attachments are only supported in Node.js environments', { path: attachment });
         }
       } else {
         // If attachment is a File object, add it directly
         formData.append('files', attachment);
         
-        if (this.verbose) {
-          console.log(`Added file: ${attachment.name} (${attachment.size} bytes)`);
-        }
+        this.logger.debug('Added attachment', { fileName: attachment.name, size: attachment.size });
       }
     }
-    
-    if (this.verbose) {
-      console.log('Making POST request to /v3/tickets/add_note_with_attachment');
-      console.log('FormData contains:', 
-        `ticket_number: ${ticketId}`,
-        `note_object: ${JSON.stringify(noteObject, null, 2)}`,
-        `${attachments.length} file(s)`
-      );
-    } else {
-      console.log(`📤 POST /v3/tickets/add_note_with_attachment (${attachments.length} file(s))`);
-    }
-    
-    try {
-      // Use axios directly for this request due to FormData handling
-      const response = await axios.post(url, formData, {
-        headers: {
-          ...this.headers,
-          'Content-Type': 'multipart/form-data'
-        }
-      });
-      
-      if (this.verbose) {
-        console.log(`📥 Response status: ${response.status}`);
-        console.log('Response data:', response.data);
-      } else {
-        console.log(`📥 Response: ${response.status} ${response.statusText}`);
-      }
-      
-      return response.data;
-    } catch (error) {
-      if (axios.isAxiosError(error) && error.response) {
-        console.error(`📛 Error: ${error.response.status} ${error.response.statusText}`);
-        if (error.response.data) {
-          console.error('Response:', typeof error.response.data === 'object' ? 
-            JSON.stringify(error.response.data) : 
-            error.response.data);
-        }
-        
-        throw new Error(`Desk365 API Error: ${error.response.statusText || error.message}`);
-      }
-      
-      console.error('Error adding note with attachments:', error);
-      throw error;
-    }
+  }
+
+  /**
+   * Sends a multipart/form-data POST request to the Desk365 API
+   * @param endpoint - API endpoint (including the /v3 prefix)
+   * @param formData - The multipart payload
+   * @returns Response data
+   * @private
+   */
+  private async postMultipart<T = any>(endpoint: string, formData: FormData): Promise<T> {
+    this.logger.debug('Desk365 request', { method: 'POST', endpoint, multipart: true });
+    
+    return this.send<T>(endpoint, {
+      method: 'POST',
+      url: `${this.baseUrl}${endpoint}`,
+      headers: {
+        ...this.headers,
+        'Content-Type': 'multipart/form-data'
+      },
+      data: formData
+    });
   }
 
   /**
@@ -825,37 +921,8 @@ export class Desk365Client implements SupportApiInterface {
    * @param ticketId - The ID of the ticket to close
    * @returns The updated ticket
    */
-  async closeTicket(ticketId: string): Promise<Ticket> {
-    // Warning: Desk365 API documentation indicates this should use PUT
-    console.log('⚠️ Warning: Attempting to close ticket using PUT as per Desk365 API documentation');
-    
-    const queryParams = {
-      ticket_number: ticketId
-    };
-    
-    const requestBody = {
-      status: 'closed'
-    };
-    
-    if (this.verbose) {
-      console.log('Making PUT request to /v3/tickets/update');
-      console.log('Request body:', JSON.stringify(requestBody, null, 2));
-    } else {
-      console.log(`📤 PUT /v3/tickets/update (close)`);
-    }
-    
-    try {
-      const response = await this.request('/tickets/update', 'PUT', requestBody, queryParams);
-      return this.mapDeskTicketToTicket(response);
-    } catch (error: any) {
-      // Check if this is a 405 Method Not Allowed error
-      if (axios.isAxiosError(error) && error.response?.status === 405) {
-        console.error('❌ The Desk365 API returned a 405 Method Not Allowed error.');
-        console.error('   This indicates the API may not support closing tickets via the API.');
-        console.error('   Consider using the Desk365 web interface for this operation.');
-      }
-      throw error;
-    }
+  async closeTicket(ticketId: string): Promise<Ticket<TCustom>> {
+    return this.sendTicketUpdate(ticketId, { status: this.mapStatusToDesk365Status(TicketStatus.CLOSED) }, 'closing');
   }
 
   /**
@@ -863,37 +930,8 @@ export class Desk365Client implements SupportApiInterface {
    * @param ticketId - The ID of the ticket to reopen
    * @returns The updated ticket
    */
-  async reopenTicket(ticketId: string): Promise<Ticket> {
-    // Warning: Desk365 API documentation indicates this should use PUT
-    console.log('⚠️ Warning: Attempting to reopen ticket using PUT as per Desk365 API documentation');
-    
-    const queryParams = {
-      ticket_number: ticketId
-    };
-    
-    const requestBody = {
-      status: 'open'
-    };
-    
-    if (this.verbose) {
-      console.log('Making PUT request to /v3/tickets/update');
-      console.log('Request body:', JSON.stringify(requestBody, null, 2));
-    } else {
-      console.log(`📤 PUT /v3/tickets/update (reopen)`);
-    }
-    
-    try {
-      const response = await this.request('/tickets/update', 'PUT', requestBody, queryParams);
-      return this.mapDeskTicketToTicket(response);
-    } catch (error: any) {
-      // Check if this is a 405 Method Not Allowed error
-      if (axios.isAxiosError(error) && error.response?.status === 405) {
-        console.error('❌ The Desk365 API returned a 405 Method Not Allowed error.');
-        console.error('   This indicates the API may not support reopening tickets via the API.');
-        console.error('   Consider using the Desk365 web interface for this operation.');
-      }
-      throw error;
-    }
+  async reopenTicket(ticketId: string): Promise<Ticket<TCustom>> {
+    return this.sendTicketUpdate(ticketId, { status: this.mapStatusToDesk365Status(TicketStatus.OPEN) }, 'reopening');
   }
 
   /**
@@ -902,20 +940,12 @@ export class Desk365Client implements SupportApiInterface {
    * @param options - Filter options
    * @returns Paginated list of tickets
    */
-  async listAssignedTickets(adminEmail: string, options?: TicketFilterOptions): Promise<PaginatedTicketsResponse> {
+  async listAssignedTickets(adminEmail: string, options?: TicketFilterOptions): Promise<PaginatedTicketsResponse<TCustom>> {
     const filters = {
       assigned_to: [adminEmail]
     };
     
-    const params = {
-      ...this.buildParams(options),
-      filters: JSON.stringify(filters)
-    };
-    
-    const response = await this.request('/tickets', 'GET', undefined, params);
-    const page = options?.page || 1;
-    const limit = options?.limit || 30;
-    return this.mapDeskPaginatedResponseToPaginatedTicketsResponse(response, page, limit);
+    return this.fetchTicketPage(JSON.stringify(filters), options);
   }
 
   /**
@@ -924,52 +954,10 @@ export class Desk365Client implements SupportApiInterface {
    * @param assignTo - The email of the agent to assign the ticket to
    * @returns The updated ticket
    */
-  async assignTicket(ticketId: string, assignTo: string): Promise<Ticket> {
-    // Warning: Desk365 API documentation indicates this should use PUT
-    console.log('⚠️ Warning: Attempting to assign ticket using PUT as per Desk365 API documentation');
-    
-    const queryParams = {
-      ticket_number: ticketId
-    };
-    
+  async assignTicket(ticketId: string, assignTo: string): Promise<Ticket<TCustom>> {
     // The error indicated that "assigned to" is an invalid field
     // Try with "assign_to" instead of "assigned_to"
-    const requestBody = {
-      assign_to: assignTo
-    };
-    
-    if (this.verbose) {
-      console.log('Making PUT request to /v3/tickets/update');
-      console.log('Request body:', JSON.stringify(requestBody, null, 2));
-    } else {
-      console.log(`📤 PUT /v3/tickets/update (assign)`);
-    }
-    
-    try {
-      // First try with PUT as documented
-      const response = await this.request('/tickets/update', 'PUT', requestBody, queryParams);
-      return this.mapDeskTicketToTicket(response);
-    } catch (error: any) {
-      // Check if this is a 405 Method Not Allowed error
-      if (axios.isAxiosError(error) && error.response?.status === 405) {
-        console.error('❌ The Desk365 API returned a 405 Method Not Allowed error for PUT.');
-        console.error('   Trying with POST method instead...');
-        
-        // Try with POST as a fallback
-        try {
-          console.log(`📤 POST /v3/tickets/update (assign - fallback)`);
-          const postResponse = await this.request('/tickets/update', 'POST', requestBody, queryParams);
-          console.log('✅ Fallback to POST method successful');
-          return this.mapDeskTicketToTicket(postResponse);
-        } catch (postError) {
-          console.error('❌ Failed to assign ticket using POST method as well.');
-          console.error('   This operation may not be supported by the Desk365 API.');
-          console.error('   Consider using the Desk365 web interface for this operation.');
-          throw postError;
-        }
-      }
-      throw error;
-    }
+    return this.sendTicketUpdate(ticketId, { assign_to: assignTo }, 'assignment');
   }
 
   /**
@@ -978,89 +966,77 @@ export class Desk365Client implements SupportApiInterface {
    * @param priority - The new priority
    * @returns The updated ticket
    */
-  async escalateTicket(ticketId: string, priority: TicketPriority): Promise<Ticket> {
-    // Warning: Desk365 API documentation indicates this should use PUT
-    console.log('⚠️ Warning: Attempting to update ticket priority using PUT as per Desk365 API documentation');
-    
+  async escalateTicket(ticketId: string, priority: TicketPriority): Promise<Ticket<TCustom>> {
+    return this.sendTicketUpdate(ticketId, { priority: this.mapPriorityToDesk365Priority(priority) }, 'escalation');
+  }
+
+  /**
+   * Updates a ticket's properties
+   * @param request - The update request
+   * @returns The updated ticket
+   */
+  async updateTicket(request: UpdateTicketRequest<TCustom>): Promise<Ticket<TCustom>> {
     const queryParams = {
-      ticket_number: ticketId
+      ticket_number: request.ticketId
     };
     
-    const requestBody = {
-      priority: this.mapPriorityToDesk365Priority(priority)
-    };
+    const requestBody: Record<string, any> = {};
     
-    if (this.verbose) {
-      console.log('Making PUT request to /v3/tickets/update');
-      console.log('Request body:', JSON.stringify(requestBody, null, 2));
-    } else {
-      console.log(`📤 PUT /v3/tickets/update`);
+    if (request.status) {
+      requestBody.status = this.mapStatusToDesk365Status(request.status);
     }
     
-    try {
-      const response = await this.request('/tickets/update', 'PUT', requestBody, queryParams);
-      return this.mapDeskTicketToTicket(response);
-    } catch (error: any) {
-      // Check if this is a 405 Method Not Allowed error
-      if (axios.isAxiosError(error) && error.response?.status === 405) {
-        console.error('❌ The Desk365 API returned a 405 Method Not Allowed error.');
-        console.error('   This indicates the API may not support updating ticket priority.');
-        console.error('   Consider using the Desk365 web interface for this operation.');
-      }
-      throw error;
+    if (request.priority) {
+      requestBody.priority = this.mapPriorityToDesk365Priority(request.priority);
     }
+    
+    if (request.assignedTo) {
+      requestBody.assign_to = request.assignedTo;
+    }
+    
+    if (request.customFields) {
+      await this.checkCustomFields(request.customFields, true);
+      requestBody.custom_fields = encodeCustomFields(request.customFields, this.customFieldOptions);
+    }
+    
+    return this.sendTicketUpdate(request.ticketId, requestBody, 'update');
   }
 
   /**
-   * Updates a ticket's properties
-   * @param request - The update request
+   * Sends a ticket update, falling back from PUT to POST when Desk365 rejects PUT with 405
+   * Updates only set fields, so repeating one has no side effects and the POST may be retried
+   * @param ticketId - The ID of the ticket
+   * @param requestBody - The fields to update
+   * @param action - Describes the update in logs (e.g. 'assignment')
    * @returns The updated ticket
+   * @private
    */
-  async updateTicket(request: UpdateTicketRequest): Promise<Ticket> {
+  private async sendTicketUpdate(ticketId: string, requestBody: Record<string, any>, action: string): Promise<Ticket<TCustom>> {
+    const queryParams = {
+      ticket_number: ticketId
+    };
+
     try {
-      // Warning: Desk365 API documentation indicates this should use PUT
-      console.log('⚠️ Warning: Attempting to update ticket using PUT as per Desk365 API documentation');
-      
-      const queryParams = {
-        ticket_number: request.ticketId
-      };
-      
-      const requestBody: Record<string, any> = {};
-      
-      if (request.status) {
-        requestBody.status = this.mapStatusToDesk365Status(request.status);
-      }
-      
-      if (request.priority) {
-        requestBody.priority = this.mapPriorityToDesk365Priority(request.priority);
-      }
-      
-      if (request.assignedTo) {
-        requestBody.assign_to = request.assignedTo;
-      }
-      
-      if (this.verbose) {
-        console.log('Making PUT request to /v3/tickets/update');
-        console.log('Request body:', JSON.stringify(requestBody, null, 2));
-      } else {
-        console.log(`📤 PUT /v3/tickets/update`);
+      // First try with PUT as documented; a 405 is handled below, so it is not logged as an error
+      const response = await this.request('/tickets/update', 'PUT', requestBody, queryParams, false,
+        error => error instanceof MethodNotSupportedError);
+      return this.mapDeskTicketToTicket(this.parse<Desk365RawTicket>(response, validateDesk365Ticket, '/v3/tickets/update'));
+    } catch (error) {
+      // Check if this is a 405 Method Not Allowed error
+      if (!(error instanceof MethodNotSupportedError)) {
+        throw error;
       }
-      
+
+      this.logger.warn(`Desk365 API rejected PUT for ${action}, retrying with POST`, { ticketId });
+
       try {
-        const response = await this.request('/tickets/update', 'PUT', requestBody, queryParams);
-        return this.mapDeskTicketToTicket(response);
-      } catch (error: any) {
-        // Check if this is a 405 Method Not Allowed error
-        if (axios.isAxiosError(error) && error.response?.status === 405) {
-          console.error('❌ The Desk365 API returned a 405 Method Not Allowed error.');
-          console.error('   This indicates the API may not support updating tickets via the API.');
-          console.error('   Consider using the Desk365 web interface for this operation.');
-        }
-        throw error;
+        const postResponse = await this.request('/tickets/update', 'POST', requestBody, queryParams, true);
+        this.logger.info('Fallback to POST method successful', { ticketId });
+        return this.mapDeskTicketToTicket(this.parse<Desk365RawTicket>(postResponse, validateDesk365Ticket, '/v3/tickets/update'));
+      } catch (postError) {
+        this.logger.error(`POST fallback for ${action} failed as well; consider using the Desk365 web interface`, { ticketId });
+        throw postError;
       }
-    } catch (error) {
-      console.error('Error updating ticket:', error);
-      throw error;
     }
   }
 
@@ -1071,17 +1047,48 @@ export class Desk365Client implements SupportApiInterface {
    * @returns The list of conversations/messages for the ticket
    */
   async getTicketConversations(ticketId: string): Promise<TicketMessage[]> {
-    const response = await this.request('/tickets/conversations', 'GET', undefined, {
-      ticket_number: ticketId
-    }) as any;
-    // Normalize the Desk365 conversations to TicketMessage[]
-    const conversations = response.conversations || [];
+    const response = this.parse<Desk365RawConversationList>(
+      await this.request('/tickets/conversations', 'GET', undefined, { ticket_number: ticketId }),
+      validateDesk365ConversationList,
+      '/v3/tickets/conversations'
+    );
     // First map to camelCase Desk365Conversation, then to TicketMessage
-    return conversations
+    return response.conversations
       .map(this.mapDeskConversationToConversation)
       .map(this.mapDeskConversationToTicketMessage.bind(this));
   }
 
+  /**
+   * Maps a raw Desk365 ticket (API response or webhook payload) to our generic Ticket interface
+   * @param raw - The raw Desk365 ticket
+   * @returns The mapped ticket
+   * @throws ResponseValidationError if the ticket does not match the schema (see the `validation` option)
+   */
+  mapTicket(raw: unknown): Ticket<TCustom> {
+    return this.mapDeskTicketToTicket(this.parse<Desk365RawTicket>(raw, validateDesk365Ticket, 'webhook'));
+  }
+
+  /**
+   * Maps a raw Desk365 conversation (API response or webhook payload) to our generic TicketMessage interface
+   * @param raw - The raw Desk365 conversation
+   * @returns The mapped ticket message
+   * @throws ResponseValidationError if the conversation does not match the schema (see the `validation` option)
+   */
+  mapConversation(raw: unknown): TicketMessage {
+    const conversation = this.parse<Desk365RawConversation>(raw, validateDesk365Conversation, 'webhook');
+    return this.mapDeskConversationToTicketMessage(this.mapDeskConversationToConversation(conversation));
+  }
+
+  /**
+   * Maps a raw Desk365 status (API response or webhook payload) to our generic TicketStatus
+   * @param raw - The raw Desk365 status
+   * @returns The mapped status (see the `mapping` option)
+   * @throws UnmappedValueError if the status is not mapped and the policy is 'throw'
+   */
+  mapStatus(raw: string): TicketStatus {
+    return this.mapDeskStatusToStatus(raw);
+  }
+
   /**
    * Maps a raw Desk365 conversation object (snake_case) to Desk365Conversation (camelCase)
    * @param raw - The raw Desk365 conversation object
@@ -1131,12 +1138,19 @@ export class Desk365Client implements SupportApiInterface {
       sender: deskConversation.createdBy || '',
       isStaff: deskConversation.senderType === 'agent',
       createdAt: deskConversation.createdOn,
-      attachments: (deskConversation.attachments || []).map(this.mapDeskAttachmentToTicketAttachment.bind(this))
+      attachments: (deskConversation.attachments || []).map(attachment => ({
+        fileName: attachment.fileName,
+        fileSize: attachment.fileSize,
+        fileType: attachment.contentType,
+        createdOn: deskConversation.createdOn,
+        url: attachment.url
+      }))
     };
   }
 
   /**
-   * Builds query parameters for filtering tickets
+   * Builds query parameters for sorting and enriching tickets
+   * Paging parameters (offset, ticket_count) are added by the callers
    * @param options - Filter options
    * @returns The query parameters
    * @private
@@ -1146,21 +1160,6 @@ export class Desk365Client implements SupportApiInterface {
     
     const params: Record<string, any> = {};
     
-    if (options.page) {
-      params.offset = (options.page - 1) * (options.limit || 30);
-    }
-    
-    if (options.limit) {
-      // Desk365 only supports 30, 50, or 100 tickets per call
-      if (options.limit <= 30) {
-        params.ticket_count = 30;
-      } else if (options.limit <= 50) {
-        params.ticket_count = 50;
-      } else {
-        params.ticket_count = 100;
-      }
-    }
-    
     if (options.sortBy) {
       params.order_by = options.sortBy === 'createdAt' ? 'created_time' : 'updated_time';
       
@@ -1180,52 +1179,128 @@ export class Desk365Client implements SupportApiInterface {
     return params;
   }
 
+  /**
+   * Rounds a page size up to a ticket count supported by Desk365
+   * @param limit - The requested page size
+   * @returns The Desk365 ticket count
+   * @private
+   */
+  private toDeskTicketCount(limit: number): number {
+    // Desk365 only supports 30, 50, or 100 tickets per call
+    if (limit <= 30) return 30;
+    if (limit <= 50) return 50;
+    return 100;
+  }
+
+  /**
+   * Builds the Desk365 filters for the filter options
+   * @param options - Filter options
+   * @returns The JSON-encoded filters, or undefined if no filter applies
+   * @private
+   */
+  private buildFilters(options: TicketFilterOptions): string | undefined {
+    const filters: Record<string, any> = {};
+    
+    if (options.userEmail) {
+      filters.contact = [options.userEmail];
+    }
+    
+    if (options.assignedTo) {
+      filters.assigned_to = [options.assignedTo];
+    }
+    
+    if (options.status) {
+      filters.status = [this.mapStatusToDesk365Status(options.status)];
+    }
+    
+    if (options.priority) {
+      filters.priority = [this.mapPriorityToDesk365Priority(options.priority).toString()];
+    }
+    
+    return Object.keys(filters).length > 0 ? JSON.stringify(filters) : undefined;
+  }
+
   /**
    * Maps a Desk365 ticket to our generic Ticket interface
    * @param deskTicket - The Desk365 ticket
    * @returns The mapped ticket
    * @private
    */
-  private mapDeskTicketToTicket(deskTicket: any): Ticket {
-    // Handle case where deskTicket might be undefined or missing properties
-    if (!deskTicket) {
-      console.warn('Warning: Received undefined or null ticket data from Desk365 API');
-      return {
-        id: 'unknown',
-        subject: 'Unknown Subject',
-        description: 'No description available',
-        status: TicketStatus.OPEN,
-        priority: TicketPriority.MEDIUM,
-        userEmail: 'unknown@example.com',
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-        attachments: []
-      };
-    }
-
+  private mapDeskTicketToTicket(deskTicket: Desk365RawTicket): Ticket<TCustom> {
+    // Fields are passed through as received; parse() has already reported any that are missing
     return {
-      id: deskTicket.ticket_number?.toString() || deskTicket.id?.toString() || 'unknown',
-      subject: deskTicket.subject || 'Unknown Subject',
-      description: deskTicket.description || 'No description available',
-      status: this.mapDeskStatusToStatus(deskTicket.status || 'open'),
-      priority: this.mapDeskPriorityToPriority(deskTicket.priority || 5),
-      userEmail: deskTicket.contact_email || deskTicket.email || 'unknown@example.com',
-      assignedTo: deskTicket.assigned_to || deskTicket.assign_to,
-      createdAt: deskTicket.created_on || new Date().toISOString(),
-      updatedAt: deskTicket.updated_on || new Date().toISOString(),
+      id: deskTicket.ticket_number?.toString(),
+      subject: deskTicket.subject,
+      // Desk365 only sends the description when include_description is set
+      description: deskTicket.description ?? '',
+      status: this.mapDeskStatusToStatus(deskTicket.status),
+      priority: this.mapDeskPriorityToPriority(deskTicket.priority),
+      rawStatus: deskTicket.status,
+      rawPriority: deskTicket.priority,
+      userEmail: (deskTicket.contact_email ?? deskTicket.email) as string,
+      assignedTo: deskTicket.assigned_to || deskTicket.assign_to || undefined,
+      type: deskTicket.type ?? undefined,
+      group: deskTicket.group ?? undefined,
+      category: deskTicket.category ?? undefined,
+      subCategory: deskTicket.sub_category ?? undefined,
+      source: deskTicket.source?.toString(),
+      tags: this.mapDeskTags(deskTicket.tags),
+      customFields: deskTicket.custom_fields
+        ? decodeCustomFields(deskTicket.custom_fields, this.customFieldOptions) as TCustom
+        : undefined,
+      createdAt: deskTicket.created_on,
+      updatedAt: deskTicket.updated_on,
       attachments: (deskTicket.attachments || []).map(this.mapDeskAttachmentToTicketAttachment.bind(this))
     };
   }
 
+  /**
+   * Maps a Desk365 custom field type to our generic CustomFieldType
+   * @param deskType - The Desk365 field type (lenient validation may pass through a missing or mistyped one)
+   * @returns The mapped type (unknown and missing types are treated as text)
+   * @private
+   */
+  private mapDeskCustomFieldType(deskType: unknown): CustomFieldType {
+    const typeMap: Record<string, CustomFieldType> = {
+      'text': 'text',
+      'textarea': 'text',
+      'number': 'number',
+      'decimal': 'number',
+      'checkbox': 'boolean',
+      'boolean': 'boolean',
+      'date': 'date',
+      'datetime': 'date',
+      'dropdown': 'dropdown',
+      'select': 'dropdown',
+      'radio': 'dropdown',
+      'multiselect': 'multiselect'
+    };
+
+    return (typeof deskType === 'string' && typeMap[deskType.toLowerCase()]) || 'text';
+  }
+
+  /**
+   * Maps Desk365 tags, sent as an array or a comma-separated list
+   * @param deskTags - The Desk365 tags
+   * @returns The tags, or undefined if Desk365 sent none
+   * @private
+   */
+  private mapDeskTags(deskTags: string[] | string | null | undefined): string[] | undefined {
+    if (deskTags == null) return undefined;
+    if (Array.isArray(deskTags)) return [...deskTags];
+
+    return deskTags.split(',').map(tag => tag.trim()).filter(Boolean);
+  }
+
   /**
    * Maps a Desk365 message to our generic TicketMessage interface
    * @param deskMessage - The Desk365 message
    * @returns The mapped ticket message
    * @private
    */
-  private mapDeskMessageToTicketMessage(deskMessage: any): TicketMessage {
+  private mapDeskMessageToTicketMessage(deskMessage: Desk365RawReply): TicketMessage {
     return {
-      id: deskMessage.id,
+      id: deskMessage.id?.toString(),
       ticketId: deskMessage.ticket_number?.toString(),
       message: deskMessage.content,
       sender: deskMessage.email,
@@ -1241,7 +1316,7 @@ export class Desk365Client implements SupportApiInterface {
    * @returns The mapped ticket attachment
    * @private
    */
-  private mapDeskAttachmentToTicketAttachment(deskAttachment: any): TicketAttachment {
+  private mapDeskAttachmentToTicketAttachment(deskAttachment: Desk365RawTicketAttachment): TicketAttachment {
     return {
       fileName: deskAttachment.file_name,
       fileSize: deskAttachment.file_size,
@@ -1260,96 +1335,105 @@ export class Desk365Client implements SupportApiInterface {
    * @private
    */
   private mapDeskPaginatedResponseToPaginatedTicketsResponse(
-    deskResponse: any,
+    deskResponse: Desk365RawTicketList,
     page: number = 1,
     limit: number = 30
-  ): PaginatedTicketsResponse {
+  ): PaginatedTicketsResponse<TCustom> {
     return {
-      tickets: (deskResponse.tickets || []).map(this.mapDeskTicketToTicket.bind(this)),
-      total: deskResponse.count || 0,
+      tickets: deskResponse.tickets.map(this.mapDeskTicketToTicket.bind(this)),
+      total: deskResponse.count,
       page,
       limit,
-      totalPages: Math.ceil((deskResponse.count || 0) / limit)
+      totalPages: Math.ceil(deskResponse.count / limit)
     };
   }
 
   /**
    * Maps a Desk365 status to our generic TicketStatus
    * @param deskStatus - The Desk365 status
-   * @returns The mapped status
+   * @returns The mapped status (the Desk365 status itself for unmapped values with 'passthrough')
+   * @throws UnmappedValueError if the status is not mapped and the policy is 'throw'
    * @private
    */
   private mapDeskStatusToStatus(deskStatus: string): TicketStatus {
-    // Map Desk365 specific statuses to our generic statuses
-    const statusMap: Record<string, TicketStatus> = {
-      'open': TicketStatus.OPEN,
-      'closed': TicketStatus.CLOSED,
-      'pending': TicketStatus.PENDING,
-      'resolved': TicketStatus.RESOLVED,
-      // Add other status mappings as needed
-    };
-    
-    return statusMap[deskStatus?.toLowerCase()] || TicketStatus.OPEN;
+    const status = this.statusMap[normalizeKey(deskStatus)];
+    if (status) {
+      return status;
+    }
+
+    return this.handleUnmapped('status', deskStatus, this.defaultStatus) as TicketStatus;
   }
 
   /**
    * Maps our generic TicketStatus to Desk365 status
-   * @param status - Our generic status
+   * @param status - Our generic status (or a Desk365 status passed through)
    * @returns The Desk365 status
+   * @throws UnmappedValueError if the status is not mapped and the policy is 'throw'
    * @private
    */
   private mapStatusToDesk365Status(status: TicketStatus): string {
-    // Map our generic statuses to Desk365 specific statuses
-    const statusMap: Record<string, string> = {
-      [TicketStatus.OPEN]: 'open',
-      [TicketStatus.CLOSED]: 'closed',
-      [TicketStatus.PENDING]: 'pending',
-      [TicketStatus.RESOLVED]: 'resolved',
-      // Add other status mappings as needed
-    };
-    
-    return statusMap[status] || 'open';
+    const deskStatus = this.outgoingStatusMap[status];
+    if (deskStatus) {
+      return deskStatus;
+    }
+
+    return String(this.handleUnmapped('status', status, this.outgoingStatusMap[this.defaultStatus]));
   }
 
   /**
    * Maps a Desk365 priority to our generic TicketPriority
    * @param deskPriority - The Desk365 priority
-   * @returns The mapped priority
+   * @returns The mapped priority (the Desk365 priority itself for unmapped values with 'passthrough')
+   * @throws UnmappedValueError if the priority is not mapped and the policy is 'throw'
    * @private
    */
   private mapDeskPriorityToPriority(deskPriority: number | string): TicketPriority {
-    // Convert to number if string
-    const priorityValue = typeof deskPriority === 'string' ? parseInt(deskPriority, 10) : deskPriority;
-    
-    // Map Desk365 specific priorities to our generic priorities
-    // For "Priority": Low=1, Medium=5, High=10, Urgent=20
-    if (priorityValue === 1) return TicketPriority.LOW;
-    if (priorityValue === 5) return TicketPriority.MEDIUM;
-    if (priorityValue === 10) return TicketPriority.HIGH;
-    if (priorityValue === 20) return TicketPriority.URGENT;
-    
-    return TicketPriority.MEDIUM; // Default
+    const priority = this.priorityMap[normalizeKey(deskPriority)];
+    if (priority) {
+      return priority;
+    }
+
+    return this.handleUnmapped('priority', deskPriority, this.defaultPriority) as TicketPriority;
   }
 
   /**
    * Maps our generic TicketPriority to Desk365 priority
-   * @param priority - Our generic priority
+   * @param priority - Our generic priority (or a Desk365 priority passed through)
    * @returns The Desk365 priority value
+   * @throws UnmappedValueError if the priority is not mapped and the policy is 'throw'
    * @private
    */
   private mapPriorityToDesk365Priority(priority?: TicketPriority): number {
-    if (!priority) return 5; // Default to medium
-    
-    // Map our generic priorities to Desk365 specific priorities
-    // For "Priority": Low=1, Medium=5, High=10, Urgent=20
-    const priorityMap: Record<string, number> = {
-      [TicketPriority.LOW]: 1,
-      [TicketPriority.MEDIUM]: 5,
-      [TicketPriority.HIGH]: 10,
-      [TicketPriority.URGENT]: 20,
-    };
-    
-    return priorityMap[priority] || 5;
+    if (!priority) return this.outgoingPriorityMap[this.defaultPriority];
+
+    const deskPriority = this.outgoingPriorityMap[priority];
+    if (deskPriority !== undefined) {
+      return deskPriority;
+    }
+
+    const value = this.handleUnmapped('priority', priority, this.outgoingPriorityMap[this.defaultPriority]);
+    // Desk365 priorities are numeric, so numeric strings passed through are sent as numbers
+    return (typeof value === 'string' && /^\d+$/.test(value) ? Number(value) : value) as number;
+  }
+
+  /**
+   * Applies the unmapped value policy
+   * @param field - The field being mapped
+   * @param value - The value missing from the mapping table
+   * @param fallback - The value used with the 'default' policy
+   * @returns The fallback, or the value itself with the 'passthrough' policy
+   * @throws UnmappedValueError with the 'throw' policy
+   * @private
+   */
+  private handleUnmapped<T extends string | number>(field: 'status' | 'priority', value: string | number, fallback: T): T | string | number {
+    switch (this.unmappedPolicy) {
+      case 'throw':
+        throw new UnmappedValueError(`No Desk365 mapping for ${field} '${value}'`, field, value, { provider: 'desk365' });
+      case 'passthrough':
+        return value;
+      default:
+        return fallback;
+    }
   }
 
   /**
@@ -1359,16 +1443,28 @@ export class Desk365Client implements SupportApiInterface {
   async getApiInfo(): Promise<any> {
     try {
       // Try to get API docs or other endpoint that might help
-      const swaggerResponse = await axios({
+      return await this.send('/api-docs', {
         method: 'GET',
         url: `${this.baseUrl}/api-docs`,
-        headers: this.headers
+        headers: { ...this.headers }
       });
-      
-      return swaggerResponse.data;
     } catch (error) {
-      console.error('Failed to get API info:', error);
+      this.logger.error('Failed to get API info', { error: (error as Error).message });
       return null;
     }
   }
 }
+
+/**
+ * Normalizes a Desk365 status or priority for table lookups (case and surrounding whitespace are ignored)
+ */
+function normalizeKey(value: string | number): string {
+  return String(value ?? '').trim().toLowerCase();
+}
+
+/**
+ * Normalizes the keys of a mapping table
+ */
+function normalizeKeys<T>(table: Record<string, T>): Record<string, T> {
+  return Object.fromEntries(Object.entries(table).map(([key, value]) => [normalizeKey(key), value]));
+}
@@ -0,0 +1,467 @@
+/**
+ * Composite Support Provider
+ * Implements the SupportApiInterface over several providers, with routing and failover
+ */
+
+import {
+  CreateTicketRequest,
+  CustomFields,
+  ListAllTicketsOptions,
+  PaginatedTicketsResponse,
+  SupportApiInterface,
+  Ticket,
+  TicketDetails,
+  TicketFilterOptions,
+  TicketMessage,
+  TicketPriority,
+  TicketResponseRequest,
+  UpdateTicketRequest
+} from './types';
+import { NetworkError, NotFoundError, SupportApiError, ValidationError } from './errors';
+import { Logger, silentLogger } from './logger';
+import { compareTickets } from './memory-provider';
+import { collectTickets } from './pagination';
+
+/**
+ * Picks the provider that receives a new ticket
+ * Returns the provider's name, or undefined to use the default provider
+ */
+export type TicketRouter<TCustom extends CustomFields = CustomFields> = (request: CreateTicketRequest<TCustom>) => string | undefined;
+
+/**
+ * Configuration for the composite provider
+ */
+export interface CompositeSupportApiConfig<TCustom extends CustomFields = CustomFields> {
+  providers: Record<string, SupportApiInterface<TCustom>>; // Providers by name; names prefix ticket IDs (e.g. 'desk365:1234')
+  route?: TicketRouter<TCustom>; // Picks the provider for new tickets (defaults to the first provider)
+  failover?: string[]; // Providers tried in order when the routed provider is unavailable
+  isUnavailable?: (error: unknown) => boolean; // Which errors trigger failover (defaults to network errors and 5xx)
+  logger?: Logger; // Destination for log output (silent by default)
+}
+
+/**
+ * Position of a merged listing in one provider's pages
+ */
+interface ProviderCursor<TCustom extends CustomFields> {
+  name: string;
+  provider: SupportApiInterface<TCustom>;
+  page: number; // Last page fetched (0 before the first fetch)
+  tickets: Ticket<TCustom>[]; // Fetched tickets not merged yet
+  total: number; // Matching tickets reported by the provider
+  done: boolean; // Whether every page has been fetched, or the provider is unavailable
+}
+
+const SEPARATOR = ':';
+
+/**
+ * SupportApiInterface implementation that spreads tickets over several providers
+ *
+ * New tickets go to the provider picked by `route`, falling back to the `failover` providers
+ * when it is unavailable. Ticket IDs are prefixed with the owning provider's name, so reads and
+ * updates go to the owner. Listings merge the results of every provider in sort order.
+ */
+export class CompositeSupportApi<TCustom extends CustomFields = CustomFields> implements SupportApiInterface<TCustom> {
+  private providers: Map<string, SupportApiInterface<TCustom>>;
+  private defaultProvider: string;
+  private route?: TicketRouter<TCustom>;
+  private failover: string[];
+  private isUnavailable: (error: unknown) => boolean;
+  private logger: Logger;
+
+  /**
+   * Creates a new composite provider
+   * @param config - Configuration for the provider
+   * @throws ValidationError if there are no providers, or a provider name is invalid or unknown
+   */
+  constructor(config: CompositeSupportApiConfig<TCustom>) {
+    this.providers = new Map(Object.entries(config.providers));
+
+    if (this.providers.size === 0) {
+      throw new ValidationError('CompositeSupportApi requires at least one provider', { provider: 'composite' });
+    }
+
+    for (const name of [...this.providers.keys(), ...(config.failover || [])]) {
+      if (name.includes(SEPARATOR)) {
+        throw new ValidationError(`Provider name "${name}" must not contain "${SEPARATOR}"`, { provider: 'composite' });
+      }
+      if (!this.providers.has(name)) {
+        throw new ValidationError(`Unknown failover provider: ${name}`, { provider: 'composite' });
+      }
+    }
+
+    this.defaultProvider = this.providers.keys().next().value as string;
+    this.route = config.route;
+    this.failover = config.failover || [];
+    this.isUnavailable = config.isUnavailable || isOutage;
+    this.logger = config.logger || silentLogger;
+  }
+
+  /**
+   * Creates a ticket in the routed provider, failing over when it is unavailable
+   * @param request - The ticket creation request
+   * @returns The created ticket, with a namespaced ID
+   */
+  async createTicket(request: CreateTicketRequest<TCustom>): Promise<Ticket<TCustom>> {
+    const routed = this.route?.(request) || this.defaultProvider;
+    if (!this.providers.has(routed)) {
+      throw new ValidationError(`Ticket routed to unknown provider: ${routed}`, { provider: 'composite' });
+    }
+
+    const candidates = [routed, ...this.failover.filter(name => name !== routed)];
+
+    for (let i = 0; ; i++) {
+      const name = candidates[i];
+      try {
+        const ticket = await this.providers.get(name)!.createTicket(request);
+        return this.namespaceTicket(name, ticket);
+      } catch (error) {
+        if (i === candidates.length - 1 || !this.isUnavailable(error)) {
+          throw error;
+        }
+
+        this.logger.warn('Support provider unavailable, failing over', {
+          provider: name,
+          failover: candidates[i + 1],
+          error: (error as Error).message
+        });
+      }
+    }
+  }
+
+  /**
+   * Lists a user's tickets across every provider
+   * @param userEmail - The email of the user
+   * @param options - Filter options
+   * @returns Merged paginated list of tickets
+   */
+  async listUserTickets(userEmail: string, options: TicketFilterOptions = {}): Promise<PaginatedTicketsResponse<TCustom>> {
+    return this.mergePages(options, (provider, pageOptions) => provider.listUserTickets(userEmail, pageOptions));
+  }
+
+  /**
+   * Lists tickets assigned to an agent across every provider
+   * @param adminEmail - The email of the agent
+   * @param options - Filter options
+   * @returns Merged paginated list of tickets
+   */
+  async listAssignedTickets(adminEmail: string, options: TicketFilterOptions = {}): Promise<PaginatedTicketsResponse<TCustom>> {
+    return this.mergePages(options, (provider, pageOptions) => provider.listAssignedTickets(adminEmail, pageOptions));
+  }
+
+  /**
+   * Searches every provider
+   * @param options - Filter options
+   * @returns Merged paginated list of tickets
+   */
+  async searchTickets(options: TicketFilterOptions): Promise<PaginatedTicketsResponse<TCustom>> {
+    return this.mergePages(options, (provider, pageOptions) => provider.searchTickets(pageOptions));
+  }
+
+  /**
+   * Iterates over the matching tickets of every provider, merged in sort order
+   * Each provider is only asked for more tickets when its next one is due
+   * @param options - Filter options
+   * @returns An async iterator over the matching tickets
+   */
+  async *iterateTickets(options: TicketFilterOptions = {}): AsyncGenerator<Ticket<TCustom>> {
+    const compare = compareTickets(options.sortBy || 'createdAt', options.sortOrder || 'desc');
+    const sources = Array.from(this.providers.entries()).map(([name, provider]) => ({
+      name,
+      iterator: provider.iterateTickets(options)[Symbol.asyncIterator](),
+      head: undefined as Ticket<TCustom> | undefined
+    }));
+
+    try {
+      for (const source of sources) {
+        source.head = await this.nextTicket(source.name, source.iterator);
+      }
+
+      while (true) {
+        let next: typeof sources[number] | undefined;
+        for (const source of sources) {
+          if (source.head && (!next || compare(source.head, next.head!) < 0)) {
+            next = source;
+          }
+        }
+
+        if (!next) {
+          return;
+        }
+
+        yield next.head!;
+        next.head = await this.nextTicket(next.name, next.iterator);
+      }
+    } finally {
+      // Stop the providers' iterators when the caller stops early
+      await Promise.all(sources.map(source => source.iterator.return?.()));
+    }
+  }
+
+  /**
+   * Collects every matching ticket of every provider
+   * @param options - Filter options
+   * @param limits - Limits for the collection (e.g. the maximum number of tickets)
+   * @returns The matching tickets, in sort order
+   */
+  async listAllTickets(options: TicketFilterOptions = {}, limits: ListAllTicketsOptions = {}): Promise<Ticket<TCustom>[]> {
+    return collectTickets(this.iterateTickets(options), limits.max);
+  }
+
+  /**
+   * Gets the details of a ticket from its owner
+   * @param ticketId - The namespaced ID of the ticket
+   * @returns The ticket details including conversation
+   */
+  async getTicketDetails(ticketId: string): Promise<TicketDetails<TCustom>> {
+    const { name, provider, id } = this.resolve(ticketId);
+    const details = await provider.getTicketDetails(id);
+
+    return {
+      ...this.namespaceTicket(name, details),
+      conversation: details.conversation.map(message => this.namespaceMessage(name, message))
+    };
+  }
+
+  /**
+   * Gets the conversation of a ticket from its owner
+   * @param ticketId - The namespaced ID of the ticket
+   * @returns The list of messages for the ticket
+   */
+  async getTicketConversations(ticketId: string): Promise<TicketMessage[]> {
+    const { name, provider, id } = this.resolve(ticketId);
+    const conversation = await provider.getTicketConversations(id);
+    return conversation.map(message => this.namespaceMessage(name, message));
+  }
+
+  /**
+   * Responds to a ticket through its owner
+   * @param request - The response request, with a namespaced ticket ID
+   * @returns The created ticket message
+   */
+  async respondToTicket(request: TicketResponseRequest): Promise<TicketMessage> {
+    const { name, provider, id } = this.resolve(request.ticketId);
+    const message = await provider.respondToTicket({ ...request, ticketId: id });
+    return this.namespaceMessage(name, message);
+  }
+
+  /**
+   * Closes a ticket through its owner
+   * @param ticketId - The namespaced ID of the ticket
+   * @returns The updated ticket
+   */
+  async closeTicket(ticketId: string): Promise<Ticket<TCustom>> {
+    const { name, provider, id } = this.resolve(ticketId);
+    return this.namespaceTicket(name, await provider.closeTicket(id));
+  }
+
+  /**
+   * Reopens a ticket through its owner
+   * @param ticketId - The namespaced ID of the ticket
+   * @returns The updated ticket
+   */
+  async reopenTicket(ticketId: string): Promise<Ticket<TCustom>> {
+    const { name, provider, id } = this.resolve(ticketId);
+    return this.namespaceTicket(name, await provider.reopenTicket(id));
+  }
+
+  /**
+   * Assigns a ticket through its owner
+   * @param ticketId - The namespaced ID of the ticket
+   * @param assignTo - The email of the agent to assign the ticket to
+   * @returns The updated ticket
+   */
+  async assignTicket(ticketId: string, assignTo: string): Promise<Ticket<TCustom>> {
+    const { name, provider, id } = this.resolve(ticketId);
+    return this.namespaceTicket(name, await provider.assignTicket(id, assignTo));
+  }
+
+  /**
+   * Escalates a ticket through its owner
+   * @param ticketId - The namespaced ID of the ticket
+   * @param priority - The new priority
+   * @returns The updated ticket
+   */
+  async escalateTicket(ticketId: string, priority: TicketPriority): Promise<Ticket<TCustom>> {
+    const { name, provider, id } = this.resolve(ticketId);
+    return this.namespaceTicket(name, await provider.escalateTicket(id, priority));
+  }
+
+  /**
+   * Updates a ticket through its owner
+   * @param request - The update request, with a namespaced ticket ID
+   * @returns The updated ticket
+   */
+  async updateTicket(request: UpdateTicketRequest<TCustom>): Promise<Ticket<TCustom>> {
+    const { name, provider, id } = this.resolve(request.ticketId);
+    return this.namespaceTicket(name, await provider.updateTicket({ ...request, ticketId: id }));
+  }
+
+  /**
+   * Splits a namespaced ticket ID into its owner and the provider's own ID
+   * @param ticketId - The namespaced ID (e.g. 'desk365:1234')
+   * @returns The owner's name, the owner and the provider's ID
+   * @private
+   */
+  private resolve(ticketId: string): { name: string; provider: SupportApiInterface<TCustom>; id: string } {
+    const separator = ticketId.indexOf(SEPARATOR);
+    const name = separator > 0 ? ticketId.slice(0, separator) : '';
+    const provider = this.providers.get(name);
+
+    if (!provider) {
+      throw new NotFoundError(`Ticket ${ticketId} not found: IDs must start with a provider name (${Array.from(this.providers.keys()).join(', ')})`, {
+        provider: 'composite',
+        status: 404
+      });
+    }
+
+    return { name, provider, id: ticketId.slice(separator + 1) };
+  }
+
+  /**
+   * Fetches a page of the merged listing
+   * Each provider's pages are read in order, `limit` tickets at a time, and only while its next
+   * ticket may still land on the requested page; the tickets before the page are skipped
+   * Unavailable providers are skipped with a warning so that the others still answer
+   * @param options - Filter options
+   * @param fetchPage - Fetches a page from one provider
+   * @returns Merged paginated list of tickets
+   * @private
+   */
+  private async mergePages(
+    options: TicketFilterOptions,
+    fetchPage: (provider: SupportApiInterface<TCustom>, options: TicketFilterOptions) => Promise<PaginatedTicketsResponse<TCustom>>
+  ): Promise<PaginatedTicketsResponse<TCustom>> {
+    const page = Math.max(1, options.page || 1);
+    const limit = Math.max(1, options.limit || 30);
+    const compare = compareTickets(options.sortBy || 'createdAt', options.sortOrder || 'desc');
+    const cursors: ProviderCursor<TCustom>[] = Array.from(this.providers.entries()).map(([name, provider]) => ({
+      name,
+      provider,
+      page: 0,
+      tickets: [],
+      total: 0,
+      done: false
+    }));
+
+    const tickets: Ticket<TCustom>[] = [];
+    for (let position = 0; position < page * limit; position++) {
+      // Drained providers fetch their next page only when another ticket is needed
+      await Promise.all(cursors
+        .filter(cursor => cursor.tickets.length === 0)
+        .map(cursor => this.fetchNextPage(cursor, options, limit, fetchPage)));
+
+      let next: ProviderCursor<TCustom> | undefined;
+      for (const cursor of cursors) {
+        if (cursor.tickets.length > 0 && (!next || compare(cursor.tickets[0], next.tickets[0]) < 0)) {
+          next = cursor;
+        }
+      }
+
+      if (!next) {
+        break;
+      }
+
+      const ticket = next.tickets.shift()!;
+      if (position >= (page - 1) * limit) {
+        tickets.push(ticket);
+      }
+    }
+
+    const total = cursors.reduce((sum, cursor) => sum + cursor.total, 0);
+
+    return {
+      tickets,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit)
+    };
+  }
+
+  /**
+   * Fetches the next page of a provider into its cursor
+   * @param cursor - The provider's cursor
+   * @param options - Filter options
+   * @param limit - The page size
+   * @param fetchPage - Fetches a page from one provider
+   * @private
+   */
+  private async fetchNextPage(
+    cursor: ProviderCursor<TCustom>,
+    options: TicketFilterOptions,
+    limit: number,
+    fetchPage: (provider: SupportApiInterface<TCustom>, options: TicketFilterOptions) => Promise<PaginatedTicketsResponse<TCustom>>
+  ): Promise<void> {
+    if (cursor.done) {
+      return;
+    }
+
+    cursor.page++;
+    try {
+      const response = await fetchPage(cursor.provider, { ...options, page: cursor.page, limit });
+      cursor.total = response.total;
+      cursor.tickets = response.tickets.map(ticket => this.namespaceTicket(cursor.name, ticket));
+      cursor.done = response.tickets.length === 0 || cursor.page >= response.totalPages;
+    } catch (error) {
+      if (!this.isUnavailable(error)) {
+        throw error;
+      }
+
+      this.logger.warn('Support provider unavailable, leaving it out of the listing', {
+        provider: cursor.name,
+        error: (error as Error).message
+      });
+      cursor.done = true;
+    }
+  }
+
+  /**
+   * Advances a provider's iterator
+   * An unavailable provider is treated as exhausted, with a warning, so that the others still answer
+   * @private
+   */
+  private async nextTicket(name: string, iterator: AsyncIterator<Ticket<TCustom>>): Promise<Ticket<TCustom> | undefined> {
+    let result: IteratorResult<Ticket<TCustom>>;
+    try {
+      result = await iterator.next();
+    } catch (error) {
+      if (!this.isUnavailable(error)) {
+        throw error;
+      }
+
+      this.logger.warn('Support provider unavailable, leaving it out of the listing', {
+        provider: name,
+        error: (error as Error).message
+      });
+      return undefined;
+    }
+
+    return result.done ? undefined : this.namespaceTicket(name, result.value);
+  }
+
+  /**
+   * Prefixes a ticket's ID with its provider's name
+   * @private
+   */
+  private namespaceTicket<T extends Ticket<TCustom>>(name: string, ticket: T): T {
+    return { ...ticket, id: `${name}${SEPARATOR}${ticket.id}` };
+  }
+
+  /**
+   * Prefixes a message's ticket ID with its provider's name
+   * @private
+   */
+  private namespaceMessage(name: string, message: TicketMessage): TicketMessage {
+    return { ...message, ticketId: `${name}${SEPARATOR}${message.ticketId}` };
+  }
+}
+
+/**
+ * Default failover test: the provider could not be reached or failed on its side
+ * @param error - The error raised by the provider
+ * @returns Whether another provider should be tried
+ */
+function isOutage(error: unknown): boolean {
+  return error instanceof NetworkError ||
+    (error instanceof SupportApiError && error.status !== undefined && error.status >= 500);
+}
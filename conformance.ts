@@ -0,0 +1,304 @@
+/**
+ * Support API Conformance Tests
+ * Reusable Jest suite proving that a SupportApiInterface implementation behaves like the built-in providers
+ */
+
+import {
+  PaginatedTicketsResponse,
+  SupportApiInterface,
+  Ticket,
+  TicketMessage,
+  TicketPriority,
+  TicketStatus
+} from './types';
+import { NotFoundError } from './errors';
+
+/**
+ * Options for the conformance suite
+ */
+export interface SupportApiConformanceOptions {
+  name?: string; // Name of the describe block (defaults to 'SupportApiInterface conformance')
+  agentEmail?: string; // Agent used for staff replies and assignments (defaults to 'agent@example.com')
+  teardown?: (api: SupportApiInterface) => void | Promise<void>; // Called after each test
+  skip?: string[]; // Names of tests to skip, for documented provider limitations
+}
+
+/**
+ * Creates a fresh implementation for each test
+ */
+export type SupportApiFactory = () => SupportApiInterface | Promise<SupportApiInterface>;
+
+const STATUSES = Object.values(TicketStatus);
+const PRIORITIES = Object.values(TicketPriority);
+
+/**
+ * Asserts that a value has the normalized Ticket shape
+ * @param ticket - The value to check
+ */
+function expectTicketShape(ticket: Ticket): void {
+  expect(ticket).toEqual(expect.objectContaining({
+    id: expect.any(String),
+    subject: expect.any(String),
+    description: expect.any(String),
+    userEmail: expect.any(String),
+    createdAt: expect.any(String),
+    updatedAt: expect.any(String)
+  }));
+  expect(ticket.id).not.toBe('');
+  expect(STATUSES).toContain(ticket.status);
+  expect(PRIORITIES).toContain(ticket.priority);
+  expect(isNaN(Date.parse(ticket.createdAt))).toBe(false);
+  expect(isNaN(Date.parse(ticket.updatedAt))).toBe(false);
+
+  if (ticket.assignedTo !== undefined && ticket.assignedTo !== null) {
+    expect(typeof ticket.assignedTo).toBe('string');
+  }
+
+  for (const attachment of ticket.attachments || []) {
+    expect(attachment).toEqual(expect.objectContaining({
+      fileName: expect.any(String),
+      fileSize: expect.any(Number),
+      url: expect.any(String)
+    }));
+  }
+}
+
+/**
+ * Asserts that a value has the normalized TicketMessage shape
+ * @param message - The value to check
+ * @param ticketId - The ticket the message belongs to
+ */
+function expectMessageShape(message: TicketMessage, ticketId: string): void {
+  expect(message).toEqual(expect.objectContaining({
+    id: expect.any(String),
+    ticketId,
+    message: expect.any(String),
+    sender: expect.any(String),
+    isStaff: expect.any(Boolean),
+    createdAt: expect.any(String)
+  }));
+  expect(isNaN(Date.parse(message.createdAt))).toBe(false);
+}
+
+/**
+ * Asserts that a value has the normalized PaginatedTicketsResponse shape
+ * @param response - The value to check
+ */
+function expectPageShape(response: PaginatedTicketsResponse): void {
+  expect(response).toEqual(expect.objectContaining({
+    tickets: expect.any(Array),
+    total: expect.any(Number),
+    page: expect.any(Number),
+    limit: expect.any(Number),
+    totalPages: expect.any(Number)
+  }));
+  expect(response.tickets.length).toBeLessThanOrEqual(response.limit);
+  expect(response.totalPages).toBe(Math.ceil(response.total / response.limit));
+  response.tickets.forEach(expectTicketShape);
+}
+
+/**
+ * Registers a Jest suite that exercises every SupportApiInterface method against an implementation
+ * Must be called at the top level of a test file (it uses Jest's describe/it/expect globals)
+ * Each test works on tickets it creates for its own user, so implementations backed by a shared store can pass
+ * @param factory - Creates the implementation under test (called before each test)
+ * @param options - Suite name, agent email, teardown and skipped tests
+ */
+export function runSupportApiConformanceTests(factory: SupportApiFactory, options: SupportApiConformanceOptions = {}): void {
+  const agentEmail = options.agentEmail || 'agent@example.com';
+  const skipped = new Set(options.skip || []);
+  const test = (name: string, body: () => Promise<void>) => (skipped.has(name) ? it.skip : it)(name, body);
+
+  describe(options.name || 'SupportApiInterface conformance', () => {
+    let api: SupportApiInterface;
+    let userEmail: string;
+    let sequence = 0;
+
+    const createTicket = (subject: string, priority: TicketPriority = TicketPriority.MEDIUM) =>
+      api.createTicket({
+        subject,
+        description: `Description of ${subject}`,
+        priority,
+        userEmail
+      });
+
+    beforeEach(async () => {
+      api = await factory();
+      userEmail = `conformance-${Date.now()}-${++sequence}@example.com`;
+    });
+
+    afterEach(async () => {
+      await options.teardown?.(api);
+    });
+
+    test('createTicket returns the new ticket', async () => {
+      const ticket = await createTicket('Created ticket', TicketPriority.HIGH);
+
+      expectTicketShape(ticket);
+      expect(ticket).toMatchObject({
+        subject: 'Created ticket',
+        description: 'Description of Created ticket',
+        status: TicketStatus.OPEN,
+        priority: TicketPriority.HIGH,
+        userEmail
+      });
+    });
+
+    test('listUserTickets returns only the user\'s tickets, newest first', async () => {
+      const first = await createTicket('First ticket');
+      const second = await createTicket('Second ticket');
+
+      const response = await api.listUserTickets(userEmail);
+
+      expectPageShape(response);
+      expect(response.total).toBe(2);
+      expect(response.page).toBe(1);
+      expect(response.tickets.map(ticket => ticket.id)).toEqual([second.id, first.id]);
+    });
+
+    test('listUserTickets pages through results', async () => {
+      const created: Ticket[] = [];
+      for (let i = 0; i < 3; i++) {
+        created.push(await createTicket(`Paged ticket ${i}`));
+      }
+
+      const firstPage = await api.listUserTickets(userEmail, { page: 1, limit: 2, sortBy: 'createdAt', sortOrder: 'asc' });
+      const secondPage = await api.listUserTickets(userEmail, { page: 2, limit: 2, sortBy: 'createdAt', sortOrder: 'asc' });
+
+      expectPageShape(firstPage);
+      expectPageShape(secondPage);
+      expect(firstPage).toMatchObject({ total: 3, page: 1, limit: 2, totalPages: 2 });
+      expect(secondPage).toMatchObject({ total: 3, page: 2, limit: 2, totalPages: 2 });
+      expect([...firstPage.tickets, ...secondPage.tickets].map(ticket => ticket.id))
+        .toEqual(created.map(ticket => ticket.id));
+    });
+
+    test('searchTickets applies filters', async () => {
+      const open = await createTicket('Open ticket');
+      const closed = await createTicket('Closed ticket');
+      await api.closeTicket(closed.id);
+
+      const response = await api.searchTickets({ userEmail, status: TicketStatus.CLOSED });
+
+      expectPageShape(response);
+      expect(response.tickets.map(ticket => ticket.id)).toEqual([closed.id]);
+      expect(response.tickets.map(ticket => ticket.id)).not.toContain(open.id);
+    });
+
+    test('getTicketDetails returns the ticket with its conversation', async () => {
+      const ticket = await createTicket('Detailed ticket');
+      await api.respondToTicket({ ticketId: ticket.id, message: 'Customer follow-up' });
+
+      const details = await api.getTicketDetails(ticket.id);
+
+      expectTicketShape(details);
+      expect(details).toMatchObject({ id: ticket.id, subject: 'Detailed ticket', userEmail });
+      expect(details.conversation).toHaveLength(1);
+      details.conversation.forEach(message => expectMessageShape(message, ticket.id));
+    });
+
+    test('getTicketDetails rejects unknown tickets with NotFoundError', async () => {
+      await expect(api.getTicketDetails('999999999')).rejects.toThrow(NotFoundError);
+    });
+
+    test('respondToTicket records customer and agent replies', async () => {
+      const ticket = await createTicket('Replied ticket');
+
+      const customerReply = await api.respondToTicket({ ticketId: ticket.id, message: 'Any news?' });
+      const agentReply = await api.respondToTicket({ ticketId: ticket.id, message: 'On it', agentEmail });
+
+      expectMessageShape(customerReply, ticket.id);
+      expectMessageShape(agentReply, ticket.id);
+      expect(customerReply).toMatchObject({ message: 'Any news?', sender: userEmail, isStaff: false });
+      expect(agentReply).toMatchObject({ message: 'On it', sender: agentEmail, isStaff: true });
+    });
+
+    test('getTicketConversations returns messages oldest first', async () => {
+      const ticket = await createTicket('Conversation ticket');
+      await api.respondToTicket({ ticketId: ticket.id, message: 'First message' });
+      await api.respondToTicket({ ticketId: ticket.id, message: 'Second message', agentEmail });
+
+      const conversation = await api.getTicketConversations(ticket.id);
+
+      conversation.forEach(message => expectMessageShape(message, ticket.id));
+      expect(conversation.map(message => [message.message, message.isStaff])).toEqual([
+        ['First message', false],
+        ['Second message', true]
+      ]);
+    });
+
+    test('closeTicket and reopenTicket change the status', async () => {
+      const ticket = await createTicket('Closed and reopened ticket');
+
+      const closed = await api.closeTicket(ticket.id);
+      expectTicketShape(closed);
+      expect(closed).toMatchObject({ id: ticket.id, status: TicketStatus.CLOSED });
+
+      const reopened = await api.reopenTicket(ticket.id);
+      expectTicketShape(reopened);
+      expect(reopened).toMatchObject({ id: ticket.id, status: TicketStatus.OPEN });
+    });
+
+    test('assignTicket sets the assignee and listAssignedTickets finds the ticket', async () => {
+      const assignee = `assignee-${userEmail}`;
+      const ticket = await createTicket('Assigned ticket');
+
+      const assigned = await api.assignTicket(ticket.id, assignee);
+      expectTicketShape(assigned);
+      expect(assigned).toMatchObject({ id: ticket.id, assignedTo: assignee });
+
+      const response = await api.listAssignedTickets(assignee);
+      expectPageShape(response);
+      expect(response.tickets.map(item => item.id)).toEqual([ticket.id]);
+    });
+
+    test('escalateTicket changes the priority', async () => {
+      const ticket = await createTicket('Escalated ticket', TicketPriority.LOW);
+
+      const escalated = await api.escalateTicket(ticket.id, TicketPriority.URGENT);
+
+      expectTicketShape(escalated);
+      expect(escalated).toMatchObject({ id: ticket.id, priority: TicketPriority.URGENT });
+    });
+
+    test('updateTicket changes several fields at once', async () => {
+      const ticket = await createTicket('Updated ticket');
+
+      const updated = await api.updateTicket({
+        ticketId: ticket.id,
+        status: TicketStatus.PENDING,
+        priority: TicketPriority.HIGH,
+        assignedTo: agentEmail
+      });
+
+      expectTicketShape(updated);
+      expect(updated).toMatchObject({
+        id: ticket.id,
+        status: TicketStatus.PENDING,
+        priority: TicketPriority.HIGH,
+        assignedTo: agentEmail
+      });
+
+      const details = await api.getTicketDetails(ticket.id);
+      expect(details).toMatchObject({ status: TicketStatus.PENDING, priority: TicketPriority.HIGH });
+    });
+
+    test('iterateTickets and listAllTickets walk every matching ticket', async () => {
+      const created: Ticket[] = [];
+      for (let i = 0; i < 3; i++) {
+        created.push(await createTicket(`Iterated ticket ${i}`));
+      }
+
+      const iterated: Ticket[] = [];
+      for await (const ticket of api.iterateTickets({ userEmail, sortBy: 'createdAt', sortOrder: 'asc' })) {
+        expectTicketShape(ticket);
+        iterated.push(ticket);
+      }
+
+      expect(iterated.map(ticket => ticket.id)).toEqual(created.map(ticket => ticket.id));
+
+      const limited = await api.listAllTickets({ userEmail, sortBy: 'createdAt', sortOrder: 'asc' }, { max: 2 });
+      expect(limited.map(ticket => ticket.id)).toEqual(created.slice(0, 2).map(ticket => ticket.id));
+    });
+  });
+}
@@ -0,0 +1,239 @@
+/**
+ * Support API Custom Fields
+ * Converts custom field names and values between a provider and the generic ticket model,
+ * and checks values against the provider's field definitions
+ */
+
+import { CustomFieldIssue } from './errors';
+
+/**
+ * Type of a custom field, which decides how its values are converted
+ */
+export type CustomFieldType = 'text' | 'number' | 'boolean' | 'date' | 'dropdown' | 'multiselect';
+
+/**
+ * Value of a custom field after conversion
+ * Dates become Date objects and multi-select values become string arrays
+ */
+export type CustomFieldValue = string | number | boolean | Date | string[] | null;
+
+/**
+ * Definition of a custom field, as configured in the provider
+ */
+export interface CustomFieldDefinition {
+  name: string; // Generic name (translated by the codec, if any)
+  label?: string; // Name shown in the provider's interface
+  type: CustomFieldType;
+  required: boolean; // Whether new tickets must set the field
+  options?: string[]; // Allowed values of dropdown and multi-select fields
+}
+
+/**
+ * Translates custom field names between the generic model and a provider (e.g. 'plan' ↔ 'cf_plan')
+ */
+export interface CustomFieldCodec {
+  toProviderName(name: string): string; // Generic name → provider name
+  fromProviderName(providerName: string): string; // Provider name → generic name
+}
+
+/**
+ * Options for converting custom fields
+ */
+export interface CustomFieldOptions {
+  types?: Record<string, CustomFieldType>; // Field types by generic name (fields without a type are passed through)
+  codec?: CustomFieldCodec; // Name translation (names are kept as is if omitted)
+}
+
+/**
+ * Creates a codec that adds a prefix to generic names and strips it from provider names
+ * @param prefix - The provider's prefix (e.g. 'cf_')
+ * @returns The codec
+ */
+export function prefixCustomFieldCodec(prefix: string): CustomFieldCodec {
+  return {
+    toProviderName: name => name.startsWith(prefix) ? name : `${prefix}${name}`,
+    fromProviderName: providerName => providerName.startsWith(prefix) ? providerName.slice(prefix.length) : providerName
+  };
+}
+
+/**
+ * Creates a codec that translates names through a table, e.g. to the numeric field IDs Zendesk uses
+ * Names missing from the table are kept as is
+ * @param providerNames - Provider name of each generic name (e.g. { plan: '360001234567' })
+ * @returns The codec
+ */
+export function mappedCustomFieldCodec(providerNames: Record<string, string>): CustomFieldCodec {
+  const names = new Map(Object.entries(providerNames).map(([name, providerName]) => [providerName, name]));
+
+  return {
+    toProviderName: name => providerNames[name] ?? name,
+    fromProviderName: providerName => names.get(providerName) ?? providerName
+  };
+}
+
+/**
+ * Converts custom fields read from a provider to the generic model
+ * @param raw - The provider's custom fields, keyed by provider name
+ * @param options - Field types and name translation
+ * @returns The converted fields, keyed by generic name
+ */
+export function decodeCustomFields(
+  raw: Record<string, unknown>,
+  options: CustomFieldOptions = {}
+): Record<string, CustomFieldValue> {
+  const fields: Record<string, CustomFieldValue> = {};
+
+  for (const [providerName, value] of Object.entries(raw)) {
+    const name = options.codec ? options.codec.fromProviderName(providerName) : providerName;
+    fields[name] = decodeValue(value, options.types?.[name]);
+  }
+
+  return fields;
+}
+
+/**
+ * Converts custom fields from the generic model to the values sent to a provider
+ * @param fields - The custom fields, keyed by generic name
+ * @param options - Field types and name translation
+ * @returns The fields to send, keyed by provider name
+ */
+export function encodeCustomFields(
+  fields: Record<string, unknown>,
+  options: CustomFieldOptions = {}
+): Record<string, unknown> {
+  const encoded: Record<string, unknown> = {};
+
+  for (const [name, value] of Object.entries(fields)) {
+    if (value === undefined) continue;
+
+    const providerName = options.codec ? options.codec.toProviderName(name) : name;
+    encoded[providerName] = encodeValue(value, options.types?.[name]);
+  }
+
+  return encoded;
+}
+
+/**
+ * Checks custom field values against field definitions
+ * @param fields - The custom fields, keyed by generic name
+ * @param definitions - The provider's field definitions
+ * @param options - Set partial for updates, where missing required fields are not an error
+ * @returns Every problem found (empty if the fields are valid)
+ */
+export function validateCustomFields(
+  fields: Record<string, unknown>,
+  definitions: CustomFieldDefinition[],
+  options: { partial?: boolean } = {}
+): CustomFieldIssue[] {
+  const issues: CustomFieldIssue[] = [];
+  const byName = new Map(definitions.map(definition => [definition.name, definition]));
+
+  for (const [field, value] of Object.entries(fields)) {
+    const definition = byName.get(field);
+    if (!definition) {
+      issues.push({ field, problem: 'unknown', message: `'${field}' is not a custom field` });
+    } else if (!isEmpty(value)) {
+      issues.push(...checkValue(definition, value));
+    }
+  }
+
+  for (const definition of definitions) {
+    const value = fields[definition.name];
+    const cleared = value !== undefined && isEmpty(value);
+    if (definition.required && (options.partial ? cleared : isEmpty(value))) {
+      issues.push({ field: definition.name, problem: 'required', message: `'${definition.name}' is required` });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Checks the type and options of a value that is set
+ */
+function checkValue(definition: CustomFieldDefinition, value: unknown): CustomFieldIssue[] {
+  const { name, type, options } = definition;
+  const typeIssue = (): CustomFieldIssue[] => [{ field: name, problem: 'type', message: `'${name}' must be a ${type} value` }];
+
+  switch (type) {
+    case 'text':
+      return typeof value === 'string' ? [] : typeIssue();
+    case 'number': {
+      // Numeric strings are accepted, as customFields used to be string-only
+      const number = typeof value === 'number' ? value : typeof value === 'string' && value.trim() ? Number(value) : NaN;
+      return Number.isFinite(number) ? [] : typeIssue();
+    }
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : typeIssue();
+    case 'date':
+      return (value instanceof Date && !Number.isNaN(value.getTime())) ||
+        (typeof value === 'string' && !Number.isNaN(Date.parse(value))) ? [] : typeIssue();
+    case 'dropdown':
+      if (typeof value !== 'string') return typeIssue();
+      return options && !options.includes(value) ? [optionIssue(name, value, options)] : [];
+    case 'multiselect':
+      if (!Array.isArray(value) || value.some(option => typeof option !== 'string')) return typeIssue();
+      return options ? value.filter(option => !options.includes(option)).map(option => optionIssue(name, option, options)) : [];
+  }
+}
+
+/**
+ * Describes a value that is not one of a field's options
+ */
+function optionIssue(field: string, value: string, options: string[]): CustomFieldIssue {
+  return { field, problem: 'option', message: `'${value}' is not an option of '${field}' (allowed: ${options.join(', ')})` };
+}
+
+/**
+ * Whether a value leaves a field unset
+ */
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Converts one value read from a provider
+ * Values that cannot be converted to the declared type are returned as received
+ */
+function decodeValue(value: unknown, type?: CustomFieldType): CustomFieldValue {
+  if (value === undefined || value === null) return null;
+  if (!type) return value as CustomFieldValue;
+  if (value === '' && type !== 'text') return null;
+
+  switch (type) {
+    case 'text':
+      return String(value);
+    case 'number': {
+      const number = typeof value === 'number' ? value : Number(String(value).trim());
+      return Number.isFinite(number) ? number : value as CustomFieldValue;
+    }
+    case 'boolean': {
+      const normalized = String(value).trim().toLowerCase();
+      if (['true', '1', 'yes', 'on'].includes(normalized)) return true;
+      if (['false', '0', 'no', 'off'].includes(normalized)) return false;
+      return value as CustomFieldValue;
+    }
+    case 'date': {
+      if (typeof value !== 'string' && typeof value !== 'number') return value as CustomFieldValue;
+      const date = new Date(value);
+      return Number.isNaN(date.getTime()) ? value : date;
+    }
+    case 'dropdown':
+      return typeof value === 'number' ? String(value) : value as CustomFieldValue;
+    case 'multiselect':
+      if (Array.isArray(value)) return value.map(String);
+      return String(value).split(',').map(option => option.trim()).filter(Boolean);
+  }
+}
+
+/**
+ * Converts one value sent to a provider
+ */
+function encodeValue(value: unknown, type?: CustomFieldType): unknown {
+  if (value instanceof Date) {
+    // Date fields only hold the day
+    return type === 'date' ? value.toISOString().slice(0, 10) : value.toISOString();
+  }
+
+  return value;
+}
@@ -0,0 +1,643 @@
+/**
+ * Fake Desk365 Server
+ * Local stand-in for the Desk365 v3 API, for contract and end-to-end tests of Desk365Client
+ *
+ * Node.js only: import it from 'allumni-support-api-wrapper/dist/desk365-fake-server'
+ */
+
+import http, { IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+
+/**
+ * Raw Desk365 ticket as stored and returned by the fake server (snake_case)
+ */
+export interface FakeDesk365Ticket {
+  ticket_number: number;
+  subject: string;
+  description: string;
+  status: string;
+  priority: number;
+  contact_email: string;
+  assign_to?: string;
+  type?: string;
+  group?: string;
+  category?: string;
+  sub_category?: string;
+  source?: string;
+  tags?: string[];
+  custom_fields?: Record<string, unknown>;
+  created_on: string;
+  updated_on: string;
+  attachments?: Array<{
+    file_name: string;
+    file_size: number;
+    file_type: string;
+    created_on: string;
+    attachment_url: string;
+  }>;
+}
+
+/**
+ * Raw Desk365 conversation entry as stored and returned by the fake server (snake_case)
+ */
+export interface FakeDesk365Conversation {
+  ticket_number: number;
+  created_by: string;
+  creator_name: string;
+  type: 'reply' | 'note';
+  sender_type: 'agent' | 'contact';
+  public_note: string | null;
+  cc_address: string | null;
+  bcc_address: string | null;
+  to_address: string | null;
+  notified_agents: string | null;
+  body: string;
+  body_text: string;
+  attachments_count: number;
+  attachments: Array<{
+    id: string;
+    filename: string;
+    size: number;
+    content_type: string;
+    url: string;
+  }>;
+  created_on: string;
+  is_email_deliveribility_failiure: boolean;
+  email_bounce_type: string | null;
+  email_bouce_status: string | null;
+}
+
+/**
+ * Raw Desk365 ticket custom field definition returned by the fake server (snake_case)
+ */
+export interface FakeDesk365CustomField {
+  name: string; // API name (e.g. 'cf_plan')
+  label: string;
+  type: string; // e.g. 'text', 'number', 'dropdown'
+  required: boolean;
+  options?: string[];
+}
+
+/**
+ * Fault injected into matching requests
+ */
+export interface FakeDesk365Fault {
+  method?: string; // Only match this HTTP method (any method if omitted)
+  path?: string | RegExp; // Only match this path, e.g. '/v3/tickets/update' (any path if omitted)
+  status?: number; // Respond with this status instead of handling the request
+  body?: unknown; // Response body for the injected status (defaults to a Desk365-style message)
+  retryAfter?: number; // Retry-After header value in seconds
+  latencyMs?: number; // Delay before responding
+  times?: number; // Number of requests the fault applies to (every request if omitted)
+}
+
+/**
+ * Request received by the fake server, recorded for assertions
+ */
+export interface FakeDesk365Request {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  headers: Record<string, string | string[] | undefined>;
+  body?: unknown; // Parsed JSON body, or the multipart fields (files as { name, size, type })
+}
+
+/**
+ * Configuration for the fake server
+ */
+export interface FakeDesk365ServerOptions {
+  apiKey?: string; // Expected Authorization header (defaults to 'test-api-key')
+  port?: number; // Port to listen on (defaults to a random free port)
+  latencyMs?: number; // Delay applied to every response
+  faults?: FakeDesk365Fault[];
+  tickets?: FakeDesk365Ticket[];
+  conversations?: FakeDesk365Conversation[];
+  customFields?: FakeDesk365CustomField[]; // Definitions returned by GET /v3/tickets/custom_fields (none by default)
+}
+
+interface RouteResult {
+  status: number;
+  body: unknown;
+}
+
+type RouteHandler = (request: FakeDesk365Request) => RouteResult;
+
+const ALLOWED_TICKET_COUNTS = [30, 50, 100];
+
+/**
+ * Small HTTP server implementing the Desk365 v3 endpoints used by Desk365Client
+ */
+export class FakeDesk365Server {
+  private server: http.Server | null = null;
+  private apiKey: string;
+  private port: number;
+  private latencyMs: number;
+  private faults: FakeDesk365Fault[];
+  private tickets = new Map<number, FakeDesk365Ticket>();
+  private conversations: FakeDesk365Conversation[];
+  private customFields: FakeDesk365CustomField[];
+  private nextTicketNumber = 1;
+  private nextAttachmentId = 1;
+  private recorded: FakeDesk365Request[] = [];
+  private routes: Record<string, RouteHandler>;
+
+  /**
+   * Creates a new fake server (call start() to listen)
+   * @param options - Configuration for the server
+   */
+  constructor(options: FakeDesk365ServerOptions = {}) {
+    this.apiKey = options.apiKey ?? 'test-api-key';
+    this.port = options.port ?? 0;
+    this.latencyMs = options.latencyMs ?? 0;
+    this.faults = (options.faults || []).map(fault => ({ ...fault }));
+    this.conversations = (options.conversations || []).map(conversation => ({ ...conversation }));
+    this.customFields = (options.customFields || []).map(field => ({ ...field }));
+
+    for (const ticket of options.tickets || []) {
+      this.tickets.set(ticket.ticket_number, { ...ticket });
+      this.nextTicketNumber = Math.max(this.nextTicketNumber, ticket.ticket_number + 1);
+    }
+
+    this.routes = {
+      'GET /v3/ping': () => ({ status: 200, body: { message: 'pong' } }),
+      'GET /v3/tickets': request => this.listTickets(request),
+      'GET /v3/tickets/details': request => this.getTicketDetails(request),
+      'GET /v3/tickets/conversations': request => this.getConversations(request),
+      'GET /v3/tickets/custom_fields': () => ({ status: 200, body: { custom_fields: this.customFields } }),
+      'POST /v3/tickets/add_reply': request => this.addConversation(request, 'reply', request.body),
+      'POST /v3/tickets/add_note': request => this.addConversation(request, 'note', request.body),
+      'POST /v3/tickets/add_reply_with_attachment': request =>
+        this.addConversation(request, 'reply', this.parseObjectField(request, 'reply_object')),
+      'POST /v3/tickets/add_note_with_attachment': request =>
+        this.addConversation(request, 'note', this.parseObjectField(request, 'note_object')),
+      'PUT /v3/tickets/update': request => this.updateTicket(request),
+      'POST /v3/tickets/update': request => this.updateTicket(request),
+      'POST /v3/tickets/create_with_attachment': request => this.createTicket(request)
+    };
+  }
+
+  /**
+   * Base URL to configure Desk365Client with (e.g. http://127.0.0.1:PORT/apis)
+   */
+  get baseUrl(): string {
+    if (!this.server) {
+      throw new Error('FakeDesk365Server is not started');
+    }
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/apis`;
+  }
+
+  /**
+   * Requests received so far, oldest first
+   */
+  get requests(): FakeDesk365Request[] {
+    return this.recorded.slice();
+  }
+
+  /**
+   * Starts listening
+   * @returns The base URL to configure Desk365Client with
+   */
+  async start(): Promise<string> {
+    if (!this.server) {
+      const server = http.createServer((req, res) => {
+        this.handle(req, res).catch(error => {
+          this.send(res, 500, { message: error instanceof Error ? error.message : String(error) });
+        });
+      });
+      this.server = server;
+
+      await new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(this.port, '127.0.0.1', () => resolve());
+      });
+    }
+
+    return this.baseUrl;
+  }
+
+  /**
+   * Stops listening and closes open connections
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+
+    this.server = null;
+    await new Promise<void>((resolve, reject) => {
+      server.close(error => (error ? reject(error) : resolve()));
+      // Keep-alive connections would otherwise hold the server open
+      server.closeAllConnections?.();
+    });
+  }
+
+  /**
+   * Adds a fault that applies to matching requests
+   * @param fault - The fault to inject
+   */
+  injectFault(fault: FakeDesk365Fault): void {
+    this.faults.push({ ...fault });
+  }
+
+  /**
+   * Removes every injected fault
+   */
+  clearFaults(): void {
+    this.faults = [];
+  }
+
+  /**
+   * Returns a stored ticket
+   * @param ticketNumber - The ticket number
+   * @returns The raw ticket, or undefined if it does not exist
+   */
+  getTicket(ticketNumber: number | string): FakeDesk365Ticket | undefined {
+    const ticket = this.tickets.get(Number(ticketNumber));
+    return ticket && { ...ticket };
+  }
+
+  /**
+   * Handles an incoming request
+   * @param req - The incoming request
+   * @param res - The response to write
+   * @private
+   */
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://127.0.0.1');
+    // Accept any base path in front of /v3 (e.g. /apis/v3/tickets)
+    const path = url.pathname.replace(/^.*?(?=\/v3\/)/, '');
+    const request: FakeDesk365Request = {
+      method: (req.method || 'GET').toUpperCase(),
+      path,
+      query: Object.fromEntries(url.searchParams.entries()),
+      headers: req.headers,
+      body: await this.readBody(req)
+    };
+    this.recorded.push(request);
+
+    const fault = this.takeFault(request);
+    const latencyMs = fault?.latencyMs ?? this.latencyMs;
+    if (latencyMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, latencyMs));
+    }
+
+    if (fault?.status) {
+      const headers: Record<string, string> = {};
+      if (fault.retryAfter !== undefined) {
+        headers['Retry-After'] = String(fault.retryAfter);
+      }
+      if (fault.status === 405) {
+        headers['Allow'] = 'GET, POST';
+      }
+      this.send(res, fault.status, fault.body ?? { message: http.STATUS_CODES[fault.status] || 'Injected fault' }, headers);
+      return;
+    }
+
+    if (req.headers.authorization !== this.apiKey) {
+      this.send(res, 403, { message: 'Access to this resource is forbidden' });
+      return;
+    }
+
+    const route = this.routes[`${request.method} ${path}`];
+    if (!route) {
+      const known = Object.keys(this.routes).some(key => key.endsWith(` ${path}`));
+      this.send(res, known ? 405 : 404, { message: known ? 'Method Not Allowed' : 'Not Found' });
+      return;
+    }
+
+    const { status, body } = route(request);
+    this.send(res, status, body);
+  }
+
+  /**
+   * Finds the first fault matching a request and consumes one of its uses
+   * @param request - The incoming request
+   * @returns The matching fault, if any
+   * @private
+   */
+  private takeFault(request: FakeDesk365Request): FakeDesk365Fault | undefined {
+    const fault = this.faults.find(candidate =>
+      (!candidate.method || candidate.method.toUpperCase() === request.method) &&
+      (!candidate.path || (typeof candidate.path === 'string'
+        ? candidate.path === request.path
+        : candidate.path.test(request.path))) &&
+      (candidate.times === undefined || candidate.times > 0)
+    );
+
+    if (fault && fault.times !== undefined) {
+      fault.times--;
+    }
+
+    return fault;
+  }
+
+  /**
+   * Reads and parses a request body (JSON or multipart/form-data)
+   * @param req - The incoming request
+   * @returns The parsed body, if any
+   * @private
+   */
+  private async readBody(req: IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+
+    const raw = Buffer.concat(chunks);
+    if (raw.length === 0) {
+      return undefined;
+    }
+
+    const contentType = req.headers['content-type'] || '';
+    if (contentType.startsWith('multipart/form-data')) {
+      // Let the platform's Request parse the multipart payload
+      const form = await new Request('http://127.0.0.1', {
+        method: 'POST',
+        headers: { 'content-type': contentType },
+        body: raw
+      }).formData();
+
+      const fields: Record<string, unknown> = {};
+      form.forEach((value, name) => {
+        const parsed = typeof value === 'string'
+          ? value
+          : { name: value.name, size: value.size, type: value.type };
+
+        if (name === 'files') {
+          fields.files = [...((fields.files as unknown[]) || []), parsed];
+        } else {
+          fields[name] = parsed;
+        }
+      });
+      return fields;
+    }
+
+    const text = raw.toString('utf8');
+    try {
+      return JSON.parse(text);
+    } catch (error) {
+      return text;
+    }
+  }
+
+  /**
+   * Writes a JSON response
+   * @private
+   */
+  private send(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    res.end(body === undefined ? '' : JSON.stringify(body));
+  }
+
+  /**
+   * GET /v3/tickets
+   * @private
+   */
+  private listTickets(request: FakeDesk365Request): RouteResult {
+    const ticketCount = Number(request.query.ticket_count || 30);
+    if (!ALLOWED_TICKET_COUNTS.includes(ticketCount)) {
+      return { status: 400, body: { message: 'ticket_count must be 30, 50 or 100' } };
+    }
+
+    let filters: Record<string, string[]> = {};
+    if (request.query.filters) {
+      try {
+        filters = JSON.parse(request.query.filters);
+      } catch (error) {
+        return { status: 400, body: { message: 'Invalid filters' } };
+      }
+    }
+
+    const orderBy = request.query.order_by === 'updated_time' ? 'updated_on' : 'created_on';
+    const direction = request.query.order_type === 'asc' ? 1 : -1;
+    const offset = Number(request.query.offset || 0);
+
+    const matches = Array.from(this.tickets.values())
+      .filter(ticket => !filters.contact || filters.contact.includes(ticket.contact_email))
+      .filter(ticket => !filters.assigned_to || filters.assigned_to.includes(ticket.assign_to || ''))
+      .filter(ticket => !filters.status || filters.status.includes(ticket.status))
+      .filter(ticket => !filters.priority || filters.priority.includes(String(ticket.priority)))
+      .sort((a, b) => (a[orderBy].localeCompare(b[orderBy]) || a.ticket_number - b.ticket_number) * direction);
+
+    const includeDescription = request.query.include_description === '1';
+
+    return {
+      status: 200,
+      body: {
+        count: matches.length,
+        tickets: matches.slice(offset, offset + ticketCount).map(ticket => {
+          const { description, ...rest } = ticket;
+          return includeDescription ? { ...rest, description } : rest;
+        })
+      }
+    };
+  }
+
+  /**
+   * GET /v3/tickets/details
+   * @private
+   */
+  private getTicketDetails(request: FakeDesk365Request): RouteResult {
+    const ticket = this.findTicket(request);
+    return ticket ? { status: 200, body: { ...ticket } } : this.ticketNotFound(request);
+  }
+
+  /**
+   * GET /v3/tickets/conversations
+   * @private
+   */
+  private getConversations(request: FakeDesk365Request): RouteResult {
+    const ticket = this.findTicket(request);
+    if (!ticket) {
+      return this.ticketNotFound(request);
+    }
+
+    return {
+      status: 200,
+      body: {
+        conversations: this.conversations.filter(conversation => conversation.ticket_number === ticket.ticket_number)
+      }
+    };
+  }
+
+  /**
+   * POST /v3/tickets/add_reply, /v3/tickets/add_note and their *_with_attachment variants
+   * @private
+   */
+  private addConversation(
+    request: FakeDesk365Request,
+    type: 'reply' | 'note',
+    payload: unknown
+  ): RouteResult {
+    const ticket = this.findTicket(request);
+    if (!ticket) {
+      return this.ticketNotFound(request);
+    }
+
+    const body = payload as { body?: string; agent_email?: string; private_note?: number } | undefined;
+    if (!body || typeof body !== 'object' || !body.body) {
+      return { status: 400, body: { message: 'body is required', errors: [{ field: 'body', message: 'is required' }] } };
+    }
+
+    const now = new Date().toISOString();
+    const isAgent = Boolean(body.agent_email) || type === 'note';
+    const sender = body.agent_email || ticket.contact_email;
+    const files = ((request.body as { files?: Array<{ name: string; size: number; type: string }> } | undefined)?.files) || [];
+
+    const conversation: FakeDesk365Conversation = {
+      ticket_number: ticket.ticket_number,
+      created_by: sender,
+      creator_name: sender.split('@')[0],
+      type,
+      sender_type: isAgent ? 'agent' : 'contact',
+      public_note: type === 'note' ? (body.private_note ? 'no' : 'yes') : null,
+      cc_address: null,
+      bcc_address: null,
+      to_address: null,
+      notified_agents: null,
+      body: body.body,
+      body_text: body.body.replace(/<[^>]+>/g, ''),
+      attachments_count: files.length,
+      attachments: files.map(file => ({
+        id: String(this.nextAttachmentId++),
+        filename: file.name,
+        size: file.size,
+        content_type: file.type,
+        url: `${this.baseUrl}/attachments/${ticket.ticket_number}/${encodeURIComponent(file.name)}`
+      })),
+      created_on: now,
+      is_email_deliveribility_failiure: false,
+      email_bounce_type: null,
+      email_bouce_status: null
+    };
+
+    this.conversations.push(conversation);
+    ticket.updated_on = now;
+
+    return {
+      status: 200,
+      body: {
+        id: `${ticket.ticket_number}-${this.conversations.length}`,
+        ticket_number: ticket.ticket_number,
+        content: body.body,
+        email: sender,
+        is_agent: isAgent,
+        created_on: now
+      }
+    };
+  }
+
+  /**
+   * PUT (or POST) /v3/tickets/update
+   * @private
+   */
+  private updateTicket(request: FakeDesk365Request): RouteResult {
+    const ticket = this.findTicket(request);
+    if (!ticket) {
+      return this.ticketNotFound(request);
+    }
+
+    const body = (request.body || {}) as Record<string, unknown>;
+    const allowed = ['status', 'priority', 'assign_to', 'type', 'group', 'category', 'sub_category', 'tags', 'custom_fields'];
+    const invalid = Object.keys(body).filter(field => !allowed.includes(field));
+    if (invalid.length > 0) {
+      return {
+        status: 400,
+        body: { message: 'Invalid fields', errors: invalid.map(field => ({ field, message: 'is not a valid field' })) }
+      };
+    }
+
+    // Desk365 only changes the custom fields that are sent
+    const customFields = body.custom_fields ? { ...ticket.custom_fields, ...(body.custom_fields as Record<string, unknown>) } : ticket.custom_fields;
+    Object.assign(ticket, body, { custom_fields: customFields, updated_on: new Date().toISOString() });
+    return { status: 200, body: { ...ticket } };
+  }
+
+  /**
+   * POST /v3/tickets/create_with_attachment
+   * @private
+   */
+  private createTicket(request: FakeDesk365Request): RouteResult {
+    const ticketObject = this.parseObjectField(request, 'ticket_object') as Record<string, any> | undefined;
+    if (!ticketObject || !ticketObject.subject || !ticketObject.email) {
+      return {
+        status: 400,
+        body: {
+          message: 'ticket_object with subject and email is required',
+          errors: [
+            ...(!ticketObject?.subject ? [{ field: 'subject', message: 'is required' }] : []),
+            ...(!ticketObject?.email ? [{ field: 'email', message: 'is required' }] : [])
+          ]
+        }
+      };
+    }
+
+    const now = new Date().toISOString();
+    const ticketNumber = this.nextTicketNumber++;
+    const files = ((request.body as { files?: Array<{ name: string; size: number; type: string }> } | undefined)?.files) || [];
+
+    const ticket: FakeDesk365Ticket = {
+      ticket_number: ticketNumber,
+      subject: ticketObject.subject,
+      description: ticketObject.description || '',
+      status: ticketObject.status || 'open',
+      priority: Number(ticketObject.priority) || 5,
+      contact_email: ticketObject.email,
+      type: ticketObject.type,
+      group: ticketObject.group,
+      category: ticketObject.category,
+      sub_category: ticketObject.sub_category,
+      source: ticketObject.source,
+      tags: ticketObject.tags,
+      custom_fields: ticketObject.custom_fields || {},
+      created_on: now,
+      updated_on: now,
+      attachments: files.map(file => ({
+        file_name: file.name,
+        file_size: file.size,
+        file_type: file.type,
+        created_on: now,
+        attachment_url: `${this.baseUrl}/attachments/${ticketNumber}/${encodeURIComponent(file.name)}`
+      }))
+    };
+
+    this.tickets.set(ticketNumber, ticket);
+    return { status: 200, body: { ...ticket } };
+  }
+
+  /**
+   * Parses a JSON-encoded multipart field (e.g. ticket_object)
+   * @private
+   */
+  private parseObjectField(request: FakeDesk365Request, name: string): unknown {
+    const value = (request.body as Record<string, unknown> | undefined)?.[name];
+    if (typeof value !== 'string') {
+      return undefined;
+    }
+
+    try {
+      return JSON.parse(value);
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  /**
+   * Looks up the ticket named by the ticket_number query parameter (or multipart field)
+   * @private
+   */
+  private findTicket(request: FakeDesk365Request): FakeDesk365Ticket | undefined {
+    const ticketNumber = request.query.ticket_number ??
+      (request.body as Record<string, unknown> | undefined)?.ticket_number;
+    return this.tickets.get(Number(ticketNumber));
+  }
+
+  /**
+   * Builds the Desk365 response for an unknown ticket
+   * @private
+   */
+  private ticketNotFound(request: FakeDesk365Request): RouteResult {
+    return { status: 404, body: { message: `Ticket ${request.query.ticket_number} not found` } };
+  }
+}
@@ -0,0 +1,383 @@
+/**
+ * Desk365 Response Schemas
+ * Typed raw Desk365 API responses (snake_case) and their runtime validation
+ */
+
+import { ResponseValidationIssue } from './errors';
+
+/**
+ * Raw attachment of a Desk365 ticket
+ */
+export interface Desk365RawTicketAttachment {
+  file_name: string;
+  file_size: number;
+  file_type: string;
+  created_on: string;
+  attachment_url: string;
+}
+
+/**
+ * Raw Desk365 ticket, as returned by the ticket endpoints and sent in webhooks
+ */
+export interface Desk365RawTicket {
+  ticket_number: number | string;
+  subject: string;
+  description?: string | null; // Only sent with include_description
+  status: string;
+  priority: number | string;
+  contact_email?: string; // Either contact_email or email is present
+  email?: string;
+  assigned_to?: string | null;
+  assign_to?: string | null;
+  type?: string | null;
+  group?: string | null;
+  category?: string | null;
+  sub_category?: string | null;
+  source?: string | number | null;
+  tags?: string[] | string | null; // An array, or a comma-separated list
+  custom_fields?: Record<string, unknown> | null;
+  created_on: string;
+  updated_on: string;
+  attachments?: Desk365RawTicketAttachment[] | null;
+}
+
+/**
+ * Raw page of Desk365 tickets
+ */
+export interface Desk365RawTicketList {
+  count: number;
+  tickets: Desk365RawTicket[];
+}
+
+/**
+ * Raw attachment of a Desk365 conversation
+ */
+export interface Desk365RawConversationAttachment {
+  id: string | number;
+  filename: string;
+  size: number;
+  content_type: string;
+  url: string;
+}
+
+/**
+ * Raw Desk365 conversation entry (reply or note)
+ */
+export interface Desk365RawConversation {
+  ticket_number: number | string;
+  created_by: string;
+  creator_name?: string | null;
+  type?: string | null;
+  sender_type: string;
+  public_note?: string | number | boolean | null;
+  cc_address?: string | null;
+  bcc_address?: string | null;
+  to_address?: string | null;
+  notified_agents?: string | null;
+  body: string;
+  body_text?: string | null;
+  attachments_count?: number | null;
+  attachments?: Desk365RawConversationAttachment[] | null;
+  created_on: string;
+  is_email_deliveribility_failiure?: boolean | null;
+  email_bounce_type?: string | null;
+  email_bouce_status?: string | null;
+}
+
+/**
+ * Raw list of Desk365 conversation entries
+ */
+export interface Desk365RawConversationList {
+  conversations: Desk365RawConversation[];
+}
+
+/**
+ * Raw reply returned when a reply is added to a ticket
+ */
+export interface Desk365RawReply {
+  id: string | number;
+  ticket_number: number | string;
+  content: string;
+  email: string;
+  is_agent?: boolean | null;
+  created_on: string;
+}
+
+/**
+ * Raw definition of a Desk365 ticket custom field
+ */
+export interface Desk365RawCustomField {
+  name: string; // API name (e.g. 'cf_plan')
+  label?: string | null;
+  type: string; // e.g. 'text', 'number', 'checkbox', 'date', 'dropdown', 'multiselect'
+  required?: boolean | null;
+  options?: string[] | null; // Allowed values of dropdown and multi-select fields
+}
+
+/**
+ * Raw list of Desk365 ticket custom field definitions
+ */
+export interface Desk365RawCustomFieldList {
+  custom_fields: Desk365RawCustomField[];
+}
+
+type ValueType = 'string' | 'number' | 'boolean' | 'object' | 'array';
+
+type Validator = (value: unknown, path: string, issues: ResponseValidationIssue[]) => void;
+
+const ticketAttachmentSchema = object({
+  file_name: type('string'),
+  file_size: type('number'),
+  file_type: type('string'),
+  created_on: type('string'),
+  attachment_url: type('string')
+});
+
+const ticketSchema = object({
+  ticket_number: type('number', 'string'),
+  subject: type('string'),
+  description: optional(type('string')),
+  status: type('string'),
+  priority: type('number', 'string'),
+  contact_email: optional(type('string')),
+  email: optional(type('string')),
+  assigned_to: optional(type('string')),
+  assign_to: optional(type('string')),
+  type: optional(type('string')),
+  group: optional(type('string')),
+  category: optional(type('string')),
+  sub_category: optional(type('string')),
+  source: optional(type('string', 'number')),
+  tags: optional(type('array', 'string')),
+  custom_fields: optional(type('object')),
+  created_on: type('string'),
+  updated_on: type('string'),
+  attachments: optional(arrayOf(ticketAttachmentSchema))
+}, (ticket, path, issues) => {
+  if (ticket.contact_email == null && ticket.email == null) {
+    issues.push({ path: `${path}.contact_email`, expected: 'string', received: describe(ticket.contact_email) });
+  }
+});
+
+const ticketListSchema = object({
+  count: type('number'),
+  tickets: arrayOf(ticketSchema)
+});
+
+const conversationSchema = object({
+  ticket_number: type('number', 'string'),
+  created_by: type('string'),
+  creator_name: optional(type('string')),
+  type: optional(type('string')),
+  sender_type: type('string'),
+  public_note: optional(type('string', 'number', 'boolean')),
+  body: type('string'),
+  body_text: optional(type('string')),
+  attachments_count: optional(type('number')),
+  attachments: optional(arrayOf(object({
+    id: type('string', 'number'),
+    filename: type('string'),
+    size: type('number'),
+    content_type: type('string'),
+    url: type('string')
+  }))),
+  created_on: type('string')
+});
+
+const conversationListSchema = object({
+  conversations: arrayOf(conversationSchema)
+});
+
+const replySchema = object({
+  id: type('string', 'number'),
+  ticket_number: type('number', 'string'),
+  content: type('string'),
+  email: type('string'),
+  is_agent: optional(type('boolean')),
+  created_on: type('string')
+});
+
+const customFieldListSchema = object({
+  custom_fields: arrayOf(object({
+    name: type('string'),
+    label: optional(type('string')),
+    type: type('string'),
+    required: optional(type('boolean')),
+    options: optional(type('array'))
+  }))
+});
+
+/**
+ * Checks a raw Desk365 ticket
+ * @param value - The value to check
+ * @returns Every part of the value that does not match Desk365RawTicket (empty if it matches)
+ */
+export function validateDesk365Ticket(value: unknown): ResponseValidationIssue[] {
+  return run(ticketSchema, value);
+}
+
+/**
+ * Checks a raw page of Desk365 tickets
+ * @param value - The value to check
+ * @returns Every part of the value that does not match Desk365RawTicketList (empty if it matches)
+ */
+export function validateDesk365TicketList(value: unknown): ResponseValidationIssue[] {
+  return run(ticketListSchema, value);
+}
+
+/**
+ * Checks a raw Desk365 conversation entry
+ * @param value - The value to check
+ * @returns Every part of the value that does not match Desk365RawConversation (empty if it matches)
+ */
+export function validateDesk365Conversation(value: unknown): ResponseValidationIssue[] {
+  return run(conversationSchema, value);
+}
+
+/**
+ * Checks a raw list of Desk365 conversation entries
+ * @param value - The value to check
+ * @returns Every part of the value that does not match Desk365RawConversationList (empty if it matches)
+ */
+export function validateDesk365ConversationList(value: unknown): ResponseValidationIssue[] {
+  return run(conversationListSchema, value);
+}
+
+/**
+ * Checks a raw Desk365 reply
+ * @param value - The value to check
+ * @returns Every part of the value that does not match Desk365RawReply (empty if it matches)
+ */
+export function validateDesk365Reply(value: unknown): ResponseValidationIssue[] {
+  return run(replySchema, value);
+}
+
+/**
+ * Checks a raw list of Desk365 custom field definitions
+ * @param value - The value to check
+ * @returns Every part of the value that does not match Desk365RawCustomFieldList (empty if it matches)
+ */
+export function validateDesk365CustomFieldList(value: unknown): ResponseValidationIssue[] {
+  return run(customFieldListSchema, value);
+}
+
+/**
+ * Whether an issue is a missing or mistyped object or list, which the mappers cannot read around
+ * @param issue - The issue to check
+ * @returns True if the issue expects an object or an array
+ */
+export function isStructuralIssue(issue: ResponseValidationIssue): boolean {
+  return issue.expected === 'object' || issue.expected === 'array';
+}
+
+/**
+ * Copies a response without the parts that have structural issues
+ * List items that are not objects are skipped and mistyped fields are left out, so optional lists default to empty;
+ * the root itself cannot be removed, and removing a required field leaves an issue for the caller to detect
+ * @param value - The response
+ * @param issues - The issues found in the response
+ * @returns A copy of the response without the offending parts
+ */
+export function removeMalformedParts(value: unknown, issues: ResponseValidationIssue[]): unknown {
+  const copy = JSON.parse(JSON.stringify(value ?? null));
+  const skipped = new Map<unknown[], Set<number>>();
+
+  for (const issue of issues.filter(isStructuralIssue)) {
+    const keys = Array.from(issue.path.matchAll(/\.([^.[]+)|\[(\d+)\]/g), ([, field, index]) => field ?? Number(index));
+    if (keys.length === 0) {
+      continue;
+    }
+
+    const parent = keys.slice(0, -1).reduce((node: any, key) => node?.[key], copy);
+    const key = keys[keys.length - 1];
+    if (Array.isArray(parent) && typeof key === 'number') {
+      // Items are removed once every issue is handled, so that the indexes of later issues stay valid
+      skipped.set(parent, (skipped.get(parent) || new Set()).add(key));
+    } else if (parent && typeof parent === 'object') {
+      delete parent[key];
+    }
+  }
+
+  skipped.forEach((indexes, list) => {
+    const kept = list.filter((_, index) => !indexes.has(index));
+    list.splice(0, list.length, ...kept);
+  });
+
+  return copy;
+}
+
+/**
+ * Runs a validator from the root of a response
+ */
+function run(validator: Validator, value: unknown): ResponseValidationIssue[] {
+  const issues: ResponseValidationIssue[] = [];
+  validator(value, '$', issues);
+  return issues;
+}
+
+/**
+ * Describes the type of a value the way issues report it
+ */
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+/**
+ * Accepts values of the given types
+ */
+function type(...types: ValueType[]): Validator {
+  return (value, path, issues) => {
+    const received = describe(value);
+    if (!types.includes(received as ValueType)) {
+      issues.push({ path, expected: types.join(' | '), received });
+    }
+  };
+}
+
+/**
+ * Accepts undefined and null, or values accepted by the validator
+ */
+function optional(validator: Validator): Validator {
+  return (value, path, issues) => {
+    if (value !== undefined && value !== null) {
+      validator(value, path, issues);
+    }
+  };
+}
+
+/**
+ * Accepts arrays whose items are accepted by the validator
+ */
+function arrayOf(item: Validator): Validator {
+  return (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push({ path, expected: 'array', received: describe(value) });
+      return;
+    }
+    value.forEach((entry, index) => item(entry, `${path}[${index}]`, issues));
+  };
+}
+
+/**
+ * Accepts objects whose fields are accepted by their validators
+ * Fields that are not listed are ignored
+ */
+function object(
+  shape: Record<string, Validator>,
+  refine?: (value: Record<string, unknown>, path: string, issues: ResponseValidationIssue[]) => void
+): Validator {
+  return (value, path, issues) => {
+    if (describe(value) !== 'object') {
+      issues.push({ path, expected: 'object', received: describe(value) });
+      return;
+    }
+
+    const record = value as Record<string, unknown>;
+    for (const [field, validator] of Object.entries(shape)) {
+      validator(record[field], `${path}.${field}`, issues);
+    }
+    refine?.(record, path, issues);
+  };
+}
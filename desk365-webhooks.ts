@@ -0,0 +1,524 @@
+/**
+ * Desk365 Webhooks
+ * Verifies Desk365 webhook deliveries and turns them into typed events
+ *
+ * Node.js only: signatures are checked with the `crypto` module
+ */
+
+import { Desk365Client } from './client';
+import { Ticket, TicketMessage, TicketStatus } from './types';
+import { WebhookRejectionReason, WebhookVerificationError } from './errors';
+import { Logger, silentLogger } from './logger';
+
+/**
+ * Types of events delivered by Desk365 webhooks
+ */
+export type Desk365WebhookEventType =
+  | 'ticket.created'
+  | 'ticket.updated'
+  | 'reply.added'
+  | 'note.added'
+  | 'status.changed';
+
+/**
+ * Fields shared by every webhook event
+ */
+interface Desk365WebhookEventBase {
+  id: string; // Delivery ID, unique per delivery
+  ticketId: string;
+  occurredAt: string; // ISO timestamp of the delivery
+}
+
+export interface TicketCreatedEvent extends Desk365WebhookEventBase {
+  type: 'ticket.created';
+  ticket: Ticket;
+}
+
+export interface TicketUpdatedEvent extends Desk365WebhookEventBase {
+  type: 'ticket.updated';
+  ticket: Ticket;
+}
+
+export interface ReplyAddedEvent extends Desk365WebhookEventBase {
+  type: 'reply.added';
+  message: TicketMessage;
+  ticket?: Ticket; // Present when the payload includes the ticket
+}
+
+export interface NoteAddedEvent extends Desk365WebhookEventBase {
+  type: 'note.added';
+  message: TicketMessage;
+  isPrivate: boolean;
+  ticket?: Ticket; // Present when the payload includes the ticket
+}
+
+export interface StatusChangedEvent extends Desk365WebhookEventBase {
+  type: 'status.changed';
+  ticket: Ticket;
+  status: TicketStatus;
+  previousStatus?: TicketStatus; // Present when the payload includes `previous_status`
+}
+
+/**
+ * A verified Desk365 webhook event
+ */
+export type Desk365WebhookEvent =
+  | TicketCreatedEvent
+  | TicketUpdatedEvent
+  | ReplyAddedEvent
+  | NoteAddedEvent
+  | StatusChangedEvent;
+
+/**
+ * Listener for webhook events
+ */
+export type Desk365WebhookListener<T extends Desk365WebhookEvent = Desk365WebhookEvent> = (event: T) => void | Promise<void>;
+
+/**
+ * Remembers delivery IDs so that replayed deliveries can be rejected
+ * Implement it on a shared store (e.g. Redis `SET NX PX`) when several instances receive webhooks
+ */
+export interface WebhookReplayStore {
+  claim(deliveryId: string, ttlMs: number): boolean | Promise<boolean>; // Records the ID; false if it was already recorded
+  release(deliveryId: string): void | Promise<void>; // Forgets the ID so that a failed delivery can be retried
+}
+
+/**
+ * Configuration for the webhook receiver
+ */
+export interface Desk365WebhookConfig {
+  client: Desk365Client; // Client whose mappers parse the payloads
+  secret: string; // Shared secret, sent as a header or used to sign the body
+  secretHeader?: string; // Header holding the shared secret (defaults to 'x-desk365-webhook-secret')
+  signatureHeader?: string; // Header holding the HMAC-SHA256 body signature (defaults to 'x-desk365-signature')
+  toleranceMs?: number; // Maximum age of a delivery (defaults to 5 minutes)
+  replayStore?: WebhookReplayStore; // Where delivery IDs are remembered (defaults to memory)
+  now?: () => Date; // Clock used for the staleness check (defaults to the system clock)
+  logger?: Logger; // Destination for log output (silent by default)
+}
+
+/**
+ * An incoming webhook request, independent of the web framework
+ */
+export interface WebhookRequest {
+  headers: Headers | Record<string, string | string[] | undefined>;
+  body: string | Uint8Array; // The raw body, exactly as received
+}
+
+/**
+ * The response to send back to Desk365
+ */
+export interface WebhookResult {
+  status: number;
+  body: { received: true; type: Desk365WebhookEventType } | { error: string; reason?: WebhookRejectionReason };
+}
+
+const EVENT_TYPES: Desk365WebhookEventType[] = ['ticket.created', 'ticket.updated', 'reply.added', 'note.added', 'status.changed'];
+
+const REJECTION_STATUS: Record<WebhookRejectionReason, number> = {
+  unauthenticated: 401,
+  stale: 400,
+  replayed: 409,
+  malformed: 400
+};
+
+// Answer to deliveries that failed on our side; Desk365 retries them
+const FAILED_DELIVERY: WebhookResult = { status: 500, body: { error: 'Webhook delivery failed' } };
+
+/**
+ * Receives Desk365 webhook deliveries
+ *
+ * Each delivery is authenticated with the shared secret (sent as a header, or as an HMAC-SHA256
+ * signature of the body), rejected if it is older than the tolerance or was already received,
+ * and mapped to a typed event with the same mappers as Desk365Client.
+ */
+export class Desk365WebhookReceiver {
+  private client: Desk365Client;
+  private secret: string;
+  private secretHeader: string;
+  private signatureHeader: string;
+  private toleranceMs: number;
+  private replayStore: WebhookReplayStore;
+  private now: () => Date;
+  private logger: Logger;
+  private listeners: Array<{ type: Desk365WebhookEventType | '*'; listener: Desk365WebhookListener<any> }> = [];
+
+  /**
+   * Creates a new webhook receiver
+   * @param config - Configuration for the receiver
+   */
+  constructor(config: Desk365WebhookConfig) {
+    if (!config.secret) {
+      throw new Error('Desk365WebhookReceiver requires a secret');
+    }
+
+    this.client = config.client;
+    this.secret = config.secret;
+    this.secretHeader = (config.secretHeader || 'x-desk365-webhook-secret').toLowerCase();
+    this.signatureHeader = (config.signatureHeader || 'x-desk365-signature').toLowerCase();
+    this.toleranceMs = config.toleranceMs ?? 5 * 60 * 1000;
+    this.replayStore = config.replayStore || createMemoryReplayStore(() => this.now().getTime());
+    this.now = config.now || (() => new Date());
+    this.logger = config.logger || silentLogger;
+  }
+
+  /**
+   * Registers a listener for one type of event, or for every event with '*'
+   * @param type - The event type to listen to
+   * @param listener - Called with each verified event
+   * @returns A function that removes the listener
+   */
+  on<T extends Desk365WebhookEventType>(
+    type: T,
+    listener: Desk365WebhookListener<Extract<Desk365WebhookEvent, { type: T }>>
+  ): () => void;
+  on(type: '*', listener: Desk365WebhookListener): () => void;
+  on(type: Desk365WebhookEventType | '*', listener: Desk365WebhookListener<any>): () => void {
+    const entry = { type, listener };
+    this.listeners.push(entry);
+    return () => {
+      this.listeners = this.listeners.filter(existing => existing !== entry);
+    };
+  }
+
+  /**
+   * Verifies a delivery, dispatches its event to the listeners and describes the response to send
+   * Failed listeners answer 500 and release the delivery ID, so that Desk365's retry is accepted;
+   * other failures (e.g. an unreachable replay store) are logged and answer 500 too, so it never throws
+   * @param request - The incoming request
+   * @returns The status and body to respond with
+   */
+  async handle(request: WebhookRequest): Promise<WebhookResult> {
+    let event: Desk365WebhookEvent;
+    try {
+      event = await this.verify(request);
+    } catch (error) {
+      if (error instanceof WebhookVerificationError) {
+        this.logger.warn('Rejected Desk365 webhook delivery', { reason: error.reason, error: error.message });
+        return { status: error.status || 400, body: { error: error.message, reason: error.reason } };
+      }
+
+      this.logger.error('Desk365 webhook delivery could not be verified', { error: errorMessage(error) });
+      return FAILED_DELIVERY;
+    }
+
+    try {
+      for (const { type, listener } of this.listeners) {
+        if (type === '*' || type === event.type) {
+          await listener(event);
+        }
+      }
+    } catch (error) {
+      this.logger.error('Desk365 webhook listener failed', { type: event.type, id: event.id, error: errorMessage(error) });
+      try {
+        await this.replayStore.release(event.id);
+      } catch (releaseError) {
+        this.logger.error('Could not release Desk365 webhook delivery ID', { id: event.id, error: errorMessage(releaseError) });
+      }
+      return { status: 500, body: { error: 'Webhook listener failed' } };
+    }
+
+    return { status: 200, body: { received: true, type: event.type } };
+  }
+
+  /**
+   * Verifies a delivery and parses its event, without calling the listeners
+   * @param request - The incoming request
+   * @returns The verified event
+   * @throws WebhookVerificationError if the delivery is unauthenticated, stale, replayed or malformed
+   */
+  async verify(request: WebhookRequest): Promise<Desk365WebhookEvent> {
+    const body = typeof request.body === 'string' ? request.body : new TextDecoder().decode(request.body);
+    this.authenticate(request.headers, body);
+
+    let payload: any;
+    try {
+      payload = JSON.parse(body);
+    } catch (error) {
+      throw reject('Webhook body is not valid JSON', 'malformed');
+    }
+
+    if (!payload || typeof payload !== 'object' || !EVENT_TYPES.includes(payload.event)) {
+      throw reject(`Unknown webhook event: ${payload?.event}`, 'malformed');
+    }
+
+    const occurredAt = parseTimestamp(payload.timestamp);
+    if (occurredAt === undefined) {
+      throw reject('Webhook payload has no valid timestamp', 'malformed');
+    }
+
+    const age = this.now().getTime() - occurredAt;
+    if (Math.abs(age) > this.toleranceMs) {
+      throw reject(`Webhook delivery is ${Math.round(age / 1000)}s old, outside the ${this.toleranceMs / 1000}s tolerance`, 'stale');
+    }
+
+    let event: Desk365WebhookEvent;
+    try {
+      event = this.toEvent(payload, new Date(occurredAt).toISOString(), deliveryId(payload, body));
+    } catch (error) {
+      if (error instanceof WebhookVerificationError) {
+        throw error;
+      }
+      // Any mapping failure (invalid shape, unmapped value, missing nested object) is a bad payload, not a server error
+      throw reject(errorMessage(error), 'malformed');
+    }
+
+    // Remember IDs for twice the tolerance, which covers deliveries timestamped in the future
+    if (!(await this.replayStore.claim(event.id, this.toleranceMs * 2))) {
+      throw reject(`Webhook delivery ${event.id} was already received`, 'replayed');
+    }
+
+    return event;
+  }
+
+  /**
+   * Checks the shared secret header or the body signature
+   * @param headers - The request headers
+   * @param body - The raw body
+   * @private
+   */
+  private authenticate(headers: WebhookRequest['headers'], body: string): void {
+    // crypto is required where used, so that importing the package entry point in a browser bundle does not load it
+    const crypto: typeof import('crypto') = require('crypto');
+
+    const signature = getHeader(headers, this.signatureHeader);
+    if (signature) {
+      const expected = crypto.createHmac('sha256', this.secret).update(body).digest('hex');
+      if (!safeEqual(signature.replace(/^sha256=/, ''), expected)) {
+        throw reject('Webhook signature does not match', 'unauthenticated');
+      }
+      return;
+    }
+
+    const secret = getHeader(headers, this.secretHeader);
+    if (!secret) {
+      throw reject(`Webhook delivery has neither a ${this.signatureHeader} nor a ${this.secretHeader} header`, 'unauthenticated');
+    }
+    if (!safeEqual(secret, this.secret)) {
+      throw reject('Webhook secret does not match', 'unauthenticated');
+    }
+  }
+
+  /**
+   * Maps a verified payload to its typed event
+   * @param payload - The parsed payload
+   * @param occurredAt - The ISO timestamp of the delivery
+   * @param id - The delivery ID
+   * @returns The typed event
+   * @private
+   */
+  private toEvent(payload: any, occurredAt: string, id: string): Desk365WebhookEvent {
+    const ticket = payload.ticket ? this.client.mapTicket(payload.ticket) : undefined;
+
+    switch (payload.event as Desk365WebhookEventType) {
+      case 'ticket.created':
+      case 'ticket.updated':
+        if (!ticket) throw reject(`${payload.event} payload has no ticket`, 'malformed');
+        return { type: payload.event, id, occurredAt, ticketId: ticket.id, ticket };
+
+      case 'status.changed':
+        if (!ticket) throw reject('status.changed payload has no ticket', 'malformed');
+        return {
+          type: 'status.changed',
+          id,
+          occurredAt,
+          ticketId: ticket.id,
+          ticket,
+          status: ticket.status,
+          previousStatus: payload.previous_status ? this.client.mapStatus(payload.previous_status) : undefined
+        };
+
+      case 'reply.added':
+      case 'note.added': {
+        if (!payload.conversation) throw reject(`${payload.event} payload has no conversation`, 'malformed');
+        const message = this.client.mapConversation(payload.conversation);
+        const ticketId = message.ticketId || ticket?.id;
+        if (!ticketId) throw reject(`${payload.event} payload has no ticket number`, 'malformed');
+
+        const base = { id, occurredAt, ticketId, message: { ...message, ticketId }, ticket };
+        return payload.event === 'reply.added'
+          ? { type: 'reply.added', ...base }
+          : { type: 'note.added', ...base, isPrivate: !['1', 'true'].includes(String(payload.conversation.public_note)) };
+      }
+    }
+  }
+}
+
+/**
+ * Express-style request, as received by Express and Next.js API routes
+ */
+export interface NodeWebhookRequest extends AsyncIterable<Uint8Array | string> {
+  headers: Record<string, string | string[] | undefined>;
+  body?: unknown; // Raw body from express.raw() or express.text(); read from the stream when absent
+}
+
+/**
+ * Express-style response, as used by Express and Next.js API routes
+ */
+export interface NodeWebhookResponse {
+  status(code: number): { json(body: unknown): unknown };
+}
+
+/**
+ * Creates an Express (or Next.js Pages Router) handler for Desk365 webhooks
+ * Mount it with `express.raw({ type: 'application/json' })`, or without a body parser, so that
+ * signatures are checked against the body exactly as it was sent
+ * @param receiver - The webhook receiver
+ * @returns The request handler
+ */
+export function createExpressWebhookHandler(
+  receiver: Desk365WebhookReceiver
+): (req: NodeWebhookRequest, res: NodeWebhookResponse) => Promise<void> {
+  return async (req, res) => {
+    const result = await readAndHandle(receiver, req.headers, () => readNodeBody(req));
+    res.status(result.status).json(result.body);
+  };
+}
+
+/**
+ * Creates a Next.js App Router route handler for Desk365 webhooks
+ * Export it as `POST` from `route.ts` (with the Node.js runtime)
+ * @param receiver - The webhook receiver
+ * @returns The route handler
+ */
+export function createNextWebhookHandler(receiver: Desk365WebhookReceiver): (request: Request) => Promise<Response> {
+  return async request => {
+    const result = await readAndHandle(receiver, request.headers, () => request.text());
+    return new Response(JSON.stringify(result.body), {
+      status: result.status,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  };
+}
+
+/**
+ * Reads the body of a delivery and handles it, answering 500 instead of throwing when the body cannot be read
+ * Framework handlers must not reject: Express 4 does not catch rejected async handlers, and the request would hang
+ */
+async function readAndHandle(
+  receiver: Desk365WebhookReceiver,
+  headers: WebhookRequest['headers'],
+  readBody: () => Promise<string | Uint8Array>
+): Promise<WebhookResult> {
+  let body: string | Uint8Array;
+  try {
+    body = await readBody();
+  } catch {
+    return FAILED_DELIVERY;
+  }
+
+  return receiver.handle({ headers, body });
+}
+
+/**
+ * Returns the message of a caught error
+ */
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Creates a WebhookVerificationError with the HTTP status for its reason
+ */
+function reject(message: string, reason: WebhookRejectionReason): WebhookVerificationError {
+  return new WebhookVerificationError(message, reason, { provider: 'desk365', status: REJECTION_STATUS[reason] });
+}
+
+/**
+ * Reads a header from a Headers object or a Node.js header record
+ */
+function getHeader(headers: WebhookRequest['headers'], name: string): string | undefined {
+  if (typeof (headers as Headers).get === 'function') {
+    return (headers as Headers).get(name) ?? undefined;
+  }
+
+  const entry = Object.entries(headers).find(([key]) => key.toLowerCase() === name);
+  const value = entry?.[1];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Compares two strings in constant time
+ */
+function safeEqual(actual: string, expected: string): boolean {
+  const crypto: typeof import('crypto') = require('crypto');
+  const left = Buffer.from(actual);
+  const right = Buffer.from(expected);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+/**
+ * Parses a payload timestamp (ISO string, or epoch seconds or milliseconds)
+ * @returns Milliseconds since the epoch, or undefined if it is not a timestamp
+ */
+function parseTimestamp(value: unknown): number | undefined {
+  if (typeof value === 'number' || (typeof value === 'string' && /^\d+$/.test(value))) {
+    const number = Number(value);
+    return number < 1e12 ? number * 1000 : number;
+  }
+
+  if (typeof value === 'string') {
+    const parsed = Date.parse(value);
+    return isNaN(parsed) ? undefined : parsed;
+  }
+
+  return undefined;
+}
+
+/**
+ * Returns the delivery ID of a payload, falling back to a hash of the body
+ */
+function deliveryId(payload: any, body: string): string {
+  if (payload.delivery_id !== undefined && payload.delivery_id !== null) {
+    return String(payload.delivery_id);
+  }
+
+  const crypto: typeof import('crypto') = require('crypto');
+  return crypto.createHash('sha256').update(body).digest('hex');
+}
+
+/**
+ * Reads the raw body of an Express-style request
+ */
+async function readNodeBody(req: NodeWebhookRequest): Promise<string | Uint8Array> {
+  if (typeof req.body === 'string' || req.body instanceof Uint8Array) {
+    return req.body;
+  }
+
+  if (req.body !== undefined) {
+    // Already parsed by a JSON body parser: secret headers still work, signatures usually will not
+    return JSON.stringify(req.body);
+  }
+
+  const chunks: Uint8Array[] = [];
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Creates the default replay store, which keeps delivery IDs in memory until they expire
+ * @param now - Clock returning milliseconds since the epoch
+ */
+function createMemoryReplayStore(now: () => number): WebhookReplayStore {
+  const expiries = new Map<string, number>();
+
+  return {
+    claim(deliveryId, ttlMs) {
+      const time = now();
+      for (const [id, expiresAt] of expiries) {
+        if (expiresAt <= time) expiries.delete(id);
+      }
+
+      if (expiries.has(deliveryId)) {
+        return false;
+      }
+      expiries.set(deliveryId, time + ttlMs);
+      return true;
+    },
+    release(deliveryId) {
+      expiries.delete(deliveryId);
+    }
+  };
+}
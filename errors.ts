@@ -0,0 +1,234 @@
+/**
+ * Support API Errors
+ * Typed error hierarchy thrown by every SupportApiInterface implementation
+ */
+
+/**
+ * Options describing the context of a support API failure
+ */
+export interface SupportApiErrorOptions {
+  status?: number; // HTTP status code returned by the provider, if any
+  provider?: string; // Provider that raised the error (e.g. 'desk365')
+  endpoint?: string; // Endpoint that was being called
+  method?: string; // HTTP method that was being used
+  errors?: unknown; // The provider's `errors` payload, if present
+  code?: string; // Low-level error code (e.g. 'ECONNRESET', 'ENOTFOUND')
+  retryable?: boolean; // Whether the request may succeed if retried
+  cause?: unknown; // The underlying error
+}
+
+/**
+ * Base class for all errors raised by the support API wrapper
+ */
+export class SupportApiError extends Error {
+  readonly status?: number;
+  readonly provider?: string;
+  readonly endpoint?: string;
+  readonly method?: string;
+  readonly errors?: unknown;
+  readonly code?: string;
+  readonly retryable: boolean;
+  readonly cause?: unknown;
+
+  /**
+   * Creates a new support API error
+   * @param message - Human readable error message
+   * @param options - Context describing the failure
+   */
+  constructor(message: string, options: SupportApiErrorOptions = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.status = options.status;
+    this.provider = options.provider;
+    this.endpoint = options.endpoint;
+    this.method = options.method;
+    this.errors = options.errors;
+    this.code = options.code;
+    this.retryable = options.retryable ?? false;
+    this.cause = options.cause;
+  }
+}
+
+/**
+ * Raised when the provider rejects the credentials (HTTP 401/403)
+ */
+export class AuthenticationError extends SupportApiError {}
+
+/**
+ * Raised when the requested resource does not exist (HTTP 404)
+ */
+export class NotFoundError extends SupportApiError {}
+
+/**
+ * Raised when the provider rejects the request payload (HTTP 400/422)
+ */
+export class ValidationError extends SupportApiError {}
+
+/**
+ * Raised when the provider does not allow the HTTP method for an endpoint (HTTP 405)
+ */
+export class MethodNotSupportedError extends SupportApiError {}
+
+/**
+ * Raised when the provider throttles the client (HTTP 429)
+ */
+export class RateLimitError extends SupportApiError {
+  readonly retryAfterMs?: number; // Delay requested by the provider, if any
+
+  /**
+   * Creates a new rate limit error
+   * @param message - Human readable error message
+   * @param options - Context describing the failure, plus the requested retry delay
+   */
+  constructor(message: string, options: SupportApiErrorOptions & { retryAfterMs?: number } = {}) {
+    super(message, { retryable: true, ...options });
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+/**
+ * Raised when no response was received from the provider (timeouts, DNS, connection resets)
+ */
+export class NetworkError extends SupportApiError {
+  /**
+   * Creates a new network error
+   * @param message - Human readable error message
+   * @param options - Context describing the failure
+   */
+  constructor(message: string, options: SupportApiErrorOptions = {}) {
+    super(message, { retryable: true, ...options });
+  }
+}
+
+/**
+ * A custom field value that does not match the field's definition
+ */
+export interface CustomFieldIssue {
+  field: string; // Name of the custom field
+  problem: 'unknown' | 'required' | 'type' | 'option'; // What is wrong with the value
+  message: string; // Human readable description
+}
+
+/**
+ * Raised before a request is sent when its custom fields do not match the provider's definitions
+ */
+export class CustomFieldValidationError extends ValidationError {
+  readonly issues: CustomFieldIssue[];
+
+  /**
+   * Creates a new custom field validation error
+   * @param message - Human readable error message
+   * @param issues - Every problem found in the custom fields
+   * @param options - Context describing the failure
+   */
+  constructor(message: string, issues: CustomFieldIssue[], options: SupportApiErrorOptions = {}) {
+    super(message, options);
+    this.issues = issues;
+  }
+}
+
+/**
+ * Raised when a status or priority has no entry in the provider's mapping table and the policy is 'throw'
+ */
+export class UnmappedValueError extends SupportApiError {
+  readonly field: 'status' | 'priority';
+  readonly value: string | number;
+
+  /**
+   * Creates a new unmapped value error
+   * @param message - Human readable error message
+   * @param field - The field whose value could not be mapped
+   * @param value - The value that could not be mapped
+   * @param options - Context describing the failure
+   */
+  constructor(message: string, field: 'status' | 'priority', value: string | number, options: SupportApiErrorOptions = {}) {
+    super(message, options);
+    this.field = field;
+    this.value = value;
+  }
+}
+
+/**
+ * A part of a provider response that does not match the expected schema
+ */
+export interface ResponseValidationIssue {
+  path: string; // Location in the response, e.g. '$.tickets[3].created_on'
+  expected: string; // Expected type, e.g. 'string'
+  received: string; // Type that was received, e.g. 'undefined'
+}
+
+/**
+ * Raised when a provider response does not match the expected schema
+ */
+export class ResponseValidationError extends SupportApiError {
+  readonly issues: ResponseValidationIssue[];
+
+  /**
+   * Creates a new response validation error
+   * @param message - Human readable error message
+   * @param issues - Every part of the response that does not match the schema
+   * @param options - Context describing the failure
+   */
+  constructor(message: string, issues: ResponseValidationIssue[], options: SupportApiErrorOptions = {}) {
+    super(message, options);
+    this.issues = issues;
+  }
+}
+
+/**
+ * Why a webhook delivery was rejected
+ */
+export type WebhookRejectionReason = 'unauthenticated' | 'stale' | 'replayed' | 'malformed';
+
+/**
+ * Raised when a webhook delivery cannot be trusted (bad secret or signature, stale, replayed) or parsed
+ */
+export class WebhookVerificationError extends SupportApiError {
+  readonly reason: WebhookRejectionReason;
+
+  /**
+   * Creates a new webhook verification error
+   * @param message - Human readable error message
+   * @param reason - Why the delivery was rejected
+   * @param options - Context describing the failure
+   */
+  constructor(message: string, reason: WebhookRejectionReason, options: SupportApiErrorOptions = {}) {
+    super(message, options);
+    this.reason = reason;
+  }
+}
+
+/**
+ * Creates the most specific SupportApiError subclass for an HTTP status code
+ * @param status - The HTTP status code returned by the provider
+ * @param message - Human readable error message
+ * @param options - Context describing the failure
+ * @returns The typed error
+ */
+export function createErrorFromStatus(
+  status: number,
+  message: string,
+  options: SupportApiErrorOptions & { retryAfterMs?: number } = {}
+): SupportApiError {
+  const errorOptions = { ...options, status };
+
+  switch (status) {
+    case 400:
+    case 422:
+      return new ValidationError(message, errorOptions);
+    case 401:
+    case 403:
+      return new AuthenticationError(message, errorOptions);
+    case 404:
+      return new NotFoundError(message, errorOptions);
+    case 405:
+      return new MethodNotSupportedError(message, errorOptions);
+    case 429:
+      return new RateLimitError(message, errorOptions);
+    default:
+      return new SupportApiError(message, {
+        retryable: status >= 500,
+        ...errorOptions
+      });
+  }
+}
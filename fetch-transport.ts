@@ -0,0 +1,130 @@
+/**
+ * Fetch HTTP Transport
+ * Sends support API requests with the native fetch API (browsers, edge runtimes, Node.js 18+)
+ */
+
+import {
+  HttpRequestContext,
+  HttpTransport,
+  HttpTransportResponse,
+  serializeParams
+} from './http';
+
+/**
+ * Configuration for the fetch transport
+ */
+export interface FetchTransportConfig {
+  timeout?: number; // Request timeout in milliseconds (defaults to 30000)
+  fetch?: typeof fetch; // fetch implementation to use (defaults to the global fetch)
+}
+
+/**
+ * HttpTransport backed by the native fetch API
+ * Has no Node.js-specific dependencies, so it runs in browsers and edge workers
+ */
+export class FetchTransport implements HttpTransport {
+  private timeout: number;
+  private fetchImpl: typeof fetch;
+
+  /**
+   * Creates a new fetch transport
+   * @param config - Configuration for the transport
+   */
+  constructor(config: FetchTransportConfig = {}) {
+    const fetchImpl = config.fetch || (typeof fetch === 'function' ? fetch : undefined);
+    if (!fetchImpl) {
+      throw new Error('FetchTransport requires a global fetch implementation or the `fetch` option');
+    }
+
+    this.timeout = config.timeout ?? 30000;
+    this.fetchImpl = fetchImpl;
+  }
+
+  /**
+   * Sends a request with fetch
+   * @param request - The request to send
+   * @returns The response, whatever its status
+   */
+  async send(request: HttpRequestContext): Promise<HttpTransportResponse> {
+    const query = serializeParams(request.params);
+    const url = `${request.url}${query ? `?${query}` : ''}`;
+    const headers: Record<string, string> = { ...request.headers };
+    let body: BodyInit | undefined;
+
+    if (typeof FormData !== 'undefined' && request.data instanceof FormData) {
+      // fetch sets the multipart boundary itself
+      for (const name of Object.keys(headers)) {
+        if (name.toLowerCase() === 'content-type') {
+          delete headers[name];
+        }
+      }
+      body = request.data;
+    } else if (isBinaryBody(request.data)) {
+      body = request.data as BodyInit;
+    } else if (request.data !== undefined) {
+      body = typeof request.data === 'string' ? request.data : JSON.stringify(request.data);
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeout);
+
+    try {
+      const response = await this.fetchImpl(url, {
+        method: request.method,
+        headers,
+        body,
+        signal: controller.signal
+      });
+
+      const responseHeaders: Record<string, string> = {};
+      response.headers.forEach((value, name) => {
+        responseHeaders[name.toLowerCase()] = value;
+      });
+
+      return {
+        status: response.status,
+        statusText: response.statusText,
+        headers: responseHeaders,
+        data: parseBody(await response.text())
+      };
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw Object.assign(new Error(`Request timed out after ${this.timeout}ms`), { code: 'ECONNABORTED' });
+      }
+
+      // Node's fetch reports the low-level error code on `cause`
+      const code = (error as { cause?: { code?: string } }).cause?.code;
+      throw code ? Object.assign(error as Error, { code }) : error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+/**
+ * Parses a response body as JSON, falling back to the raw text
+ * @param text - The response body
+ * @returns The parsed body
+ */
+function parseBody(text: string): unknown {
+  if (!text) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    return text;
+  }
+}
+
+/**
+ * Checks whether a request body is binary data that fetch can send as is
+ * @param data - The request body
+ * @returns Whether the body is an ArrayBuffer, a typed array or a Blob
+ */
+function isBinaryBody(data: unknown): boolean {
+  return data instanceof ArrayBuffer ||
+    ArrayBuffer.isView(data) ||
+    (typeof Blob !== 'undefined' && data instanceof Blob);
+}
@@ -0,0 +1,832 @@
+/**
+ * Freshdesk API Client
+ * Implements the SupportApiInterface for Freshdesk
+ */
+
+import {
+  CreateTicketRequest,
+  ListAllTicketsOptions,
+  PaginatedTicketsResponse,
+  SupportApiInterface,
+  Ticket,
+  TicketAttachment,
+  TicketDetails,
+  TicketFilterOptions,
+  TicketMessage,
+  TicketPriority,
+  TicketResponseRequest,
+  TicketStatus,
+  UpdateTicketRequest
+} from './types';
+import { NotFoundError, ValidationError } from './errors';
+import { HttpRequestContext, basicAuth } from './http';
+import { HttpApiClient, HttpApiClientConfig, HttpApiErrorBody } from './http-client';
+import { collectTickets, iterateTicketPages } from './pagination';
+
+/**
+ * Configuration for the Freshdesk API client
+ */
+export interface FreshdeskClientConfig extends HttpApiClientConfig {
+  domain: string; // Account subdomain, e.g. 'acme' for acme.freshdesk.com
+  apiKey: string; // Freshdesk API key
+  baseUrl?: string; // Overrides https://{domain}.freshdesk.com/api/v2 (e.g. for a proxy or a test server)
+}
+
+/**
+ * Raw Freshdesk attachment (API response)
+ */
+interface FreshdeskAttachment {
+  name: string;
+  size: number;
+  content_type: string;
+  attachment_url: string;
+  created_at: string;
+}
+
+/**
+ * Raw Freshdesk ticket (API response)
+ */
+interface FreshdeskTicket {
+  id: number;
+  subject: string | null;
+  description?: string | null; // HTML
+  description_text?: string | null;
+  status: number;
+  priority: number;
+  requester_id: number;
+  responder_id: number | null;
+  requester?: { id: number; email: string };
+  attachments?: FreshdeskAttachment[];
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Raw Freshdesk conversation (reply or note)
+ */
+interface FreshdeskConversation {
+  id: number;
+  body?: string; // HTML
+  body_text?: string;
+  user_id: number;
+  incoming?: boolean;
+  private?: boolean;
+  attachments?: FreshdeskAttachment[];
+  created_at: string;
+}
+
+const STATUS_FROM_FRESHDESK: Record<number, TicketStatus> = {
+  2: TicketStatus.OPEN,
+  3: TicketStatus.PENDING,
+  4: TicketStatus.RESOLVED,
+  5: TicketStatus.CLOSED
+};
+
+const STATUS_TO_FRESHDESK: Record<TicketStatus, number> = {
+  [TicketStatus.OPEN]: 2,
+  [TicketStatus.PENDING]: 3,
+  [TicketStatus.RESOLVED]: 4,
+  [TicketStatus.CLOSED]: 5
+};
+
+const PRIORITY_FROM_FRESHDESK: Record<number, TicketPriority> = {
+  1: TicketPriority.LOW,
+  2: TicketPriority.MEDIUM,
+  3: TicketPriority.HIGH,
+  4: TicketPriority.URGENT
+};
+
+const PRIORITY_TO_FRESHDESK: Record<TicketPriority, number> = {
+  [TicketPriority.LOW]: 1,
+  [TicketPriority.MEDIUM]: 2,
+  [TicketPriority.HIGH]: 3,
+  [TicketPriority.URGENT]: 4
+};
+
+const PRIORITY_ORDER: Record<TicketPriority, number> = {
+  [TicketPriority.LOW]: 0,
+  [TicketPriority.MEDIUM]: 1,
+  [TicketPriority.HIGH]: 2,
+  [TicketPriority.URGENT]: 3
+};
+
+// Freshdesk list endpoints return at most 100 records per page
+const MAX_PER_PAGE = 100;
+
+// The filter API always returns pages of 30 results, and at most 10 pages per query
+const SEARCH_PAGE_SIZE = 30;
+const SEARCH_MAX_PAGES = 10;
+const SEARCH_MAX_RESULTS = SEARCH_PAGE_SIZE * SEARCH_MAX_PAGES;
+
+// The list endpoint only returns tickets created in the last 30 days unless updated_since is set
+const UPDATED_SINCE_ALL = '1970-01-01T00:00:00Z';
+
+/**
+ * Freshdesk API Client implementation
+ * Handles communication with the Freshdesk API (v2)
+ */
+export class FreshdeskClient extends HttpApiClient implements SupportApiInterface {
+  // Freshdesk refers to people by ID, so emails are remembered once resolved
+  private userEmails = new Map<number, string>();
+  private agentIds = new Map<string, number>();
+
+  /**
+   * Creates a new Freshdesk API client
+   * @param config - Configuration for the client
+   */
+  constructor(config: FreshdeskClientConfig) {
+    super(config, {
+      provider: 'freshdesk',
+      label: 'Freshdesk',
+      baseUrl: (config.baseUrl || `https://${config.domain}.freshdesk.com/api/v2`).replace(/\/+$/, ''),
+      headers: {
+        'Content-Type': 'application/json',
+        // Freshdesk expects the API key as the username and any password
+        'Authorization': basicAuth(config.apiKey, 'X')
+      }
+    });
+  }
+
+  /**
+   * Makes a request to the Freshdesk API
+   * @param endpoint - API endpoint, relative to /api/v2 (e.g. '/tickets')
+   * @param method - HTTP method
+   * @param data - Request data (JSON or FormData)
+   * @param params - Query parameters
+   * @returns Response data
+   * @private
+   */
+  private async request<T>(
+    endpoint: string,
+    method: string = 'GET',
+    data?: unknown,
+    params?: Record<string, any>
+  ): Promise<T> {
+    const request: HttpRequestContext = {
+      method,
+      url: `${this.baseUrl}${endpoint}`,
+      headers: {
+        ...this.headers,
+        ...(typeof FormData !== 'undefined' && data instanceof FormData ? { 'Content-Type': 'multipart/form-data' } : {})
+      },
+      params: { ...params }
+    };
+
+    if (data !== undefined && method !== 'GET') {
+      request.data = data;
+    }
+
+    this.logger.debug('Freshdesk request', { method, endpoint, params });
+
+    return this.send<T>(endpoint, request);
+  }
+
+  /**
+   * Reads a Freshdesk error body
+   * Freshdesk reports errors as { description, errors: [{ field, message, code }] } or { code, message }
+   * @param data - The error response body
+   * @returns The error details
+   * @protected
+   */
+  protected parseErrorBody(data: Record<string, any>): HttpApiErrorBody {
+    const errorData: { description?: string; message?: string; errors?: unknown } = data;
+
+    return { message: errorData.description || errorData.message, errors: errorData.errors };
+  }
+
+  /**
+   * Creates a new support ticket
+   * Tickets with attachments are sent as multipart/form-data
+   * @param request - The ticket creation request
+   * @returns The created ticket
+   */
+  async createTicket(request: CreateTicketRequest): Promise<Ticket> {
+    const fields: Record<string, unknown> = {
+      email: request.userEmail,
+      subject: request.subject,
+      description: request.description,
+      status: STATUS_TO_FRESHDESK[TicketStatus.OPEN],
+      priority: PRIORITY_TO_FRESHDESK[request.priority || TicketPriority.MEDIUM],
+      custom_fields: request.customFields
+    };
+
+    const body = request.attachments && request.attachments.length > 0
+      ? this.toFormData(fields, request.attachments)
+      : fields;
+
+    const ticket = await this.request<FreshdeskTicket>('/tickets', 'POST', body);
+    this.userEmails.set(ticket.requester_id, request.userEmail);
+
+    return this.mapFreshdeskTicketToTicket(ticket);
+  }
+
+  /**
+   * Lists tickets requested by a user
+   * @param userEmail - The email of the user
+   * @param options - Filter options
+   * @returns Paginated list of tickets
+   */
+  async listUserTickets(userEmail: string, options?: TicketFilterOptions): Promise<PaginatedTicketsResponse> {
+    return this.searchTickets({ ...options, userEmail });
+  }
+
+  /**
+   * Lists tickets assigned to a specific agent
+   * @param adminEmail - The email of the agent
+   * @param options - Filter options
+   * @returns Paginated list of tickets
+   */
+  async listAssignedTickets(adminEmail: string, options?: TicketFilterOptions): Promise<PaginatedTicketsResponse> {
+    return this.searchTickets({ ...options, assignedTo: adminEmail });
+  }
+
+  /**
+   * Searches for tickets
+   * With `userEmail`, every ticket of the requester is fetched and filtered, sorted and paged locally.
+   * With `sortBy`, `sortOrder` or `searchQuery`, the list endpoint returns tickets in the requested order
+   * and the other filters are applied locally; it cannot sort by priority.
+   * Otherwise the Freshdesk filter API is used: results come in Freshdesk's order, and the API returns at most
+   * 10 pages of 30 results, so matches past the 300th cannot be read and `total` is capped at 300 (a warning is logged)
+   * @param options - Filter options
+   * @returns Paginated list of tickets
+   * @throws ValidationError if tickets are sorted by priority without `userEmail`
+   */
+  async searchTickets(options: TicketFilterOptions): Promise<PaginatedTicketsResponse> {
+    const page = Math.max(1, options.page || 1);
+    const limit = Math.max(1, options.limit || 30);
+
+    if (options.userEmail) {
+      const tickets = await this.fetchRequesterTickets(options.userEmail, options);
+      return this.toPaginatedResponse(tickets.slice((page - 1) * limit, page * limit), tickets.length, page, limit);
+    }
+
+    if (options.sortBy || options.sortOrder || options.searchQuery) {
+      return this.listSortedTickets(options, page, limit);
+    }
+
+    const query = await this.buildFilterQuery(options);
+    if (query === null) {
+      // Nobody is assigned to an unknown agent
+      return this.toPaginatedResponse([], 0, page, limit);
+    }
+
+    const offset = (page - 1) * limit;
+    let searchPage = Math.min(Math.floor(offset / SEARCH_PAGE_SIZE) + 1, SEARCH_MAX_PAGES);
+    // Pages past the cap would be rejected with a 400, so only the total is read for them
+    let skip = offset < SEARCH_MAX_RESULTS ? offset % SEARCH_PAGE_SIZE : SEARCH_PAGE_SIZE;
+    const tickets: Ticket[] = [];
+    let total = 0;
+
+    while (tickets.length < limit) {
+      const response = await this.request<{ results: FreshdeskTicket[]; total: number }>(
+        '/search/tickets',
+        'GET',
+        undefined,
+        { query: `"${query}"`, page: searchPage }
+      );
+      const results = (response.results || []).slice(skip);
+
+      await this.resolveEmails(results);
+      tickets.push(...results.map(ticket => this.mapFreshdeskTicketToTicket(ticket)));
+      total = response.total || 0;
+      skip = 0;
+
+      if ((response.results || []).length < SEARCH_PAGE_SIZE || searchPage * SEARCH_PAGE_SIZE >= Math.min(total, SEARCH_MAX_RESULTS)) {
+        break;
+      }
+      searchPage++;
+    }
+
+    if (total > SEARCH_MAX_RESULTS) {
+      this.logger.warn('Freshdesk filter API results truncated', { query, total, readable: SEARCH_MAX_RESULTS });
+    }
+
+    return this.toPaginatedResponse(tickets.slice(0, limit), Math.min(total, SEARCH_MAX_RESULTS), page, limit);
+  }
+
+  /**
+   * Iterates over every ticket matching the filter options, fetching pages as needed
+   * `options.limit` sets the batch size and `options.page` is ignored
+   * @param options - Filter options
+   * @returns An async iterator over the matching tickets
+   */
+  iterateTickets(options: TicketFilterOptions = {}): AsyncGenerator<Ticket> {
+    const filterApi = !options.userEmail && !options.sortBy && !options.sortOrder && !options.searchQuery;
+    const limit = options.limit || (filterApi ? SEARCH_PAGE_SIZE : MAX_PER_PAGE);
+    return iterateTicketPages(page => this.searchTickets({ ...options, page, limit }));
+  }
+
+  /**
+   * Collects every ticket matching the filter options
+   * @param options - Filter options
+   * @param limits - Limits for the collection (e.g. the maximum number of tickets)
+   * @returns The matching tickets
+   */
+  async listAllTickets(options: TicketFilterOptions = {}, limits: ListAllTicketsOptions = {}): Promise<Ticket[]> {
+    return collectTickets(this.iterateTickets(options), limits.max);
+  }
+
+  /**
+   * Gets the details of a specific ticket
+   * @param ticketId - The ID of the ticket
+   * @returns The ticket details including conversation
+   */
+  async getTicketDetails(ticketId: string): Promise<TicketDetails> {
+    const ticket = await this.fetchTicket(ticketId);
+    const conversation = await this.fetchConversations(ticket);
+
+    return {
+      ...this.mapFreshdeskTicketToTicket(ticket),
+      conversation
+    };
+  }
+
+  /**
+   * Retrieves the replies and notes of a ticket, oldest first
+   * @param ticketId - The ID of the ticket
+   * @returns The list of messages for the ticket
+   */
+  async getTicketConversations(ticketId: string): Promise<TicketMessage[]> {
+    return this.fetchConversations(await this.fetchTicket(ticketId));
+  }
+
+  /**
+   * Responds to a ticket
+   * Agent responses (with `agentEmail`) are sent as replies; responses without one are recorded
+   * as public incoming notes on behalf of the requester, which is how Freshdesk models customer messages
+   * @param request - The response request
+   * @returns The created ticket message
+   */
+  async respondToTicket(request: TicketResponseRequest): Promise<TicketMessage> {
+    const ticket = await this.fetchTicket(request.ticketId);
+    const endpoint = `/tickets/${encodeURIComponent(request.ticketId)}`;
+    let fields: Record<string, unknown>;
+    let path: string;
+
+    if (request.agentEmail) {
+      path = `${endpoint}/reply`;
+      fields = {
+        body: request.message,
+        user_id: await this.findAgentId(request.agentEmail),
+        from_email: request.fromEmail,
+        cc_emails: splitEmails(request.ccEmails),
+        bcc_emails: splitEmails(request.bccEmails)
+      };
+    } else {
+      path = `${endpoint}/notes`;
+      fields = {
+        body: request.message,
+        user_id: ticket.requester_id,
+        incoming: true,
+        private: false
+      };
+    }
+
+    const body = request.attachments && request.attachments.length > 0
+      ? this.toFormData(fields, request.attachments)
+      : fields;
+
+    const conversation = await this.request<FreshdeskConversation>(path, 'POST', body);
+    if (request.agentEmail) {
+      this.userEmails.set(conversation.user_id, request.agentEmail);
+    }
+
+    return this.mapFreshdeskConversationToTicketMessage(conversation, ticket);
+  }
+
+  /**
+   * Closes a ticket
+   * @param ticketId - The ID of the ticket to close
+   * @returns The updated ticket
+   */
+  async closeTicket(ticketId: string): Promise<Ticket> {
+    return this.updateTicket({ ticketId, status: TicketStatus.CLOSED });
+  }
+
+  /**
+   * Reopens a closed ticket
+   * @param ticketId - The ID of the ticket to reopen
+   * @returns The updated ticket
+   */
+  async reopenTicket(ticketId: string): Promise<Ticket> {
+    return this.updateTicket({ ticketId, status: TicketStatus.OPEN });
+  }
+
+  /**
+   * Assigns a ticket to a specific agent
+   * @param ticketId - The ID of the ticket
+   * @param assignTo - The email of the agent to assign the ticket to
+   * @returns The updated ticket
+   */
+  async assignTicket(ticketId: string, assignTo: string): Promise<Ticket> {
+    return this.updateTicket({ ticketId, assignedTo: assignTo });
+  }
+
+  /**
+   * Escalates a ticket by changing its priority
+   * @param ticketId - The ID of the ticket
+   * @param priority - The new priority
+   * @returns The updated ticket
+   */
+  async escalateTicket(ticketId: string, priority: TicketPriority): Promise<Ticket> {
+    return this.updateTicket({ ticketId, priority });
+  }
+
+  /**
+   * Updates a ticket's properties
+   * @param request - The update request
+   * @returns The updated ticket
+   */
+  async updateTicket(request: UpdateTicketRequest): Promise<Ticket> {
+    const update: Record<string, unknown> = {};
+
+    if (request.status) {
+      update.status = STATUS_TO_FRESHDESK[request.status];
+    }
+
+    if (request.priority) {
+      update.priority = PRIORITY_TO_FRESHDESK[request.priority];
+    }
+
+    if (request.assignedTo) {
+      const agentId = await this.findAgentId(request.assignedTo);
+      if (agentId === undefined) {
+        throw new NotFoundError(`Freshdesk API Error: No agent with email ${request.assignedTo}`, {
+          provider: 'freshdesk',
+          status: 404,
+          method: 'GET',
+          endpoint: '/agents'
+        });
+      }
+      update.responder_id = agentId;
+    }
+
+    if (request.customFields) {
+      update.custom_fields = request.customFields;
+    }
+
+    const ticket = await this.request<FreshdeskTicket>(`/tickets/${encodeURIComponent(request.ticketId)}`, 'PUT', update);
+    await this.resolveEmails([ticket]);
+
+    return this.mapFreshdeskTicketToTicket(ticket);
+  }
+
+  /**
+   * Fetches a raw ticket along with its requester
+   * @param ticketId - The ID of the ticket
+   * @returns The raw Freshdesk ticket
+   * @private
+   */
+  private async fetchTicket(ticketId: string): Promise<FreshdeskTicket> {
+    const ticket = await this.request<FreshdeskTicket>(
+      `/tickets/${encodeURIComponent(ticketId)}`,
+      'GET',
+      undefined,
+      { include: 'requester' }
+    );
+    await this.resolveEmails([ticket]);
+    return ticket;
+  }
+
+  /**
+   * Fetches every conversation of a ticket, oldest first
+   * @param ticket - The raw ticket
+   * @returns The mapped messages
+   * @private
+   */
+  private async fetchConversations(ticket: FreshdeskTicket): Promise<TicketMessage[]> {
+    const conversations: FreshdeskConversation[] = [];
+
+    for (let page = 1; ; page++) {
+      const batch = await this.request<FreshdeskConversation[]>(
+        `/tickets/${ticket.id}/conversations`,
+        'GET',
+        undefined,
+        { page, per_page: MAX_PER_PAGE }
+      );
+      conversations.push(...(batch || []));
+
+      if (!batch || batch.length < MAX_PER_PAGE) {
+        break;
+      }
+    }
+
+    for (const conversation of conversations) {
+      await this.resolveUserEmail(conversation.user_id);
+    }
+
+    return conversations.map(conversation => this.mapFreshdeskConversationToTicketMessage(conversation, ticket));
+  }
+
+  /**
+   * Fetches every ticket of a requester and applies the remaining filters and sorting locally
+   * @param email - The requester's email
+   * @param options - Filter options
+   * @returns The matching tickets, sorted
+   * @private
+   */
+  private async fetchRequesterTickets(email: string, options: TicketFilterOptions): Promise<Ticket[]> {
+    const raw: FreshdeskTicket[] = [];
+
+    for (let page = 1; ; page++) {
+      const batch = await this.request<FreshdeskTicket[]>('/tickets', 'GET', undefined, {
+        email,
+        include: options.includeDescription ? 'requester,description' : 'requester',
+        updated_since: UPDATED_SINCE_ALL,
+        page,
+        per_page: MAX_PER_PAGE
+      });
+      raw.push(...(batch || []));
+
+      if (!batch || batch.length < MAX_PER_PAGE) {
+        break;
+      }
+    }
+
+    await this.resolveEmails(raw);
+
+    const sortBy = options.sortBy || 'createdAt';
+    const direction = options.sortOrder === 'asc' ? 1 : -1;
+
+    return raw
+      .map(ticket => this.mapFreshdeskTicketToTicket(ticket))
+      .filter(ticket => this.matchesFilters(ticket, options))
+      .sort((a, b) => {
+        const difference = sortBy === 'priority'
+          ? PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority]
+          : a[sortBy].localeCompare(b[sortBy]);
+        return (difference || Number(a.id) - Number(b.id)) * direction;
+      });
+  }
+
+  /**
+   * Lists tickets in the requested order through the list endpoint, applying the other filters locally
+   * Freshdesk does not report a total here, so every batch is fetched to count the matching tickets
+   * @param options - Filter options
+   * @param page - The page to return (1-based)
+   * @param limit - The page size
+   * @returns The page of tickets
+   * @throws ValidationError if tickets are sorted by priority
+   * @private
+   */
+  private async listSortedTickets(options: TicketFilterOptions, page: number, limit: number): Promise<PaginatedTicketsResponse> {
+    if (options.sortBy === 'priority') {
+      throw new ValidationError('Freshdesk can only sort tickets by priority together with userEmail', {
+        provider: 'freshdesk',
+        endpoint: '/tickets'
+      });
+    }
+
+    const offset = (page - 1) * limit;
+    const matches: Ticket[] = [];
+
+    for (let listPage = 1; ; listPage++) {
+      const batch = await this.request<FreshdeskTicket[]>('/tickets', 'GET', undefined, {
+        include: options.includeDescription || options.searchQuery ? 'requester,description' : 'requester',
+        updated_since: UPDATED_SINCE_ALL,
+        order_by: options.sortBy === 'updatedAt' ? 'updated_at' : 'created_at',
+        order_type: options.sortOrder === 'asc' ? 'asc' : 'desc',
+        page: listPage,
+        per_page: MAX_PER_PAGE
+      });
+
+      await this.resolveEmails(batch || []);
+      matches.push(...(batch || [])
+        .map(ticket => this.mapFreshdeskTicketToTicket(ticket))
+        .filter(ticket => this.matchesFilters(ticket, options)));
+
+      if (!batch || batch.length < MAX_PER_PAGE) {
+        break;
+      }
+    }
+
+    return this.toPaginatedResponse(matches.slice(offset, offset + limit), matches.length, page, limit);
+  }
+
+  /**
+   * Whether a ticket matches the status, priority, agent and text filters
+   * @param ticket - The mapped ticket
+   * @param options - Filter options
+   * @returns True if the ticket matches every filter that is set
+   * @private
+   */
+  private matchesFilters(ticket: Ticket, options: TicketFilterOptions): boolean {
+    const searchQuery = options.searchQuery?.toLowerCase();
+
+    return (!options.status || ticket.status === options.status) &&
+      (!options.priority || ticket.priority === options.priority) &&
+      (!options.assignedTo || ticket.assignedTo === options.assignedTo) &&
+      (!searchQuery || `${ticket.subject} ${ticket.description}`.toLowerCase().includes(searchQuery));
+  }
+
+  /**
+   * Builds a Freshdesk filter API query for filter options
+   * @param options - Filter options
+   * @returns The query (without the surrounding quotes), or null if no ticket can match
+   * @private
+   */
+  private async buildFilterQuery(options: TicketFilterOptions): Promise<string | null> {
+    const terms: string[] = [];
+
+    if (options.assignedTo) {
+      const agentId = await this.findAgentId(options.assignedTo);
+      if (agentId === undefined) {
+        return null;
+      }
+      terms.push(`agent_id:${agentId}`);
+    }
+
+    if (options.status) {
+      terms.push(`status:${STATUS_TO_FRESHDESK[options.status]}`);
+    }
+
+    if (options.priority) {
+      terms.push(`priority:${PRIORITY_TO_FRESHDESK[options.priority]}`);
+    }
+
+    if (terms.length === 0) {
+      // The filter API needs at least one condition
+      terms.push("created_at:>'1970-01-01'");
+    }
+
+    return terms.join(' AND ');
+  }
+
+  /**
+   * Builds a multipart body from fields and attachments
+   * @param fields - Ticket or conversation fields
+   * @param attachments - The files to attach
+   * @returns The multipart body
+   * @private
+   */
+  private toFormData(fields: Record<string, unknown>, attachments: File[]): FormData {
+    const formData = new FormData();
+
+    for (const [name, value] of Object.entries(fields)) {
+      if (value === undefined || value === null) {
+        continue;
+      }
+
+      if (Array.isArray(value)) {
+        value.forEach(item => formData.append(`${name}[]`, String(item)));
+      } else if (typeof value === 'object') {
+        for (const [key, nested] of Object.entries(value as Record<string, unknown>)) {
+          formData.append(`${name}[${key}]`, String(nested));
+        }
+      } else {
+        formData.append(name, String(value));
+      }
+    }
+
+    for (const file of attachments) {
+      formData.append('attachments[]', file, file.name);
+    }
+
+    return formData;
+  }
+
+  /**
+   * Looks up the ID of an agent by email
+   * @param email - The email of the agent
+   * @returns The agent ID, or undefined if there is no such agent
+   * @private
+   */
+  private async findAgentId(email: string): Promise<number | undefined> {
+    if (!this.agentIds.has(email)) {
+      const agents = await this.request<Array<{ id: number; contact: { email: string } }>>(
+        '/agents',
+        'GET',
+        undefined,
+        { email }
+      );
+      const agent = (agents || [])[0];
+      if (!agent) {
+        return undefined;
+      }
+      this.agentIds.set(email, agent.id);
+      this.userEmails.set(agent.id, agent.contact.email);
+    }
+
+    return this.agentIds.get(email);
+  }
+
+  /**
+   * Resolves the requester and assignee emails of tickets
+   * @param tickets - The raw tickets
+   * @private
+   */
+  private async resolveEmails(tickets: FreshdeskTicket[]): Promise<void> {
+    for (const ticket of tickets) {
+      if (ticket.requester?.email) {
+        this.userEmails.set(ticket.requester.id, ticket.requester.email);
+      }
+      await this.resolveUserEmail(ticket.requester_id);
+      if (ticket.responder_id) {
+        await this.resolveUserEmail(ticket.responder_id);
+      }
+    }
+  }
+
+  /**
+   * Resolves the email of a user, who may be an agent or a contact
+   * @param userId - The Freshdesk user ID
+   * @private
+   */
+  private async resolveUserEmail(userId: number): Promise<void> {
+    if (this.userEmails.has(userId)) {
+      return;
+    }
+
+    try {
+      const agent = await this.request<{ contact: { email: string } }>(`/agents/${userId}`);
+      this.userEmails.set(userId, agent.contact.email);
+    } catch (error) {
+      if (!(error instanceof NotFoundError)) {
+        throw error;
+      }
+      const contact = await this.request<{ email: string }>(`/contacts/${userId}`);
+      this.userEmails.set(userId, contact.email);
+    }
+  }
+
+  /**
+   * Maps a Freshdesk ticket to our generic Ticket interface
+   * @param ticket - The Freshdesk ticket
+   * @returns The mapped ticket
+   * @private
+   */
+  private mapFreshdeskTicketToTicket(ticket: FreshdeskTicket): Ticket {
+    return {
+      id: String(ticket.id),
+      subject: ticket.subject || '',
+      description: ticket.description_text ?? ticket.description ?? '',
+      // Custom statuses (6 and above) are "waiting" states in Freshdesk
+      status: STATUS_FROM_FRESHDESK[ticket.status] || (ticket.status >= 6 ? TicketStatus.PENDING : TicketStatus.OPEN),
+      priority: PRIORITY_FROM_FRESHDESK[ticket.priority] || TicketPriority.MEDIUM,
+      userEmail: this.userEmails.get(ticket.requester_id) || '',
+      assignedTo: ticket.responder_id ? this.userEmails.get(ticket.responder_id) : undefined,
+      createdAt: ticket.created_at,
+      updatedAt: ticket.updated_at,
+      attachments: (ticket.attachments || []).map(attachment => this.mapFreshdeskAttachmentToTicketAttachment(attachment))
+    };
+  }
+
+  /**
+   * Maps a Freshdesk conversation to our generic TicketMessage interface
+   * @param conversation - The Freshdesk reply or note
+   * @param ticket - The ticket the conversation belongs to
+   * @returns The mapped ticket message
+   * @private
+   */
+  private mapFreshdeskConversationToTicketMessage(conversation: FreshdeskConversation, ticket: FreshdeskTicket): TicketMessage {
+    return {
+      id: String(conversation.id),
+      ticketId: String(ticket.id),
+      message: conversation.body_text ?? conversation.body ?? '',
+      sender: this.userEmails.get(conversation.user_id) || '',
+      isStaff: conversation.user_id !== ticket.requester_id,
+      createdAt: conversation.created_at,
+      attachments: (conversation.attachments || []).map(attachment => this.mapFreshdeskAttachmentToTicketAttachment(attachment))
+    };
+  }
+
+  /**
+   * Maps a Freshdesk attachment to our generic TicketAttachment interface
+   * @param attachment - The Freshdesk attachment
+   * @returns The mapped ticket attachment
+   * @private
+   */
+  private mapFreshdeskAttachmentToTicketAttachment(attachment: FreshdeskAttachment): TicketAttachment {
+    return {
+      fileName: attachment.name,
+      fileSize: attachment.size,
+      fileType: attachment.content_type,
+      createdOn: attachment.created_at,
+      url: attachment.attachment_url
+    };
+  }
+
+  /**
+   * Builds a paginated response
+   * @private
+   */
+  private toPaginatedResponse(tickets: Ticket[], total: number, page: number, limit: number): PaginatedTicketsResponse {
+    return {
+      tickets,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit)
+    };
+  }
+}
+
+/**
+ * Splits a comma-separated list of emails
+ * @param emails - The comma-separated emails
+ * @returns The emails, or undefined if there are none
+ */
+function splitEmails(emails?: string): string[] | undefined {
+  const list = (emails || '').split(',').map(email => email.trim()).filter(Boolean);
+  return list.length > 0 ? list : undefined;
+}
@@ -0,0 +1,294 @@
+/**
+ * Support API HTTP Client
+ * Request pipeline shared by the HTTP providers: transport selection, hooks, rate limiting, retries and typed errors
+ */
+
+import { AxiosInstance } from 'axios';
+import { createErrorFromStatus, NetworkError, SupportApiError } from './errors';
+import { createConsoleLogger, Logger, silentLogger } from './logger';
+import { parseRetryAfter, RetryPolicy, withRetry } from './retry';
+import { RateLimiter, RateLimiterOptions, RateLimiterStats } from './rate-limiter';
+import {
+  HttpProxyConfig,
+  HttpRequestContext,
+  HttpTransport,
+  HttpTransportResponse,
+  RequestHook,
+  ResponseHook,
+  serializeParams
+} from './http';
+import { AxiosTransport } from './axios-transport';
+import { FetchTransport } from './fetch-transport';
+
+/**
+ * Logging, retry, rate limiting and transport options accepted by every HTTP provider
+ */
+export interface HttpApiClientConfig {
+  verbose?: boolean; // Log debug output to the console when no logger is supplied
+  logger?: Logger; // Destination for log output (silent by default)
+  retry?: RetryPolicy | false; // Retry policy for transient failures (pass false to disable)
+  rateLimit?: RateLimiterOptions; // Client-side request budget and concurrency cap
+  timeout?: number; // Request timeout in milliseconds (defaults to 30000)
+  keepAlive?: boolean; // Reuse connections in Node.js (defaults to true)
+  proxy?: HttpProxyConfig | false; // Proxy for outgoing requests (false disables environment proxies)
+  httpClient?: AxiosInstance; // Preconfigured axios instance to use instead of creating one
+  transport?: 'axios' | 'fetch' | HttpTransport; // How requests are sent (defaults to 'axios')
+}
+
+/**
+ * Provider identity and connection settings, resolved by the provider before the pipeline is created
+ */
+export interface HttpApiConnection {
+  provider: string; // Provider reported in errors (e.g. 'desk365')
+  label: string; // Provider name used in messages and logs (e.g. 'Desk365')
+  baseUrl: string; // API root every endpoint is appended to
+  headers: Record<string, string>; // Headers sent with every request (authentication, content type)
+}
+
+/**
+ * Error details read from a provider's error response body
+ */
+export interface HttpApiErrorBody {
+  message?: string; // Human readable reason given by the provider
+  errors?: unknown; // The provider's detailed errors payload, if any
+}
+
+/**
+ * Base class of the HTTP providers
+ * Every HTTP call goes through send(); providers only build requests and read their error bodies
+ */
+export abstract class HttpApiClient {
+  protected readonly provider: string;
+  protected readonly label: string;
+  protected baseUrl: string;
+  protected headers: Record<string, string>;
+  protected logger: Logger;
+  protected retryPolicy: RetryPolicy | false;
+  protected rateLimiter: RateLimiter;
+  protected transport: HttpTransport;
+  private requestHooks: RequestHook[] = [];
+  private responseHooks: ResponseHook[] = [];
+
+  /**
+   * Creates the request pipeline
+   * @param config - Logging, retry, rate limiting and transport options
+   * @param connection - Provider identity, base URL and default headers
+   */
+  protected constructor(config: HttpApiClientConfig, connection: HttpApiConnection) {
+    this.provider = connection.provider;
+    this.label = connection.label;
+    this.baseUrl = connection.baseUrl;
+    this.headers = connection.headers;
+    this.logger = config.logger || (config.verbose ? createConsoleLogger('debug') : silentLogger);
+    this.retryPolicy = config.retry ?? {};
+    this.rateLimiter = new RateLimiter(config.rateLimit);
+    this.transport = this.createTransport(config);
+  }
+
+  /**
+   * Returns the client-side rate limiter state (queue depth and remaining budget)
+   * @returns A snapshot of the rate limiter
+   */
+  getRateLimitStats(): RateLimiterStats {
+    return this.rateLimiter.getStats();
+  }
+
+  /**
+   * Registers a hook that runs before every request is sent
+   * The hook may modify the request headers and query parameters
+   * @param hook - The hook to register
+   * @returns A function that unregisters the hook
+   */
+  onRequest(hook: RequestHook): () => void {
+    this.requestHooks.push(hook);
+    return () => {
+      this.requestHooks = this.requestHooks.filter(registered => registered !== hook);
+    };
+  }
+
+  /**
+   * Registers a hook that runs after every successful response
+   * @param hook - The hook to register
+   * @returns A function that unregisters the hook
+   */
+  onResponse(hook: ResponseHook): () => void {
+    this.responseHooks.push(hook);
+    return () => {
+      this.responseHooks = this.responseHooks.filter(registered => registered !== hook);
+    };
+  }
+
+  /**
+   * Reads the reason and detailed errors from a provider's error response body
+   * @param data - The error response body, if it is an object
+   * @returns The error details found in the body
+   */
+  protected abstract parseErrorBody(data: Record<string, any>): HttpApiErrorBody;
+
+  /**
+   * Performs an HTTP call with retries, logging and typed error conversion
+   * Failures are logged at error level, except those the caller expects and handles, which are logged at debug level
+   * @param endpoint - API endpoint, used for logs and errors
+   * @param request - The request to send
+   * @param retrySafe - Whether a non-idempotent request may be retried
+   * @param isExpected - Recognizes failures the caller handles (e.g. a 405 it falls back from)
+   * @returns Response data
+   */
+  protected async send<T>(
+    endpoint: string,
+    request: HttpRequestContext,
+    retrySafe: boolean = false,
+    isExpected?: (error: SupportApiError) => boolean
+  ): Promise<T> {
+    const { method } = request;
+
+    try {
+      const response = await withRetry(async () => {
+        try {
+          // Every attempt, including retries, consumes a slot of the shared budget
+          return await this.rateLimiter.schedule(() => this.dispatch(request, endpoint));
+        } catch (error) {
+          throw this.toSupportApiError(error, method, endpoint);
+        }
+      }, this.retryPolicy, { method, endpoint, safe: retrySafe, logger: this.logger });
+
+      this.logger.debug(`${this.label} response`, { method, endpoint, status: response.status });
+
+      return response.data as T;
+    } catch (error: unknown) {
+      const apiError = this.toSupportApiError(error, method, endpoint);
+      const log = isExpected?.(apiError) ? this.logger.debug : this.logger.error;
+      log.call(this.logger, `${this.label} request failed`, {
+        method,
+        endpoint,
+        status: apiError.status,
+        code: apiError.code,
+        message: apiError.message,
+        errors: apiError.errors
+      });
+      throw apiError;
+    }
+  }
+
+  /**
+   * Converts any other failure during an HTTP call into a typed SupportApiError
+   * @param error - The caught error
+   * @param method - HTTP method of the failed request
+   * @param endpoint - Endpoint of the failed request
+   * @returns The typed error
+   */
+  protected toSupportApiError(error: unknown, method: string, endpoint: string): SupportApiError {
+    if (error instanceof SupportApiError) {
+      return error;
+    }
+
+    return new SupportApiError(
+      `${this.label} API Error: ${error instanceof Error ? error.message : String(error)}`,
+      { provider: this.provider, method, endpoint, cause: error }
+    );
+  }
+
+  /**
+   * Creates the HTTP transport selected by the configuration
+   * @param config - Transport options
+   * @returns The transport used for every request
+   * @private
+   */
+  private createTransport(config: HttpApiClientConfig): HttpTransport {
+    if (config.transport && typeof config.transport === 'object') {
+      return config.transport;
+    }
+
+    if (config.transport === 'fetch') {
+      return new FetchTransport({ timeout: config.timeout });
+    }
+
+    return new AxiosTransport({
+      baseUrl: this.baseUrl,
+      headers: this.headers,
+      timeout: config.timeout,
+      keepAlive: config.keepAlive,
+      proxy: config.proxy,
+      instance: config.httpClient
+    });
+  }
+
+  /**
+   * Sends a single attempt of a request through the client's transport, running the hooks
+   * @param request - The request to send
+   * @param endpoint - API endpoint, used for errors
+   * @returns The transport response
+   * @private
+   */
+  private async dispatch(request: HttpRequestContext, endpoint: string): Promise<HttpTransportResponse> {
+    // Hooks get a fresh copy on every attempt so that retries start from the original request
+    const attempt: HttpRequestContext = {
+      ...request,
+      headers: { ...request.headers },
+      params: request.params && { ...request.params }
+    };
+
+    for (const hook of this.requestHooks) {
+      await hook(attempt);
+    }
+
+    const query = serializeParams(attempt.params);
+    this.logger.debug('Final request URL', { url: `${attempt.url}${query ? `?${query}` : ''}` });
+
+    let response: HttpTransportResponse;
+    try {
+      response = await this.transport.send(attempt);
+    } catch (error) {
+      const code = (error as { code?: string }).code;
+      throw new NetworkError(`${this.label} API Error: No response received from server`, {
+        provider: this.provider,
+        method: attempt.method,
+        endpoint,
+        code,
+        // An unknown host will not start resolving on a retry
+        retryable: code !== 'ENOTFOUND',
+        cause: error
+      });
+    }
+
+    if (response.status >= 400) {
+      throw this.createResponseError(response, attempt.method, endpoint);
+    }
+
+    for (const hook of this.responseHooks) {
+      await hook({
+        request: attempt,
+        status: response.status,
+        headers: response.headers,
+        data: response.data
+      });
+    }
+
+    return response;
+  }
+
+  /**
+   * Creates the typed error for an error response
+   * @param response - The error response
+   * @param method - HTTP method of the failed request
+   * @param endpoint - Endpoint of the failed request
+   * @returns The typed error
+   * @private
+   */
+  private createResponseError(response: HttpTransportResponse, method: string, endpoint: string): SupportApiError {
+    const data = response.data;
+    const body = this.parseErrorBody(data && typeof data === 'object' ? data : {});
+
+    return createErrorFromStatus(
+      response.status,
+      `${this.label} API Error: ${body.message || response.statusText || `HTTP ${response.status}`}`,
+      {
+        provider: this.provider,
+        method,
+        endpoint,
+        errors: body.errors,
+        retryAfterMs: parseRetryAfter(response.headers['retry-after'])
+      }
+    );
+  }
+}
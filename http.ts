@@ -0,0 +1,137 @@
+/**
+ * Support API HTTP
+ * Transport interface, request/response hook types and HTTP helpers shared by the support API clients
+ */
+
+import qs from 'qs';
+
+/**
+ * Outgoing request as seen by request hooks
+ * Hooks may mutate `headers` and `params` before the request is sent
+ */
+export interface HttpRequestContext {
+  method: string;
+  url: string; // Full URL, without the query string
+  headers: Record<string, string>;
+  params?: Record<string, any>;
+  data?: unknown;
+}
+
+/**
+ * Received response as seen by response hooks
+ */
+export interface HttpResponseContext {
+  request: HttpRequestContext;
+  status: number;
+  headers: Record<string, string>;
+  data: unknown;
+}
+
+/**
+ * Response returned by an HttpTransport
+ */
+export interface HttpTransportResponse {
+  status: number;
+  statusText?: string;
+  headers: Record<string, string>; // Header names are lowercase
+  data: unknown; // Parsed JSON when the body is JSON, otherwise the raw text
+}
+
+/**
+ * Sends HTTP requests on behalf of a support API client
+ * Implementations resolve with the response for every HTTP status (including 4xx and 5xx)
+ * and only reject when no response was received, attaching a `code` (e.g. 'ECONNRESET') when known
+ */
+export interface HttpTransport {
+  send(request: HttpRequestContext): Promise<HttpTransportResponse>;
+}
+
+/**
+ * Hook called before every request is sent
+ */
+export type RequestHook = (request: HttpRequestContext) => void | Promise<void>;
+
+/**
+ * Hook called after every successful response is received
+ */
+export type ResponseHook = (response: HttpResponseContext) => void | Promise<void>;
+
+/**
+ * Proxy settings for outgoing requests
+ */
+export interface HttpProxyConfig {
+  protocol?: string;
+  host: string;
+  port: number;
+  auth?: {
+    username: string;
+    password: string;
+  };
+}
+
+/**
+ * Serializes query parameters the way the support providers expect (arrays in brackets)
+ * @param params - The query parameters
+ * @returns The query string, without the leading '?'
+ */
+export function serializeParams(params: Record<string, any> = {}): string {
+  return qs.stringify(params, { arrayFormat: 'brackets' });
+}
+
+/**
+ * Builds a Basic Authorization header value
+ * @param username - The username
+ * @param password - The password
+ * @returns The header value, e.g. 'Basic dXNlcjpwYXNz'
+ */
+export function basicAuth(username: string, password: string): string {
+  const bytes = new TextEncoder().encode(`${username}:${password}`);
+  return `Basic ${typeof Buffer !== 'undefined'
+    ? Buffer.from(bytes).toString('base64')
+    : btoa(String.fromCharCode(...Array.from(bytes)))}`;
+}
+
+/**
+ * Creates keep-alive HTTP agents when running in Node.js
+ * @param keepAlive - Whether connections should be reused
+ * @returns The agents, or an empty object outside Node.js or when keep-alive is disabled
+ */
+export function createHttpAgents(keepAlive: boolean): { httpAgent?: unknown; httpsAgent?: unknown } {
+  const isNode = typeof process !== 'undefined' && process.versions && process.versions.node;
+  if (!keepAlive || !isNode) {
+    return {};
+  }
+
+  // Required here rather than imported, since the check above must run before Node's http modules are loaded
+  const http = require('http');
+  const https = require('https');
+
+  return {
+    httpAgent: new http.Agent({ keepAlive: true }),
+    httpsAgent: new https.Agent({ keepAlive: true })
+  };
+}
+
+/**
+ * Flattens a headers object into a plain string map
+ * @param headers - Headers in any object form (e.g. AxiosHeaders)
+ * @returns The headers as a plain object
+ */
+export function toHeaderRecord(headers: unknown): Record<string, string> {
+  const record: Record<string, string> = {};
+  if (!headers || typeof headers !== 'object') {
+    return record;
+  }
+
+  const source = typeof (headers as { toJSON?: () => unknown }).toJSON === 'function'
+    ? (headers as { toJSON: () => Record<string, unknown> }).toJSON()
+    : (headers as Record<string, unknown>);
+
+  for (const [key, value] of Object.entries(source)) {
+    if (value !== undefined && value !== null) {
+      record[key.toLowerCase()] = String(value);
+    }
+  }
+
+  return record;
+}
@@ -3,29 +3,76 @@
  * Provides a unified interface for interacting with support/helpdesk systems
  */
 
-import { Desk365Client, Desk365ClientConfig } from './client';
+import { Desk365Client, Desk365ClientConfig, Desk365MappingConfig, Desk365TicketDefaults } from './client';
+import { ZendeskClient } from './zendesk-client';
+import { FreshdeskClient } from './freshdesk-client';
 import { SupportApiInterface } from './types';
+import { ValidationError } from './errors';
+import { HttpApiClientConfig } from './http-client';
+import { CustomFieldCodec } from './custom-fields';
+import { InMemoryFixtures, InMemorySupportProvider } from './memory-provider';
+import { LocalFileSupportProvider } from './local-file-provider';
 
 // Re-export all types for consumers
 export * from './types';
+export * from './errors';
+export * from './logger';
+export * from './retry';
+export * from './rate-limiter';
+export * from './request-coalescer';
+export * from './http';
+export * from './http-client';
+export * from './axios-transport';
+export * from './fetch-transport';
+export * from './pagination';
+export * from './custom-fields';
+export * from './bulk';
+export * from './memory-provider';
+export * from './local-file-provider';
+export * from './conformance';
+export * from './zendesk-client';
+export * from './freshdesk-client';
+export * from './composite-provider';
+export * from './desk365-schemas';
+export * from './desk365-webhooks';
+export * from './ticket-watcher';
+export * from './cache';
 
 /**
  * Provider type for the support API
  */
 export enum SupportProvider {
   DESK365 = 'desk365',
+  MEMORY = 'memory',
+  ZENDESK = 'zendesk',
+  FRESHDESK = 'freshdesk',
+  LOCAL = 'local',
   // Add other providers as needed
 }
 
 /**
  * Configuration for creating a support API client
+ * The HTTP options (logging, retries, rate limiting, timeout, keep-alive, proxy and transport) apply to every HTTP provider
  */
-export interface SupportApiConfig {
+export interface SupportApiConfig extends HttpApiClientConfig {
   provider: SupportProvider;
-  baseUrl: string;
-  apiKey: string;
+  baseUrl?: string; // Required by Desk365; overrides the Zendesk and Freshdesk API URLs
+  apiKey?: string; // Required by Desk365 and Freshdesk
+  subdomain?: string; // Zendesk or Freshdesk account subdomain (e.g. 'acme' for acme.zendesk.com)
+  email?: string; // Email of the Zendesk agent the API token belongs to
+  token?: string; // Zendesk API token
   orgId?: string; // Made optional since not all providers require it
-  verbose?: boolean; // Add verbose option for more detailed logging
+  fixtures?: InMemoryFixtures; // Tickets to seed the in-memory provider with
+  dataDir?: string; // Directory the local file provider stores tickets and attachments in
+  ticketDefaults?: Desk365TicketDefaults; // Type, group, category, sub-category, source and tags of new Desk365 tickets
+  coalesceRequests?: Desk365ClientConfig['coalesceRequests']; // Desk365: share one HTTP request between concurrent identical GETs
+  validation?: Desk365ClientConfig['validation']; // Desk365: throw on responses that do not match the schema, or report them
+  onValidationIssues?: Desk365ClientConfig['onValidationIssues']; // Desk365: receives schema mismatches in lenient mode
+  mapping?: Desk365MappingConfig; // Desk365: status and priority tables and the policy for unmapped values
+  customFieldTypes?: Desk365ClientConfig['customFieldTypes']; // Desk365 and Zendesk: custom field types by name, for converting values
+  customFieldCodec?: CustomFieldCodec; // Desk365 and Zendesk: translates custom field names (e.g. prefixCustomFieldCodec('cf_'))
+  validateCustomFields?: boolean; // Desk365: check customFields against the tenant's definitions before sending
+  customFieldDefinitionsTtl?: number; // Desk365: how long custom field definitions are cached per tenant, in milliseconds
   // Add any other configuration options that might be needed in the future
 }
 
@@ -33,17 +80,76 @@ export interface SupportApiConfig {
  * Creates a new support API client based on the provided configuration
  * @param config - The configuration for the client
  * @returns A support API client instance
+ * @throws ValidationError if the provider is unknown or its required settings are missing
  */
 export function createSupportApi(config: SupportApiConfig): SupportApiInterface {
+  const http: HttpApiClientConfig = {
+    verbose: config.verbose,
+    logger: config.logger,
+    retry: config.retry,
+    rateLimit: config.rateLimit,
+    timeout: config.timeout,
+    keepAlive: config.keepAlive,
+    proxy: config.proxy,
+    httpClient: config.httpClient,
+    transport: config.transport
+  };
+
   switch (config.provider) {
     case SupportProvider.DESK365:
+      if (!config.baseUrl || !config.apiKey) {
+        throw new ValidationError('The Desk365 provider requires baseUrl and apiKey', { provider: 'desk365' });
+      }
       return new Desk365Client({
+        ...http,
         baseUrl: config.baseUrl,
         apiKey: config.apiKey,
-        verbose: config.verbose
+        coalesceRequests: config.coalesceRequests,
+        validation: config.validation,
+        onValidationIssues: config.onValidationIssues,
+        mapping: config.mapping,
+        ticketDefaults: config.ticketDefaults,
+        customFieldTypes: config.customFieldTypes,
+        customFieldCodec: config.customFieldCodec,
+        validateCustomFields: config.validateCustomFields,
+        customFieldDefinitionsTtl: config.customFieldDefinitionsTtl
+      });
+    case SupportProvider.ZENDESK:
+      if ((!config.subdomain && !config.baseUrl) || !config.email || !config.token) {
+        throw new ValidationError('The Zendesk provider requires subdomain, email and token', { provider: 'zendesk' });
+      }
+      return new ZendeskClient({
+        ...http,
+        subdomain: config.subdomain || '',
+        email: config.email,
+        token: config.token,
+        baseUrl: config.baseUrl,
+        customFieldTypes: config.customFieldTypes,
+        customFieldCodec: config.customFieldCodec
+      });
+    case SupportProvider.FRESHDESK:
+      if ((!config.subdomain && !config.baseUrl) || !config.apiKey) {
+        throw new ValidationError('The Freshdesk provider requires subdomain and apiKey', { provider: 'freshdesk' });
+      }
+      return new FreshdeskClient({
+        ...http,
+        domain: config.subdomain || '',
+        apiKey: config.apiKey,
+        baseUrl: config.baseUrl
+      });
+    case SupportProvider.MEMORY:
+      return new InMemorySupportProvider({
+        fixtures: config.fixtures
+      });
+    case SupportProvider.LOCAL:
+      if (!config.dataDir) {
+        throw new ValidationError('The local provider requires dataDir', { provider: 'local' });
+      }
+      return new LocalFileSupportProvider({
+        dataDir: config.dataDir
       });
     default:
-      throw new Error(`Unsupported support provider: ${config.provider}`);
+      throw new ValidationError(`Unsupported support provider: ${config.provider}`);
   }
 }
 
@@ -0,0 +1,172 @@
+/**
+ * Local File Support Provider
+ * Implements the SupportApiInterface on top of a local directory, for offline development
+ *
+ * Node.js only: tickets and conversations are kept in `tickets.json` and attachments
+ * under `attachments/<ticketId>/` inside the data directory
+ */
+
+import { TicketAttachment } from './types';
+import { InMemoryFixtures, InMemorySupportProvider } from './memory-provider';
+
+/**
+ * Configuration for the local file provider
+ */
+export interface LocalFileSupportProviderConfig {
+  dataDir: string; // Directory holding the tickets and attachments (created if missing)
+  now?: () => Date; // Clock used for timestamps (defaults to the system clock)
+}
+
+const TICKETS_FILE = 'tickets.json';
+const ATTACHMENTS_DIR = 'attachments';
+
+/**
+ * SupportApiInterface implementation that persists tickets to a local directory
+ *
+ * Behaves exactly like InMemorySupportProvider (statuses, filters, pagination),
+ * but every change is written to disk so the data survives restarts.
+ */
+export class LocalFileSupportProvider extends InMemorySupportProvider {
+  protected readonly provider: string = 'local';
+  private dataDir: string;
+  private writes: Promise<void> = Promise.resolve();
+
+  /**
+   * Creates a new local file provider and loads the tickets saved in the data directory
+   * @param config - Configuration for the provider
+   */
+  constructor(config: LocalFileSupportProviderConfig) {
+    super({ now: config.now });
+
+    // fs and path are required where used, so that importing the package entry point in a browser bundle does not load them
+    const fs: typeof import('fs') = require('fs');
+    const path: typeof import('path') = require('path');
+
+    this.dataDir = path.resolve(config.dataDir);
+    fs.mkdirSync(this.dataDir, { recursive: true });
+
+    const ticketsFile = path.join(this.dataDir, TICKETS_FILE);
+    if (fs.existsSync(ticketsFile)) {
+      const saved = JSON.parse(fs.readFileSync(ticketsFile, 'utf8')) as InMemoryFixtures;
+      super.seed(saved);
+    }
+  }
+
+  /**
+   * Adds tickets to the provider, replacing tickets with the same ID, and saves them
+   * @param fixtures - The tickets to add
+   */
+  seed(fixtures: InMemoryFixtures): void {
+    super.seed(fixtures);
+    this.persist().catch(() => undefined);
+  }
+
+  /**
+   * Removes every ticket and attachment from the provider and the data directory
+   */
+  reset(): void {
+    super.reset();
+
+    const fs: typeof import('fs') = require('fs');
+    const path: typeof import('path') = require('path');
+    fs.rmSync(path.join(this.dataDir, ATTACHMENTS_DIR), { recursive: true, force: true });
+
+    this.persist().catch(() => undefined);
+  }
+
+  /**
+   * Waits until every pending change has been written to disk
+   * `seed()` and `reset()` save in the background; other methods resolve once their change is saved
+   * @returns A promise that rejects if the last write failed
+   */
+  flush(): Promise<void> {
+    return this.writes;
+  }
+
+  /**
+   * Returns the content of an attachment stored in the data directory
+   * @param url - The attachment URL (a file:// URL inside the data directory)
+   * @returns The attachment content, or undefined if it is unknown
+   */
+  getAttachmentContent(url: string): Blob | undefined {
+    const fs: typeof import('fs') = require('fs');
+    const path: typeof import('path') = require('path');
+    const { fileURLToPath } = require('url') as typeof import('url');
+
+    let filePath: string;
+    try {
+      filePath = fileURLToPath(url);
+    } catch (error) {
+      return undefined;
+    }
+
+    const relative = path.relative(this.dataDir, filePath);
+    if (relative.startsWith('..') || path.isAbsolute(relative) || !fs.existsSync(filePath)) {
+      return undefined;
+    }
+
+    return new Blob([fs.readFileSync(filePath)]);
+  }
+
+  /**
+   * Writes the stored tickets to `tickets.json`
+   * Writes are queued so that they land in order, and each one replaces the file atomically
+   * @returns A promise that resolves once this change is on disk
+   */
+  protected async persist(): Promise<void> {
+    const fs: typeof import('fs') = require('fs');
+    const path: typeof import('path') = require('path');
+
+    const contents = JSON.stringify({ tickets: this.getStoredTickets() }, null, 2);
+    const target = path.join(this.dataDir, TICKETS_FILE);
+    const temporary = `${target}.tmp`;
+
+    // A failed write must not block the ones queued after it
+    const write = this.writes.catch(() => undefined).then(async () => {
+      await fs.promises.writeFile(temporary, contents, 'utf8');
+      await fs.promises.rename(temporary, target);
+    });
+
+    this.writes = write;
+    return write;
+  }
+
+  /**
+   * Writes uploaded files to `attachments/<ticketId>/` and describes them as ticket attachments
+   * @param ticketId - The ID of the ticket the files belong to
+   * @param files - The uploaded files
+   * @returns The attachment descriptions, with file:// URLs
+   */
+  protected async storeAttachments(ticketId: string, files: File[] = []): Promise<TicketAttachment[]> {
+    if (files.length === 0) {
+      return [];
+    }
+
+    const fs: typeof import('fs') = require('fs');
+    const path: typeof import('path') = require('path');
+    const { pathToFileURL } = require('url') as typeof import('url');
+
+    const directory = path.join(this.dataDir, ATTACHMENTS_DIR, ticketId);
+    await fs.promises.mkdir(directory, { recursive: true });
+
+    const createdOn = this.timestamp();
+    let index = (await fs.promises.readdir(directory)).length;
+    const attachments: TicketAttachment[] = [];
+
+    for (const file of files) {
+      // Prefix with a counter so that files with the same name do not overwrite each other
+      const filePath = path.join(directory, `${++index}-${path.basename(file.name)}`);
+      await fs.promises.writeFile(filePath, Buffer.from(await file.arrayBuffer()));
+
+      attachments.push({
+        fileName: file.name,
+        fileSize: file.size,
+        fileType: file.type,
+        createdOn,
+        url: pathToFileURL(filePath).href
+      });
+    }
+
+    return attachments;
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * Support API Logging
+ * Leveled logger interface used by the support API clients
+ */
+
+/**
+ * Log levels, in increasing order of severity
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Structured fields attached to a log entry
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Leveled logger accepted by the support API clients
+ */
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+/**
+ * Minimal shape shared by pino and winston logger instances
+ */
+export interface StructuredLoggerTarget {
+  debug(...args: any[]): unknown;
+  info(...args: any[]): unknown;
+  warn(...args: any[]): unknown;
+  error(...args: any[]): unknown;
+}
+
+const LOG_LEVEL_ORDER: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3
+};
+
+/**
+ * Logger that discards every entry (the default)
+ */
+export const silentLogger: Logger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined
+};
+
+/**
+ * Creates a logger that writes to the console
+ * @param minLevel - The lowest level that is written (defaults to 'info')
+ * @returns A console-backed logger
+ */
+export function createConsoleLogger(minLevel: LogLevel = 'info'): Logger {
+  const write = (level: LogLevel) => (message: string, fields?: LogFields) => {
+    if (LOG_LEVEL_ORDER[level] < LOG_LEVEL_ORDER[minLevel]) {
+      return;
+    }
+
+    const args: unknown[] = [`[support-api] ${level.toUpperCase()} ${message}`];
+    if (fields && Object.keys(fields).length > 0) {
+      args.push(fields);
+    }
+
+    console[level](...args);
+  };
+
+  return {
+    debug: write('debug'),
+    info: write('info'),
+    warn: write('warn'),
+    error: write('error')
+  };
+}
+
+/**
+ * Adapts a pino or winston logger to the Logger interface
+ * pino expects `(fields, message)` while winston expects `(message, fields)`
+ * @param target - The pino or winston logger instance
+ * @param style - Argument order used by the target (defaults to 'pino')
+ * @returns A logger that forwards to the target
+ */
+export function adaptLogger(target: StructuredLoggerTarget, style: 'pino' | 'winston' = 'pino'): Logger {
+  const forward = (level: LogLevel) => (message: string, fields: LogFields = {}) => {
+    if (style === 'pino') {
+      target[level](fields, message);
+    } else {
+      target[level](message, fields);
+    }
+  };
+
+  return {
+    debug: forward('debug'),
+    info: forward('info'),
+    warn: forward('warn'),
+    error: forward('error')
+  };
+}
@@ -0,0 +1,466 @@
+/**
+ * In-Memory Support Provider
+ * Implements the SupportApiInterface without a backend, for tests and demos
+ */
+
+import {
+  CreateTicketRequest,
+  ListAllTicketsOptions,
+  PaginatedTicketsResponse,
+  SupportApiInterface,
+  Ticket,
+  TicketAttachment,
+  TicketDetails,
+  TicketFilterOptions,
+  TicketMessage,
+  TicketPriority,
+  TicketResponseRequest,
+  TicketStatus,
+  UpdateTicketRequest
+} from './types';
+import { NotFoundError, ValidationError } from './errors';
+import { collectTickets, iterateTicketPages } from './pagination';
+
+/**
+ * Tickets used to seed an in-memory provider
+ * Tickets may include their conversation history
+ */
+export interface InMemoryFixtures {
+  tickets?: Array<Ticket | TicketDetails>;
+}
+
+/**
+ * Configuration for the in-memory provider
+ */
+export interface InMemorySupportProviderConfig {
+  fixtures?: InMemoryFixtures; // Tickets to start with
+  now?: () => Date; // Clock used for timestamps (defaults to the system clock)
+}
+
+const PRIORITY_ORDER: Record<TicketPriority, number> = {
+  [TicketPriority.LOW]: 1,
+  [TicketPriority.MEDIUM]: 2,
+  [TicketPriority.HIGH]: 3,
+  [TicketPriority.URGENT]: 4
+};
+
+/**
+ * SupportApiInterface implementation that keeps every ticket in memory
+ *
+ * Behaves like a real helpdesk: ticket IDs are sequential, an agent reply moves an
+ * open ticket to pending, a customer reply moves a pending or resolved ticket back
+ * to open, and closed tickets must be reopened before they accept replies.
+ */
+export class InMemorySupportProvider implements SupportApiInterface {
+  protected readonly provider: string = 'memory'; // Provider name reported in errors
+  private tickets = new Map<string, TicketDetails>();
+  private attachmentContents = new Map<string, Blob>();
+  private nextId = 1;
+  private now: () => Date;
+
+  /**
+   * Creates a new in-memory provider
+   * @param config - Configuration for the provider
+   */
+  constructor(config: InMemorySupportProviderConfig = {}) {
+    this.now = config.now || (() => new Date());
+
+    if (config.fixtures) {
+      this.seed(config.fixtures);
+    }
+  }
+
+  /**
+   * Adds tickets to the provider, replacing tickets with the same ID
+   * @param fixtures - The tickets to add
+   */
+  seed(fixtures: InMemoryFixtures): void {
+    for (const ticket of fixtures.tickets || []) {
+      const conversation = 'conversation' in ticket ? ticket.conversation : [];
+      this.tickets.set(ticket.id, cloneDetails({ ...ticket, conversation }));
+
+      const numericId = parseInt(ticket.id, 10);
+      if (!isNaN(numericId) && numericId >= this.nextId) {
+        this.nextId = numericId + 1;
+      }
+    }
+  }
+
+  /**
+   * Removes every ticket and restarts ID generation
+   */
+  reset(): void {
+    this.tickets.clear();
+    this.attachmentContents.clear();
+    this.nextId = 1;
+  }
+
+  /**
+   * Returns the content of an attachment uploaded to the provider
+   * @param url - The attachment URL
+   * @returns The attachment content, or undefined if it is unknown
+   */
+  getAttachmentContent(url: string): Blob | undefined {
+    return this.attachmentContents.get(url);
+  }
+
+  /**
+   * Creates a new support ticket
+   * @param request - The ticket creation request
+   * @returns The created ticket
+   */
+  async createTicket(request: CreateTicketRequest): Promise<Ticket> {
+    if (!request.subject || !request.userEmail) {
+      throw new ValidationError('Subject and user email are required', {
+        provider: this.provider,
+        status: 400,
+        errors: [
+          ...(!request.subject ? [{ field: 'subject', message: 'is required' }] : []),
+          ...(!request.userEmail ? [{ field: 'userEmail', message: 'is required' }] : [])
+        ]
+      });
+    }
+
+    const id = String(this.nextId++);
+    const timestamp = this.timestamp();
+    const ticket: TicketDetails = {
+      id,
+      subject: request.subject,
+      description: request.description,
+      status: TicketStatus.OPEN,
+      priority: request.priority || TicketPriority.MEDIUM,
+      userEmail: request.userEmail,
+      type: request.type,
+      group: request.group,
+      category: request.category,
+      subCategory: request.subCategory,
+      source: request.source,
+      tags: request.tags && [...request.tags],
+      customFields: request.customFields && { ...request.customFields },
+      createdAt: timestamp,
+      updatedAt: timestamp,
+      attachments: await this.storeAttachments(id, request.attachments),
+      conversation: []
+    };
+
+    this.tickets.set(id, ticket);
+    await this.persist();
+    return toTicket(ticket);
+  }
+
+  /**
+   * Lists tickets for a specific user
+   * @param userEmail - The email of the user
+   * @param options - Filter options
+   * @returns Paginated list of tickets
+   */
+  async listUserTickets(userEmail: string, options?: TicketFilterOptions): Promise<PaginatedTicketsResponse> {
+    return this.searchTickets({ ...options, userEmail });
+  }
+
+  /**
+   * Searches for tickets based on filter options
+   * @param options - Filter options
+   * @returns Paginated list of tickets
+   */
+  async searchTickets(options: TicketFilterOptions): Promise<PaginatedTicketsResponse> {
+    const page = Math.max(1, options.page || 1);
+    const limit = Math.max(1, options.limit || 30);
+    const query = options.searchQuery?.toLowerCase();
+
+    const matches = Array.from(this.tickets.values())
+      .filter(ticket => !options.userEmail || ticket.userEmail === options.userEmail)
+      .filter(ticket => !options.assignedTo || ticket.assignedTo === options.assignedTo)
+      .filter(ticket => !options.status || ticket.status === options.status)
+      .filter(ticket => !options.priority || ticket.priority === options.priority)
+      .filter(ticket => !query ||
+        ticket.subject.toLowerCase().includes(query) ||
+        ticket.description.toLowerCase().includes(query))
+      .sort(compareTickets(options.sortBy || 'createdAt', options.sortOrder || 'desc'));
+
+    return {
+      tickets: matches.slice((page - 1) * limit, page * limit).map(toTicket),
+      total: matches.length,
+      page,
+      limit,
+      totalPages: Math.ceil(matches.length / limit)
+    };
+  }
+
+  /**
+   * Iterates over every ticket matching the filter options
+   * @param options - Filter options (`limit` sets the batch size, `page` the first page)
+   * @returns An async iterator over the matching tickets
+   */
+  iterateTickets(options: TicketFilterOptions = {}): AsyncGenerator<Ticket> {
+    return iterateTicketPages(page => this.searchTickets({ ...options, page }), options.page || 1);
+  }
+
+  /**
+   * Collects every ticket matching the filter options
+   * @param options - Filter options
+   * @param limits - Limits for the collection (e.g. the maximum number of tickets)
+   * @returns The matching tickets
+   */
+  async listAllTickets(options: TicketFilterOptions = {}, limits: ListAllTicketsOptions = {}): Promise<Ticket[]> {
+    return collectTickets(this.iterateTickets(options), limits.max);
+  }
+
+  /**
+   * Gets the details of a specific ticket
+   * @param ticketId - The ID of the ticket
+   * @returns The ticket details including conversation
+   */
+  async getTicketDetails(ticketId: string): Promise<TicketDetails> {
+    return cloneDetails(this.findTicket(ticketId));
+  }
+
+  /**
+   * Responds to a ticket
+   * An agent reply (with `agentEmail`) moves an open ticket to pending;
+   * a customer reply moves a pending or resolved ticket back to open
+   * @param request - The response request
+   * @returns The created ticket message
+   */
+  async respondToTicket(request: TicketResponseRequest): Promise<TicketMessage> {
+    const ticket = this.findTicket(request.ticketId);
+
+    if (ticket.status === TicketStatus.CLOSED) {
+      throw new ValidationError(`Ticket ${ticket.id} is closed and must be reopened before replying`, {
+        provider: this.provider,
+        status: 400
+      });
+    }
+
+    const isStaff = Boolean(request.agentEmail);
+    const timestamp = this.timestamp();
+    const message: TicketMessage = {
+      id: `${ticket.id}-${ticket.conversation.length + 1}`,
+      ticketId: ticket.id,
+      message: request.message,
+      sender: request.agentEmail || request.fromEmail || ticket.userEmail,
+      isStaff,
+      createdAt: timestamp,
+      attachments: await this.storeAttachments(ticket.id, request.attachments)
+    };
+
+    ticket.conversation.push(message);
+    ticket.updatedAt = timestamp;
+
+    if (isStaff && ticket.status === TicketStatus.OPEN) {
+      ticket.status = TicketStatus.PENDING;
+    } else if (!isStaff && (ticket.status === TicketStatus.PENDING || ticket.status === TicketStatus.RESOLVED)) {
+      ticket.status = TicketStatus.OPEN;
+    }
+
+    await this.persist();
+    return { ...message, attachments: message.attachments?.map(attachment => ({ ...attachment })) };
+  }
+
+  /**
+   * Closes a ticket
+   * @param ticketId - The ID of the ticket to close
+   * @returns The updated ticket
+   */
+  async closeTicket(ticketId: string): Promise<Ticket> {
+    return this.updateTicket({ ticketId, status: TicketStatus.CLOSED });
+  }
+
+  /**
+   * Reopens a closed or resolved ticket
+   * @param ticketId - The ID of the ticket to reopen
+   * @returns The updated ticket
+   */
+  async reopenTicket(ticketId: string): Promise<Ticket> {
+    return this.updateTicket({ ticketId, status: TicketStatus.OPEN });
+  }
+
+  /**
+   * Retrieves all conversations for a specific ticket
+   * @param ticketId - The ID of the ticket
+   * @returns The list of messages for the ticket
+   */
+  async getTicketConversations(ticketId: string): Promise<TicketMessage[]> {
+    return cloneDetails(this.findTicket(ticketId)).conversation;
+  }
+
+  /**
+   * Lists tickets assigned to a specific admin
+   * @param adminEmail - The email of the admin
+   * @param options - Filter options
+   * @returns Paginated list of tickets
+   */
+  async listAssignedTickets(adminEmail: string, options?: TicketFilterOptions): Promise<PaginatedTicketsResponse> {
+    return this.searchTickets({ ...options, assignedTo: adminEmail });
+  }
+
+  /**
+   * Assigns a ticket to a specific agent/admin
+   * @param ticketId - The ID of the ticket
+   * @param assignTo - The email of the agent to assign the ticket to
+   * @returns The updated ticket
+   */
+  async assignTicket(ticketId: string, assignTo: string): Promise<Ticket> {
+    return this.updateTicket({ ticketId, assignedTo: assignTo });
+  }
+
+  /**
+   * Escalates a ticket by changing its priority
+   * @param ticketId - The ID of the ticket
+   * @param priority - The new priority
+   * @returns The updated ticket
+   */
+  async escalateTicket(ticketId: string, priority: TicketPriority): Promise<Ticket> {
+    return this.updateTicket({ ticketId, priority });
+  }
+
+  /**
+   * Updates a ticket's properties
+   * @param request - The update request
+   * @returns The updated ticket
+   */
+  async updateTicket(request: UpdateTicketRequest): Promise<Ticket> {
+    const ticket = this.findTicket(request.ticketId);
+
+    if (request.status) {
+      ticket.status = request.status;
+    }
+
+    if (request.priority) {
+      ticket.priority = request.priority;
+    }
+
+    if (request.assignedTo) {
+      ticket.assignedTo = request.assignedTo;
+    }
+
+    if (request.customFields) {
+      ticket.customFields = { ...ticket.customFields, ...request.customFields };
+    }
+
+    ticket.updatedAt = this.timestamp();
+    await this.persist();
+    return toTicket(ticket);
+  }
+
+  /**
+   * Looks up a stored ticket
+   * @param ticketId - The ID of the ticket
+   * @returns The stored ticket (not a copy)
+   * @private
+   */
+  private findTicket(ticketId: string): TicketDetails {
+    const ticket = this.tickets.get(String(ticketId));
+    if (!ticket) {
+      throw new NotFoundError(`Ticket ${ticketId} not found`, { provider: this.provider, status: 404 });
+    }
+    return ticket;
+  }
+
+  /**
+   * Returns a copy of every stored ticket, including conversations
+   * @returns The stored tickets
+   */
+  protected getStoredTickets(): TicketDetails[] {
+    return Array.from(this.tickets.values()).map(cloneDetails);
+  }
+
+  /**
+   * Called after every change to the stored tickets; subclasses override it to save them
+   */
+  protected async persist(): Promise<void> {
+    // Nothing to save for the in-memory store
+  }
+
+  /**
+   * Stores uploaded files and describes them as ticket attachments
+   * @param ticketId - The ID of the ticket the files belong to
+   * @param files - The uploaded files
+   * @returns The attachment descriptions
+   */
+  protected async storeAttachments(ticketId: string, files: File[] = []): Promise<TicketAttachment[]> {
+    const createdOn = this.timestamp();
+
+    return files.map(file => {
+      const url = `memory://tickets/${ticketId}/attachments/${this.attachmentContents.size + 1}/${encodeURIComponent(file.name)}`;
+      this.attachmentContents.set(url, file);
+
+      return {
+        fileName: file.name,
+        fileSize: file.size,
+        fileType: file.type,
+        createdOn,
+        url
+      };
+    });
+  }
+
+  /**
+   * Returns the current time as an ISO string
+   */
+  protected timestamp(): string {
+    return this.now().toISOString();
+  }
+}
+
+/**
+ * Copies a stored ticket without its conversation
+ * @param ticket - The stored ticket
+ * @returns A copy of the ticket
+ */
+function toTicket(ticket: TicketDetails): Ticket {
+  const { conversation, ...rest } = ticket;
+  return {
+    ...rest,
+    tags: rest.tags && [...rest.tags],
+    customFields: rest.customFields && { ...rest.customFields },
+    attachments: rest.attachments?.map(attachment => ({ ...attachment }))
+  };
+}
+
+/**
+ * Deep-copies a ticket and its conversation so callers cannot mutate the store
+ * @param ticket - The ticket to copy
+ * @returns A copy of the ticket
+ */
+function cloneDetails(ticket: TicketDetails): TicketDetails {
+  return {
+    ...toTicket(ticket),
+    conversation: ticket.conversation.map(message => ({
+      ...message,
+      attachments: message.attachments?.map(attachment => ({ ...attachment }))
+    }))
+  };
+}
+
+/**
+ * Builds a comparator for sorting tickets, also used to merge the tickets of several providers
+ * Timestamps are compared as dates because providers format them differently
+ * @param sortBy - The field to sort by
+ * @param sortOrder - The sort direction
+ * @returns The comparator
+ */
+export function compareTickets(
+  sortBy: 'createdAt' | 'updatedAt' | 'priority',
+  sortOrder: 'asc' | 'desc'
+): (a: Ticket, b: Ticket) => number {
+  const direction = sortOrder === 'asc' ? 1 : -1;
+
+  return (a, b) => {
+    const difference = sortBy === 'priority'
+      ? PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority]
+      : compareTimestamps(a[sortBy], b[sortBy]);
+
+    // Fall back to creation order so that pages are stable
+    return (difference || Number(a.id) - Number(b.id) || a.id.localeCompare(b.id)) * direction;
+  };
+}
+
+/**
+ * Compares two timestamps as dates, or as strings when either does not parse
+ * @private
+ */
+function compareTimestamps(left: string, right: string): number {
+  const difference = Date.parse(left) - Date.parse(right);
+  return isNaN(difference) ? left.localeCompare(right) : difference;
+}
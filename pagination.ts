@@ -0,0 +1,60 @@
+/**
+ * Support API Pagination
+ * Helpers for walking paginated ticket listings
+ */
+
+import { CustomFields, PaginatedTicketsResponse, Ticket } from './types';
+
+/**
+ * Yields every ticket of a paginated listing, one page at a time
+ * Stops at the last page reported by the provider, or at the first short or empty page
+ * @param fetchPage - Fetches a page (1-based) of the listing
+ * @param startPage - The first page to fetch (defaults to 1)
+ * @returns An async iterator over the tickets
+ */
+export async function* iterateTicketPages<TCustom extends CustomFields = CustomFields>(
+  fetchPage: (page: number) => Promise<PaginatedTicketsResponse<TCustom>>,
+  startPage: number = 1
+): AsyncGenerator<Ticket<TCustom>> {
+  for (let page = startPage; ; page++) {
+    const response = await fetchPage(page);
+
+    for (const ticket of response.tickets) {
+      yield ticket;
+    }
+
+    if (
+      response.tickets.length === 0 ||
+      response.tickets.length < response.limit ||
+      page >= response.totalPages
+    ) {
+      return;
+    }
+  }
+}
+
+/**
+ * Collects the tickets of an async iterator into an array
+ * @param tickets - The tickets to collect
+ * @param max - Maximum number of tickets to collect (unlimited if omitted)
+ * @returns The collected tickets
+ */
+export async function collectTickets<TCustom extends CustomFields = CustomFields>(
+  tickets: AsyncIterable<Ticket<TCustom>>,
+  max?: number
+): Promise<Ticket<TCustom>[]> {
+  const collected: Ticket<TCustom>[] = [];
+  if (max !== undefined && max <= 0) {
+    return collected;
+  }
+
+  for await (const ticket of tickets) {
+    collected.push(ticket);
+    if (max !== undefined && collected.length >= max) {
+      // Leaving the loop stops the iterator, so no further pages are fetched
+      break;
+    }
+  }
+
+  return collected;
+}
@@ -0,0 +1,149 @@
+/**
+ * Support API Rate Limiting
+ * Client-side token bucket and concurrency limiter for provider API quotas
+ */
+
+/**
+ * Configuration for the rate limiter
+ */
+export interface RateLimiterOptions {
+  requestsPerMinute?: number; // Sustained request budget (unlimited if omitted)
+  burst?: number; // Requests that may be sent back to back (defaults to requestsPerMinute)
+  maxConcurrent?: number; // Maximum requests in flight at once (unlimited if omitted)
+}
+
+/**
+ * Snapshot of the limiter state, suitable for dashboards
+ */
+export interface RateLimiterStats {
+  queued: number; // Calls waiting for a slot
+  inFlight: number; // Calls currently running
+  remaining: number | null; // Requests that can start immediately under the budget (null if unlimited)
+  requestsPerMinute: number | null;
+  maxConcurrent: number | null;
+}
+
+interface QueuedTask {
+  run: () => void;
+}
+
+/**
+ * Queues calls so that they respect a requests-per-minute budget and a concurrency cap
+ * Calls are never rejected by the limiter; they wait until a slot is available
+ */
+export class RateLimiter {
+  private requestsPerMinute: number | null;
+  private capacity: number;
+  private maxConcurrent: number | null;
+  private tokens: number;
+  private lastRefill: number;
+  private inFlight = 0;
+  private queue: QueuedTask[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Creates a new rate limiter
+   * @param options - Budget and concurrency settings
+   */
+  constructor(options: RateLimiterOptions = {}) {
+    this.requestsPerMinute = options.requestsPerMinute && options.requestsPerMinute > 0 ? options.requestsPerMinute : null;
+    this.capacity = Math.max(1, options.burst ?? this.requestsPerMinute ?? 1);
+    this.maxConcurrent = options.maxConcurrent && options.maxConcurrent > 0 ? options.maxConcurrent : null;
+    this.tokens = this.capacity;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Runs a task once the budget and concurrency cap allow it
+   * @param task - The task to run
+   * @returns The task's result
+   */
+  schedule<T>(task: () => Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.queue.push({
+        run: () => {
+          this.inFlight++;
+          Promise.resolve()
+            .then(task)
+            .then(resolve, reject)
+            .finally(() => {
+              this.inFlight--;
+              this.drain();
+            });
+        }
+      });
+      this.drain();
+    });
+  }
+
+  /**
+   * Returns the current queue depth and remaining budget
+   * @returns A snapshot of the limiter state
+   */
+  getStats(): RateLimiterStats {
+    this.refill();
+    return {
+      queued: this.queue.length,
+      inFlight: this.inFlight,
+      remaining: this.requestsPerMinute === null ? null : Math.floor(this.tokens),
+      requestsPerMinute: this.requestsPerMinute,
+      maxConcurrent: this.maxConcurrent
+    };
+  }
+
+  /**
+   * Starts as many queued tasks as the budget and concurrency cap allow
+   * @private
+   */
+  private drain(): void {
+    this.refill();
+
+    while (this.queue.length > 0) {
+      if (this.maxConcurrent !== null && this.inFlight >= this.maxConcurrent) {
+        // A finishing task calls drain() again
+        return;
+      }
+
+      if (this.requestsPerMinute !== null) {
+        if (this.tokens < 1) {
+          this.scheduleDrain();
+          return;
+        }
+        this.tokens -= 1;
+      }
+
+      this.queue.shift()!.run();
+    }
+  }
+
+  /**
+   * Adds the tokens earned since the last refill
+   * @private
+   */
+  private refill(): void {
+    if (this.requestsPerMinute === null) {
+      return;
+    }
+
+    const now = Date.now();
+    const earned = ((now - this.lastRefill) * this.requestsPerMinute) / 60000;
+    this.tokens = Math.min(this.capacity, this.tokens + earned);
+    this.lastRefill = now;
+  }
+
+  /**
+   * Wakes the queue up when the next token becomes available
+   * @private
+   */
+  private scheduleDrain(): void {
+    if (this.timer || this.requestsPerMinute === null) {
+      return;
+    }
+
+    const waitMs = Math.ceil(((1 - this.tokens) * 60000) / this.requestsPerMinute);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.drain();
+    }, waitMs);
+  }
+}
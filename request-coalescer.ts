@@ -0,0 +1,59 @@
+/**
+ * Support API Request Coalescing
+ * Shares one in-flight call between concurrent identical reads
+ */
+
+/**
+ * Counters describing how many calls were coalesced, suitable for dashboards
+ */
+export interface RequestCoalescerStats {
+  calls: number; // Calls made through the coalescer
+  coalesced: number; // Calls that joined a call already in flight instead of starting one
+  inFlight: number; // Distinct calls currently running
+}
+
+/**
+ * Deduplicates concurrent calls with the same key
+ * Only calls in flight are shared; once a call settles, the next one with its key starts afresh
+ */
+export class RequestCoalescer {
+  private pending = new Map<string, Promise<unknown>>();
+  private calls = 0;
+  private coalesced = 0;
+
+  /**
+   * Runs a task, or joins the task with the same key that is already running
+   * @param key - Identifies identical calls
+   * @param task - The task to run if none is in flight for the key
+   * @returns The task's result, shared by every caller with the same key
+   */
+  run<T>(key: string, task: () => Promise<T>): Promise<T> {
+    this.calls++;
+
+    const existing = this.pending.get(key);
+    if (existing) {
+      this.coalesced++;
+      return existing as Promise<T>;
+    }
+
+    const call = Promise.resolve()
+      .then(task)
+      .finally(() => {
+        this.pending.delete(key);
+      });
+    this.pending.set(key, call);
+    return call;
+  }
+
+  /**
+   * Returns the coalescing counters
+   * @returns A snapshot of the counters
+   */
+  getStats(): RequestCoalescerStats {
+    return {
+      calls: this.calls,
+      coalesced: this.coalesced,
+      inFlight: this.pending.size
+    };
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * Support API Retries
+ * Exponential backoff retry policy shared by the support API clients
+ */
+
+import { RateLimitError, SupportApiError } from './errors';
+import { Logger, silentLogger } from './logger';
+
+/**
+ * Details about a retry that is about to happen
+ */
+export interface RetryAttempt {
+  attempt: number; // The attempt that failed (1-based)
+  delayMs: number; // How long the client waits before the next attempt
+  method: string;
+  endpoint: string;
+  error: SupportApiError;
+}
+
+/**
+ * Configurable retry policy
+ */
+export interface RetryPolicy {
+  maxAttempts?: number; // Total attempts including the first one (defaults to 3)
+  baseDelayMs?: number; // Delay before the first retry (defaults to 500)
+  maxDelayMs?: number; // Upper bound for every delay; a longer Retry-After fails fast with the RateLimitError (defaults to 30000)
+  jitter?: boolean; // Randomize delays to avoid thundering herds (defaults to true)
+  respectRetryAfter?: boolean; // Wait as long as the provider's Retry-After header asks (defaults to true)
+  onRetry?: (attempt: RetryAttempt) => void; // Called before each retry
+}
+
+/**
+ * Options for a single retried call
+ */
+export interface RetryOptions {
+  method: string;
+  endpoint: string;
+  safe?: boolean; // Allow retrying a non-idempotent method, even when throttled (e.g. a POST that cannot create duplicates)
+  logger?: Logger;
+}
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+const DEFAULT_RETRY_POLICY: Required<Omit<RetryPolicy, 'onRetry'>> = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30000,
+  jitter: true,
+  respectRetryAfter: true
+};
+
+/**
+ * Parses a Retry-After header value (delay in seconds or an HTTP date) into milliseconds
+ * @param value - The raw header value
+ * @returns The delay in milliseconds, or undefined if the header is missing or invalid
+ */
+export function parseRetryAfter(value: unknown): number | undefined {
+  if ((typeof value !== 'string' && typeof value !== 'number') || String(value).trim() === '') {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(String(value));
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Computes the delay before the next attempt
+ * @param attempt - The attempt that failed (1-based)
+ * @param policy - The retry policy
+ * @param error - The error raised by the failed attempt
+ * @returns The delay in milliseconds, never more than maxDelayMs
+ */
+export function computeRetryDelay(attempt: number, policy: RetryPolicy, error?: SupportApiError): number {
+  const resolved = { ...DEFAULT_RETRY_POLICY, ...policy };
+
+  if (resolved.respectRetryAfter && error instanceof RateLimitError && error.retryAfterMs !== undefined) {
+    return Math.min(resolved.maxDelayMs, error.retryAfterMs);
+  }
+
+  const backoff = Math.min(resolved.maxDelayMs, resolved.baseDelayMs * Math.pow(2, attempt - 1));
+  return resolved.jitter ? Math.round(Math.random() * backoff) : backoff;
+}
+
+/**
+ * Runs an operation, retrying transient failures according to the policy
+ * @param operation - The operation to run; receives the current attempt number
+ * @param policy - The retry policy, or false to disable retries
+ * @param options - Details of the call being retried
+ * @returns The operation's result
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  policy: RetryPolicy | false,
+  options: RetryOptions
+): Promise<T> {
+  const maxAttempts = policy === false ? 1 : Math.max(1, policy.maxAttempts ?? DEFAULT_RETRY_POLICY.maxAttempts);
+  const logger = options.logger || silentLogger;
+  const idempotent = IDEMPOTENT_METHODS.includes(options.method.toUpperCase());
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (
+        policy === false ||
+        attempt >= maxAttempts ||
+        !(error instanceof SupportApiError) ||
+        !error.retryable ||
+        !(idempotent || options.safe) ||
+        exceedsMaxDelay(policy, error)
+      ) {
+        throw error;
+      }
+
+      const delayMs = computeRetryDelay(attempt, policy, error);
+      const retryAttempt: RetryAttempt = {
+        attempt,
+        delayMs,
+        method: options.method,
+        endpoint: options.endpoint,
+        error
+      };
+
+      logger.warn('Retrying request', {
+        method: options.method,
+        endpoint: options.endpoint,
+        attempt,
+        delayMs,
+        status: error.status,
+        code: error.code
+      });
+      policy.onRetry?.(retryAttempt);
+
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
+  }
+}
+
+/**
+ * Whether the provider asks to wait longer than the policy allows
+ * Such requests fail fast so the caller can decide, instead of stalling for the whole Retry-After
+ */
+function exceedsMaxDelay(policy: RetryPolicy, error: SupportApiError): boolean {
+  const resolved = { ...DEFAULT_RETRY_POLICY, ...policy };
+  return resolved.respectRetryAfter &&
+    error instanceof RateLimitError &&
+    error.retryAfterMs !== undefined &&
+    error.retryAfterMs > resolved.maxDelayMs;
+}
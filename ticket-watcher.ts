@@ -0,0 +1,401 @@
+/**
+ * Ticket Watcher
+ * Polling change feed for providers without webhooks
+ */
+
+import { SupportApiInterface, Ticket, TicketFilterOptions, TicketPriority, TicketStatus } from './types';
+import { Logger, silentLogger } from './logger';
+
+/**
+ * Ticket fields compared between polls
+ */
+export interface TicketSnapshot {
+  id: string;
+  subject: string;
+  description: string;
+  status: TicketStatus;
+  priority: TicketPriority;
+  userEmail: string;
+  assignedTo?: string;
+  updatedAt: string;
+}
+
+/**
+ * A field that changed between two polls
+ */
+export interface TicketFieldChange {
+  field: Exclude<keyof TicketSnapshot, 'id' | 'updatedAt'>;
+  from: unknown;
+  to: unknown;
+}
+
+export interface TicketCreatedChange {
+  type: 'ticket.created';
+  ticket: Ticket;
+}
+
+export interface TicketUpdatedChange {
+  type: 'ticket.updated';
+  ticket: Ticket;
+  previous?: TicketSnapshot; // Undefined when the ticket was not seen before, so no diff is available
+  changes: TicketFieldChange[]; // Empty when only untracked data changed (e.g. a new reply)
+}
+
+export interface TicketStatusChange {
+  type: 'status.changed';
+  ticket: Ticket;
+  from: TicketStatus;
+  to: TicketStatus;
+}
+
+/**
+ * A change detected by the watcher
+ */
+export type TicketChangeEvent = TicketCreatedChange | TicketUpdatedChange | TicketStatusChange;
+
+/**
+ * Listener for ticket changes
+ */
+export type TicketChangeListener<T extends TicketChangeEvent = TicketChangeEvent> = (event: T) => void | Promise<void>;
+
+/**
+ * Position of the watcher in the change feed
+ * Plain JSON, so that it can be saved and passed back as `cursor` after a restart
+ */
+export interface TicketWatchCursor {
+  updatedAt: string | null; // High-water mark: the latest `updatedAt` processed
+  boundaryIds: string[]; // Tickets already processed at exactly the high-water mark
+  tickets: TicketSnapshot[]; // Last known state of recently changed tickets, oldest first
+}
+
+/**
+ * Options for watching tickets
+ */
+export interface TicketWatchOptions extends Omit<TicketFilterOptions, 'page' | 'sortBy' | 'sortOrder'> {
+  intervalMs?: number; // Delay between polls (defaults to 60000)
+  cursor?: TicketWatchCursor; // Saved cursor to resume from
+  since?: string; // Without a cursor, report changes made after this time (defaults to changes after the first poll)
+  maxTrackedTickets?: number; // Snapshots kept for diffs (defaults to 1000)
+  onCursor?: (cursor: TicketWatchCursor) => void | Promise<void>; // Called after each poll that moved the cursor, to save it
+  onError?: (error: unknown) => void; // Called when a scheduled poll fails (the next poll resumes from the cursor)
+  logger?: Logger; // Destination for log output (silent by default)
+}
+
+const TRACKED_FIELDS: Array<TicketFieldChange['field']> = ['subject', 'description', 'status', 'priority', 'userEmail', 'assignedTo'];
+
+/**
+ * Polls a provider for tickets changed since the last poll
+ *
+ * Tickets are fetched newest first by `updatedAt` until the high-water mark is reached, then
+ * reported oldest first. The cursor only moves past a ticket once its listeners have finished,
+ * so a restarted watcher neither misses changes nor repeats the ones that were handled.
+ */
+export class TicketWatcher {
+  private api: SupportApiInterface;
+  private filters: TicketFilterOptions;
+  private intervalMs: number;
+  private maxTrackedTickets: number;
+  private onCursor?: (cursor: TicketWatchCursor) => void | Promise<void>;
+  private onError?: (error: unknown) => void;
+  private logger: Logger;
+  private highWaterMark: string | null;
+  private boundaryIds: Set<string>;
+  private snapshots: Map<string, TicketSnapshot>;
+  private listeners: Array<{ type: TicketChangeEvent['type'] | '*'; listener: TicketChangeListener<any> }> = [];
+  private timer?: ReturnType<typeof setTimeout>;
+  private running = false;
+  private polling?: Promise<TicketChangeEvent[]>;
+
+  /**
+   * Creates a new watcher; call `start()` to poll on an interval, or `poll()` to poll once
+   * @param api - The provider to watch
+   * @param options - Filters and watch options
+   */
+  constructor(api: SupportApiInterface, options: TicketWatchOptions = {}) {
+    const { intervalMs, cursor, since, maxTrackedTickets, onCursor, onError, logger, ...filters } = options;
+
+    this.api = api;
+    this.filters = filters;
+    this.intervalMs = intervalMs ?? 60000;
+    this.maxTrackedTickets = maxTrackedTickets ?? 1000;
+    this.onCursor = onCursor;
+    this.onError = onError;
+    this.logger = logger || silentLogger;
+    this.highWaterMark = cursor ? cursor.updatedAt : since ?? null;
+    this.boundaryIds = new Set(cursor?.boundaryIds || []);
+    this.snapshots = new Map((cursor?.tickets || []).map(snapshot => [snapshot.id, snapshot]));
+  }
+
+  /**
+   * Registers a listener for one type of change, or for every change with '*'
+   * @param type - The change type to listen to
+   * @param listener - Called with each change
+   * @returns A function that removes the listener
+   */
+  on<T extends TicketChangeEvent['type']>(
+    type: T,
+    listener: TicketChangeListener<Extract<TicketChangeEvent, { type: T }>>
+  ): () => void;
+  on(type: '*', listener: TicketChangeListener): () => void;
+  on(type: TicketChangeEvent['type'] | '*', listener: TicketChangeListener<any>): () => void {
+    const entry = { type, listener };
+    this.listeners.push(entry);
+    return () => {
+      this.listeners = this.listeners.filter(existing => existing !== entry);
+    };
+  }
+
+  /**
+   * Returns the current cursor, to be saved and passed back as `cursor` after a restart
+   * @returns A copy of the cursor
+   */
+  getCursor(): TicketWatchCursor {
+    return {
+      updatedAt: this.highWaterMark,
+      boundaryIds: Array.from(this.boundaryIds),
+      tickets: Array.from(this.snapshots.values())
+    };
+  }
+
+  /**
+   * Starts polling: once now, then `intervalMs` after each poll finishes
+   */
+  start(): void {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    this.schedule(0);
+  }
+
+  /**
+   * Stops polling
+   * @returns A promise that resolves once the poll in progress has finished
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    clearTimeout(this.timer);
+    await this.polling?.catch(() => undefined);
+  }
+
+  /**
+   * Polls once and notifies the listeners of every change
+   * Concurrent calls share the poll in progress
+   * @returns The changes found by this poll
+   */
+  poll(): Promise<TicketChangeEvent[]> {
+    if (!this.polling) {
+      this.polling = this.pollOnce().finally(() => {
+        this.polling = undefined;
+      });
+    }
+    return this.polling;
+  }
+
+  /**
+   * Schedules the next poll
+   * @private
+   */
+  private schedule(delayMs: number): void {
+    this.timer = setTimeout(async () => {
+      try {
+        await this.poll();
+      } catch (error) {
+        this.logger.error('Ticket watcher poll failed', { error: (error as Error).message });
+        this.onError?.(error);
+      }
+
+      if (this.running) {
+        this.schedule(this.intervalMs);
+      }
+    }, delayMs);
+  }
+
+  /**
+   * Fetches the changed tickets and reports them oldest first, moving the cursor after each one
+   * @private
+   */
+  private async pollOnce(): Promise<TicketChangeEvent[]> {
+    const baseline = this.highWaterMark === null;
+    const changed = await this.fetchChanged(baseline);
+    const events: TicketChangeEvent[] = [];
+    let moved = false;
+
+    try {
+      for (const ticket of changed.reverse()) {
+        if (!baseline) {
+          const ticketEvents = this.describe(ticket);
+          for (const event of ticketEvents) {
+            await this.dispatch(event);
+          }
+          events.push(...ticketEvents);
+        }
+
+        this.advance(ticket);
+        moved = true;
+      }
+
+      if (baseline && changed.length === 0) {
+        // Nothing to watch yet: every ticket that shows up later is new
+        this.highWaterMark = new Date(0).toISOString();
+        moved = true;
+      }
+    } finally {
+      if (moved) {
+        await this.onCursor?.(this.getCursor());
+      }
+    }
+
+    this.logger.debug('Ticket watcher poll finished', { changes: events.length, updatedAt: this.highWaterMark });
+    return events;
+  }
+
+  /**
+   * Fetches the tickets changed since the high-water mark, newest first
+   * Without a high-water mark only the first page is fetched, to set it
+   * @param baseline - Whether this poll only sets the high-water mark
+   * @private
+   */
+  private async fetchChanged(baseline: boolean): Promise<Ticket[]> {
+    const changed = new Map<string, Ticket>();
+    const limit = this.filters.limit || 50;
+
+    for (let page = 1; ; page++) {
+      const response = await this.api.searchTickets({
+        ...this.filters,
+        sortBy: 'updatedAt',
+        sortOrder: 'desc',
+        page,
+        limit
+      });
+
+      for (const ticket of response.tickets) {
+        if (this.highWaterMark !== null) {
+          const order = compareTimestamps(ticket.updatedAt, this.highWaterMark);
+          if (order < 0) {
+            return Array.from(changed.values());
+          }
+          if (order === 0 && this.boundaryIds.has(ticket.id)) {
+            continue;
+          }
+        }
+
+        // A ticket updated while paging can show up twice; keep its newest version
+        if (!changed.has(ticket.id)) {
+          changed.set(ticket.id, ticket);
+        }
+      }
+
+      if (baseline || response.tickets.length < response.limit || page >= response.totalPages) {
+        return Array.from(changed.values());
+      }
+    }
+  }
+
+  /**
+   * Describes the changes of a ticket against its last known state
+   * @private
+   */
+  private describe(ticket: Ticket): TicketChangeEvent[] {
+    const previous = this.snapshots.get(ticket.id);
+
+    if (!previous && compareTimestamps(ticket.createdAt, this.highWaterMark!) >= 0) {
+      return [{ type: 'ticket.created', ticket }];
+    }
+
+    const current = toSnapshot(ticket);
+    const changes = previous
+      ? TRACKED_FIELDS
+        .filter(field => previous[field] !== current[field])
+        .map(field => ({ field, from: previous[field], to: current[field] }))
+      : [];
+
+    const events: TicketChangeEvent[] = [{ type: 'ticket.updated', ticket, previous, changes }];
+    if (previous && previous.status !== ticket.status) {
+      events.push({ type: 'status.changed', ticket, from: previous.status, to: ticket.status });
+    }
+    return events;
+  }
+
+  /**
+   * Calls the listeners of a change in registration order
+   * @private
+   */
+  private async dispatch(event: TicketChangeEvent): Promise<void> {
+    for (const { type, listener } of this.listeners) {
+      if (type === '*' || type === event.type) {
+        await listener(event);
+      }
+    }
+  }
+
+  /**
+   * Moves the cursor past a ticket and records its state
+   * @private
+   */
+  private advance(ticket: Ticket): void {
+    const order = this.highWaterMark === null ? 1 : compareTimestamps(ticket.updatedAt, this.highWaterMark);
+    if (order > 0) {
+      this.highWaterMark = ticket.updatedAt;
+      this.boundaryIds = new Set([ticket.id]);
+    } else if (order === 0) {
+      this.boundaryIds.add(ticket.id);
+    }
+
+    // Re-insert so that the map stays ordered from least to most recently changed
+    this.snapshots.delete(ticket.id);
+    this.snapshots.set(ticket.id, toSnapshot(ticket));
+
+    for (const id of this.snapshots.keys()) {
+      if (this.snapshots.size <= this.maxTrackedTickets) break;
+      this.snapshots.delete(id);
+    }
+  }
+}
+
+/**
+ * Creates a watcher and starts polling
+ * @param api - The provider to watch
+ * @param options - Filters and watch options
+ * @param listener - Optional listener for every change
+ * @returns The running watcher; call `stop()` to stop it
+ */
+export function watchTickets(
+  api: SupportApiInterface,
+  options: TicketWatchOptions = {},
+  listener?: TicketChangeListener
+): TicketWatcher {
+  const watcher = new TicketWatcher(api, options);
+  if (listener) {
+    watcher.on('*', listener);
+  }
+  watcher.start();
+  return watcher;
+}
+
+/**
+ * Keeps the fields of a ticket that are compared between polls
+ */
+function toSnapshot(ticket: Ticket): TicketSnapshot {
+  return {
+    id: ticket.id,
+    subject: ticket.subject,
+    description: ticket.description,
+    status: ticket.status,
+    priority: ticket.priority,
+    userEmail: ticket.userEmail,
+    assignedTo: ticket.assignedTo,
+    updatedAt: ticket.updatedAt
+  };
+}
+
+/**
+ * Compares two timestamps as dates, since providers format them differently
+ */
+function compareTimestamps(a: string, b: string): number {
+  const left = Date.parse(a);
+  const right = Date.parse(b);
+  const difference = isNaN(left) || isNaN(right) ? a.localeCompare(b) : left - right;
+  return Math.sign(difference);
+}
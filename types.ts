@@ -23,17 +23,32 @@ export enum TicketPriority {
   URGENT = 'urgent'
 }
 
+/**
+ * Custom fields of a ticket, keyed by field name
+ * Declare your own shape to type them, e.g. Ticket<{ plan: string; renewalDate: Date }>
+ */
+export type CustomFields = Record<string, any>;
+
 /**
  * Base Ticket interface containing common properties
  */
-export interface Ticket {
+export interface Ticket<TCustom extends CustomFields = CustomFields> {
   id: string;
   subject: string;
   description: string;
   status: TicketStatus;
   priority: TicketPriority;
+  rawStatus?: string; // Status as reported by the provider (e.g. 'On Hold'), if the provider exposes it
+  rawPriority?: string | number; // Priority as reported by the provider (e.g. 15), if the provider exposes it
   userEmail: string;
   assignedTo?: string;
+  type?: string; // Ticket type (e.g. 'Question'), if the provider exposes it
+  group?: string; // Group the ticket is routed to, if the provider exposes it
+  category?: string; // Category, if the provider exposes it
+  subCategory?: string; // Sub-category, if the provider exposes it
+  source?: string; // Channel the ticket came from (e.g. Desk365's '6' for the support portal), if the provider exposes it
+  tags?: string[]; // Tags, if the provider exposes them
+  customFields?: TCustom; // Custom fields, if the provider returned them (Desk365 needs includeCustomFields for listings)
   createdAt: string;
   updatedAt: string;
   attachments?: TicketAttachment[];
@@ -42,7 +57,7 @@ export interface Ticket {
 /**
  * Ticket details including conversation history
  */
-export interface TicketDetails extends Ticket {
+export interface TicketDetails<TCustom extends CustomFields = CustomFields> extends Ticket<TCustom> {
   conversation: TicketMessage[];
   attachments?: TicketAttachment[];
 }
@@ -74,13 +89,19 @@ export interface TicketAttachment {
 /**
  * Create ticket request payload
  */
-export interface CreateTicketRequest {
+export interface CreateTicketRequest<TCustom extends CustomFields = CustomFields> {
   subject: string;
   description: string;
   priority?: TicketPriority;
   userEmail: string;
   attachments?: File[];
-  customFields?: Record<string, string>;
+  customFields?: Partial<TCustom>;
+  type?: string; // Overrides the provider's default ticket type
+  group?: string; // Overrides the provider's default group
+  category?: string; // Overrides the provider's default category
+  subCategory?: string; // Overrides the provider's default sub-category
+  source?: string; // Overrides the provider's default source
+  tags?: string[]; // Replaces the provider's default tags
 }
 
 /**
@@ -101,11 +122,12 @@ export interface TicketResponseRequest {
 /**
  * Update ticket request payload
  */
-export interface UpdateTicketRequest {
+export interface UpdateTicketRequest<TCustom extends CustomFields = CustomFields> {
   ticketId: string;
   status?: TicketStatus;
   priority?: TicketPriority;
   assignedTo?: string;
+  customFields?: Partial<TCustom>; // Only the fields given are changed
 }
 
 /**
@@ -125,11 +147,18 @@ export interface TicketFilterOptions {
   includeCustomFields?: boolean;
 }
 
+/**
+ * Limits for collecting every ticket of a listing
+ */
+export interface ListAllTicketsOptions {
+  max?: number; // Maximum number of tickets to return (unlimited if omitted)
+}
+
 /**
  * Paginated response for ticket listing
  */
-export interface PaginatedTicketsResponse {
-  tickets: Ticket[];
+export interface PaginatedTicketsResponse<TCustom extends CustomFields = CustomFields> {
+  tickets: Ticket<TCustom>[];
   total: number;
   page: number;
   limit: number;
@@ -188,20 +217,22 @@ export interface TicketConversationResponse {
  * Support API interface
  * Defines the methods that the support API wrapper must implement
  */
-export interface SupportApiInterface {
+export interface SupportApiInterface<TCustom extends CustomFields = CustomFields> {
   // User methods
-  createTicket(request: CreateTicketRequest): Promise<Ticket>;
-  listUserTickets(userEmail: string, options?: TicketFilterOptions): Promise<PaginatedTicketsResponse>;
-  searchTickets(options: TicketFilterOptions): Promise<PaginatedTicketsResponse>;
-  getTicketDetails(ticketId: string): Promise<TicketDetails>;
+  createTicket(request: CreateTicketRequest<TCustom>): Promise<Ticket<TCustom>>;
+  listUserTickets(userEmail: string, options?: TicketFilterOptions): Promise<PaginatedTicketsResponse<TCustom>>;
+  searchTickets(options: TicketFilterOptions): Promise<PaginatedTicketsResponse<TCustom>>;
+  getTicketDetails(ticketId: string): Promise<TicketDetails<TCustom>>;
   respondToTicket(request: TicketResponseRequest): Promise<TicketMessage>;
-  closeTicket(ticketId: string): Promise<Ticket>;
-  reopenTicket(ticketId: string): Promise<Ticket>;
+  closeTicket(ticketId: string): Promise<Ticket<TCustom>>;
+  reopenTicket(ticketId: string): Promise<Ticket<TCustom>>;
   getTicketConversations(ticketId: string): Promise<TicketMessage[]>;
+  iterateTickets(options?: TicketFilterOptions): AsyncIterable<Ticket<TCustom>>;
+  listAllTickets(options?: TicketFilterOptions, limits?: ListAllTicketsOptions): Promise<Ticket<TCustom>[]>;
   
   // Admin methods
-  listAssignedTickets(adminEmail: string, options?: TicketFilterOptions): Promise<PaginatedTicketsResponse>;
-  assignTicket(ticketId: string, assignTo: string): Promise<Ticket>;
-  escalateTicket(ticketId: string, priority: TicketPriority): Promise<Ticket>;
-  updateTicket(request: UpdateTicketRequest): Promise<Ticket>;
+  listAssignedTickets(adminEmail: string, options?: TicketFilterOptions): Promise<PaginatedTicketsResponse<TCustom>>;
+  assignTicket(ticketId: string, assignTo: string): Promise<Ticket<TCustom>>;
+  escalateTicket(ticketId: string, priority: TicketPriority): Promise<Ticket<TCustom>>;
+  updateTicket(request: UpdateTicketRequest<TCustom>): Promise<Ticket<TCustom>>;
 }
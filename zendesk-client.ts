@@ -0,0 +1,788 @@
+/**
+ * Zendesk API Client
+ * Implements the SupportApiInterface for Zendesk Support
+ */
+
+import {
+  CreateTicketRequest,
+  CustomFields,
+  ListAllTicketsOptions,
+  PaginatedTicketsResponse,
+  SupportApiInterface,
+  Ticket,
+  TicketAttachment,
+  TicketDetails,
+  TicketFilterOptions,
+  TicketMessage,
+  TicketPriority,
+  TicketResponseRequest,
+  TicketStatus,
+  UpdateTicketRequest
+} from './types';
+import { ValidationError } from './errors';
+import { CustomFieldCodec, CustomFieldOptions, CustomFieldType, decodeCustomFields, encodeCustomFields } from './custom-fields';
+import { HttpRequestContext, basicAuth } from './http';
+import { HttpApiClient, HttpApiClientConfig, HttpApiErrorBody } from './http-client';
+import { collectTickets, iterateTicketPages } from './pagination';
+
+/**
+ * Configuration for the Zendesk API client
+ */
+export interface ZendeskClientConfig extends HttpApiClientConfig {
+  subdomain: string; // Account subdomain, e.g. 'acme' for acme.zendesk.com
+  email: string; // Email of the agent the API token belongs to
+  token: string; // Zendesk API token
+  baseUrl?: string; // Overrides https://{subdomain}.zendesk.com/api/v2 (e.g. for a proxy or a test server)
+  customFieldTypes?: Record<string, CustomFieldType>; // Custom field types by name, for converting values (untyped fields are passed through)
+  customFieldCodec?: CustomFieldCodec; // Translates custom field names to Zendesk field IDs (e.g. mappedCustomFieldCodec({ plan: '360001234567' }))
+}
+
+/**
+ * Raw Zendesk user (API response)
+ */
+interface ZendeskUser {
+  id: number;
+  email: string;
+  role: 'end-user' | 'agent' | 'admin';
+}
+
+/**
+ * Raw Zendesk attachment (API response)
+ */
+interface ZendeskAttachment {
+  file_name: string;
+  content_url: string;
+  content_type: string;
+  size: number;
+}
+
+/**
+ * Raw Zendesk comment (API response)
+ */
+interface ZendeskComment {
+  id: number;
+  author_id: number;
+  body: string;
+  public: boolean;
+  attachments?: ZendeskAttachment[];
+  created_at: string;
+}
+
+/**
+ * Raw Zendesk ticket (API response)
+ */
+interface ZendeskTicket {
+  id: number;
+  subject: string | null;
+  description: string | null;
+  status: string;
+  priority: string | null;
+  requester_id: number;
+  assignee_id: number | null;
+  custom_fields?: ZendeskCustomFieldValue[];
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Raw Zendesk custom field value (API request and response)
+ */
+interface ZendeskCustomFieldValue {
+  id: number;
+  value: unknown;
+}
+
+const STATUS_FROM_ZENDESK: Record<string, TicketStatus> = {
+  new: TicketStatus.OPEN,
+  open: TicketStatus.OPEN,
+  pending: TicketStatus.PENDING,
+  hold: TicketStatus.PENDING,
+  solved: TicketStatus.RESOLVED,
+  closed: TicketStatus.CLOSED
+};
+
+const STATUS_TO_ZENDESK: Record<TicketStatus, string> = {
+  [TicketStatus.OPEN]: 'open',
+  [TicketStatus.PENDING]: 'pending',
+  [TicketStatus.RESOLVED]: 'solved',
+  [TicketStatus.CLOSED]: 'closed'
+};
+
+// Search terms per status; 'new' tickets count as open
+const STATUS_SEARCH_TERMS: Record<TicketStatus, string> = {
+  [TicketStatus.OPEN]: 'status<pending',
+  [TicketStatus.PENDING]: 'status:pending',
+  [TicketStatus.RESOLVED]: 'status:solved',
+  [TicketStatus.CLOSED]: 'status:closed'
+};
+
+const PRIORITY_FROM_ZENDESK: Record<string, TicketPriority> = {
+  low: TicketPriority.LOW,
+  normal: TicketPriority.MEDIUM,
+  high: TicketPriority.HIGH,
+  urgent: TicketPriority.URGENT
+};
+
+const PRIORITY_TO_ZENDESK: Record<TicketPriority, string> = {
+  [TicketPriority.LOW]: 'low',
+  [TicketPriority.MEDIUM]: 'normal',
+  [TicketPriority.HIGH]: 'high',
+  [TicketPriority.URGENT]: 'urgent'
+};
+
+// Zendesk returns at most 100 results per page
+const MAX_PER_PAGE = 100;
+
+/**
+ * Zendesk API Client implementation
+ * Handles communication with the Zendesk Support API (v2)
+ */
+export class ZendeskClient extends HttpApiClient implements SupportApiInterface {
+  private email: string;
+  private customFieldOptions: CustomFieldOptions;
+  // Zendesk refers to people by ID, so users seen in responses are remembered to resolve emails
+  private users = new Map<number, ZendeskUser>();
+
+  /**
+   * Creates a new Zendesk API client
+   * @param config - Configuration for the client
+   */
+  constructor(config: ZendeskClientConfig) {
+    super(config, {
+      provider: 'zendesk',
+      label: 'Zendesk',
+      baseUrl: (config.baseUrl || `https://${config.subdomain}.zendesk.com/api/v2`).replace(/\/+$/, ''),
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': basicAuth(`${config.email}/token`, config.token)
+      }
+    });
+    this.email = config.email;
+    this.customFieldOptions = { types: config.customFieldTypes, codec: config.customFieldCodec };
+  }
+
+  /**
+   * Makes a request to the Zendesk API
+   * @param endpoint - API endpoint, relative to /api/v2 (e.g. '/tickets.json')
+   * @param method - HTTP method
+   * @param data - Request data
+   * @param params - Query parameters
+   * @param headers - Extra headers for this request
+   * @returns Response data
+   * @private
+   */
+  private async request<T>(
+    endpoint: string,
+    method: string = 'GET',
+    data?: unknown,
+    params?: Record<string, any>,
+    headers?: Record<string, string>
+  ): Promise<T> {
+    const request: HttpRequestContext = {
+      method,
+      url: `${this.baseUrl}${endpoint}`,
+      headers: { ...this.headers, ...headers },
+      params: { ...params }
+    };
+
+    if (data !== undefined && method !== 'GET') {
+      request.data = data;
+    }
+
+    this.logger.debug('Zendesk request', { method, endpoint, params });
+
+    return this.send<T>(endpoint, request);
+  }
+
+  /**
+   * Reads a Zendesk error body
+   * Zendesk reports errors as { error, description, details } or { error: { title, message } }
+   * @param data - The error response body
+   * @returns The error details
+   * @protected
+   */
+  protected parseErrorBody(data: Record<string, any>): HttpApiErrorBody {
+    const errorData: { error?: string | { title?: string; message?: string }; description?: string; details?: unknown } = data;
+    const error = typeof errorData.error === 'object' ? errorData.error.message || errorData.error.title : errorData.error;
+
+    return { message: errorData.description || error, errors: errorData.details };
+  }
+
+  /**
+   * Creates a new support ticket
+   * Attachments are uploaded first and attached to the ticket's first comment with their upload tokens
+   * @param request - The ticket creation request
+   * @returns The created ticket
+   */
+  async createTicket(request: CreateTicketRequest): Promise<Ticket> {
+    const uploads = await this.uploadAttachments(request.attachments);
+
+    const ticket: Record<string, unknown> = {
+      subject: request.subject,
+      comment: {
+        body: request.description,
+        uploads: uploads.tokens.length > 0 ? uploads.tokens : undefined
+      },
+      priority: PRIORITY_TO_ZENDESK[request.priority || TicketPriority.MEDIUM],
+      requester: { email: request.userEmail }
+    };
+
+    if (request.customFields) {
+      ticket.custom_fields = this.toZendeskCustomFields(request.customFields);
+    }
+
+    const response = await this.request<{ ticket: ZendeskTicket }>('/tickets.json', 'POST', { ticket });
+    this.rememberUser(response.ticket.requester_id, request.userEmail);
+
+    return {
+      ...this.mapZendeskTicketToTicket(response.ticket),
+      attachments: uploads.attachments.map(attachment => this.mapZendeskAttachmentToTicketAttachment(attachment, response.ticket.created_at))
+    };
+  }
+
+  /**
+   * Lists tickets requested by a user
+   * @param userEmail - The email of the user
+   * @param options - Filter options
+   * @returns Paginated list of tickets
+   */
+  async listUserTickets(userEmail: string, options?: TicketFilterOptions): Promise<PaginatedTicketsResponse> {
+    return this.searchTickets({ ...options, userEmail });
+  }
+
+  /**
+   * Lists tickets assigned to a specific agent
+   * @param adminEmail - The email of the agent
+   * @param options - Filter options
+   * @returns Paginated list of tickets
+   */
+  async listAssignedTickets(adminEmail: string, options?: TicketFilterOptions): Promise<PaginatedTicketsResponse> {
+    return this.searchTickets({ ...options, assignedTo: adminEmail });
+  }
+
+  /**
+   * Searches for tickets with the Zendesk search API
+   * Zendesk search is eventually consistent and returns at most 1000 results per query
+   * @param options - Filter options
+   * @returns Paginated list of tickets
+   */
+  async searchTickets(options: TicketFilterOptions): Promise<PaginatedTicketsResponse> {
+    const page = Math.max(1, options.page || 1);
+    const limit = Math.max(1, options.limit || 30);
+    const params = this.buildSearchParams(options);
+
+    if (limit <= MAX_PER_PAGE) {
+      const response = await this.search(params, page, limit);
+      return this.toPaginatedResponse(response.tickets, response.count, page, limit);
+    }
+
+    // Page sizes above Zendesk's maximum are filled from consecutive pages of 100
+    const offset = (page - 1) * limit;
+    let searchPage = Math.floor(offset / MAX_PER_PAGE) + 1;
+    let skip = offset % MAX_PER_PAGE;
+    const tickets: Ticket[] = [];
+    let total = 0;
+
+    while (tickets.length < limit) {
+      const response = await this.search(params, searchPage, MAX_PER_PAGE);
+      tickets.push(...response.tickets.slice(skip));
+      total = response.count;
+      skip = 0;
+
+      if (response.tickets.length < MAX_PER_PAGE || searchPage * MAX_PER_PAGE >= total) {
+        break;
+      }
+      searchPage++;
+    }
+
+    return this.toPaginatedResponse(tickets.slice(0, limit), total, page, limit);
+  }
+
+  /**
+   * Iterates over every ticket matching the filter options, fetching pages as needed
+   * `options.limit` sets the batch size (at most 100, defaults to 100) and `options.page` is ignored
+   * @param options - Filter options
+   * @returns An async iterator over the matching tickets
+   */
+  iterateTickets(options: TicketFilterOptions = {}): AsyncGenerator<Ticket> {
+    const limit = Math.min(MAX_PER_PAGE, options.limit || MAX_PER_PAGE);
+    return iterateTicketPages(page => this.searchTickets({ ...options, page, limit }));
+  }
+
+  /**
+   * Collects every ticket matching the filter options
+   * @param options - Filter options
+   * @param limits - Limits for the collection (e.g. the maximum number of tickets)
+   * @returns The matching tickets
+   */
+  async listAllTickets(options: TicketFilterOptions = {}, limits: ListAllTicketsOptions = {}): Promise<Ticket[]> {
+    return collectTickets(this.iterateTickets(options), limits.max);
+  }
+
+  /**
+   * Gets the details of a specific ticket
+   * The first Zendesk comment is the ticket description, so its attachments become the ticket's attachments
+   * and the conversation starts with the first reply
+   * @param ticketId - The ID of the ticket
+   * @returns The ticket details including conversation
+   */
+  async getTicketDetails(ticketId: string): Promise<TicketDetails> {
+    const ticket = await this.fetchTicket(ticketId);
+    const [description, ...replies] = await this.fetchComments(ticketId);
+
+    return {
+      ...this.mapZendeskTicketToTicket(ticket),
+      attachments: (description?.attachments || []).map(attachment =>
+        this.mapZendeskAttachmentToTicketAttachment(attachment, description.created_at)
+      ),
+      conversation: replies.map(comment => this.mapZendeskCommentToTicketMessage(comment, ticket))
+    };
+  }
+
+  /**
+   * Retrieves the replies and notes of a ticket, oldest first
+   * The first Zendesk comment (the ticket description) is not included
+   * @param ticketId - The ID of the ticket
+   * @returns The list of messages for the ticket
+   */
+  async getTicketConversations(ticketId: string): Promise<TicketMessage[]> {
+    const ticket = await this.fetchTicket(ticketId);
+    const [, ...replies] = await this.fetchComments(ticketId);
+    return replies.map(comment => this.mapZendeskCommentToTicketMessage(comment, ticket));
+  }
+
+  /**
+   * Responds to a ticket with a public comment
+   * Without `agentEmail` the comment is posted on behalf of the requester; attachments are uploaded first
+   * @param request - The response request
+   * @returns The created ticket message
+   */
+  async respondToTicket(request: TicketResponseRequest): Promise<TicketMessage> {
+    const ticket = await this.fetchTicket(request.ticketId);
+    const authorId = request.agentEmail ? await this.findUserId(request.agentEmail) : ticket.requester_id;
+    const uploads = await this.uploadAttachments(request.attachments);
+
+    const update: Record<string, unknown> = {
+      comment: {
+        body: request.message,
+        public: true,
+        author_id: authorId,
+        uploads: uploads.tokens.length > 0 ? uploads.tokens : undefined
+      }
+    };
+
+    if (request.ccEmails) {
+      update.email_ccs = request.ccEmails
+        .split(',')
+        .map(email => email.trim())
+        .filter(Boolean)
+        .map(email => ({ user_email: email, action: 'put' }));
+    }
+
+    const response = await this.request<{ ticket: ZendeskTicket; audit?: { events?: Array<Record<string, any>> } }>(
+      `/tickets/${encodeURIComponent(request.ticketId)}.json`,
+      'PUT',
+      { ticket: update }
+    );
+
+    const event = response.audit?.events?.find(candidate => candidate.type === 'Comment');
+    const comment: ZendeskComment = {
+      id: event?.id ?? 0,
+      author_id: event?.author_id ?? authorId ?? 0,
+      body: event?.body ?? request.message,
+      public: event?.public ?? true,
+      attachments: event?.attachments || uploads.attachments,
+      created_at: event?.created_at || response.ticket.updated_at
+    };
+
+    await this.resolveUsers([comment.author_id]);
+
+    return this.mapZendeskCommentToTicketMessage(comment, response.ticket);
+  }
+
+  /**
+   * Closes a ticket
+   * Zendesk does not allow closed tickets to be updated, so they cannot be reopened afterwards
+   * @param ticketId - The ID of the ticket to close
+   * @returns The updated ticket
+   */
+  async closeTicket(ticketId: string): Promise<Ticket> {
+    return this.updateTicket({ ticketId, status: TicketStatus.CLOSED });
+  }
+
+  /**
+   * Reopens a solved ticket
+   * @param ticketId - The ID of the ticket to reopen
+   * @returns The updated ticket
+   */
+  async reopenTicket(ticketId: string): Promise<Ticket> {
+    return this.updateTicket({ ticketId, status: TicketStatus.OPEN });
+  }
+
+  /**
+   * Assigns a ticket to a specific agent
+   * @param ticketId - The ID of the ticket
+   * @param assignTo - The email of the agent to assign the ticket to
+   * @returns The updated ticket
+   */
+  async assignTicket(ticketId: string, assignTo: string): Promise<Ticket> {
+    return this.updateTicket({ ticketId, assignedTo: assignTo });
+  }
+
+  /**
+   * Escalates a ticket by changing its priority
+   * @param ticketId - The ID of the ticket
+   * @param priority - The new priority
+   * @returns The updated ticket
+   */
+  async escalateTicket(ticketId: string, priority: TicketPriority): Promise<Ticket> {
+    return this.updateTicket({ ticketId, priority });
+  }
+
+  /**
+   * Updates a ticket's properties
+   * @param request - The update request
+   * @returns The updated ticket
+   */
+  async updateTicket(request: UpdateTicketRequest): Promise<Ticket> {
+    const update: Record<string, unknown> = {};
+
+    if (request.status) {
+      update.status = STATUS_TO_ZENDESK[request.status];
+    }
+
+    if (request.priority) {
+      update.priority = PRIORITY_TO_ZENDESK[request.priority];
+    }
+
+    if (request.assignedTo) {
+      update.assignee_email = request.assignedTo;
+    }
+
+    if (request.customFields) {
+      update.custom_fields = this.toZendeskCustomFields(request.customFields);
+    }
+
+    const response = await this.request<{ ticket: ZendeskTicket }>(
+      `/tickets/${encodeURIComponent(request.ticketId)}.json`,
+      'PUT',
+      { ticket: update }
+    );
+
+    if (request.assignedTo && response.ticket.assignee_id) {
+      this.rememberUser(response.ticket.assignee_id, request.assignedTo);
+    }
+    await this.resolveUsers([response.ticket.requester_id, response.ticket.assignee_id]);
+
+    return this.mapZendeskTicketToTicket(response.ticket);
+  }
+
+  /**
+   * Fetches a raw ticket along with its requester and assignee
+   * @param ticketId - The ID of the ticket
+   * @returns The raw Zendesk ticket
+   * @private
+   */
+  private async fetchTicket(ticketId: string): Promise<ZendeskTicket> {
+    const response = await this.request<{ ticket: ZendeskTicket; users?: ZendeskUser[] }>(
+      `/tickets/${encodeURIComponent(ticketId)}.json`,
+      'GET',
+      undefined,
+      { include: 'users' }
+    );
+    this.rememberUsers(response.users);
+    await this.resolveUsers([response.ticket.requester_id, response.ticket.assignee_id]);
+    return response.ticket;
+  }
+
+  /**
+   * Fetches every comment of a ticket, oldest first
+   * @param ticketId - The ID of the ticket
+   * @returns The raw Zendesk comments
+   * @private
+   */
+  private async fetchComments(ticketId: string): Promise<ZendeskComment[]> {
+    const comments: ZendeskComment[] = [];
+
+    for (let page = 1; ; page++) {
+      const response = await this.request<{ comments: ZendeskComment[]; users?: ZendeskUser[]; next_page?: string | null }>(
+        `/tickets/${encodeURIComponent(ticketId)}/comments.json`,
+        'GET',
+        undefined,
+        { include: 'users', sort_order: 'asc', page, per_page: MAX_PER_PAGE }
+      );
+      this.rememberUsers(response.users);
+      comments.push(...(response.comments || []));
+
+      if (!response.next_page) {
+        return comments;
+      }
+    }
+  }
+
+  /**
+   * Runs a ticket search and maps the results
+   * @param params - Search parameters (query and sorting)
+   * @param page - The Zendesk page (1-based)
+   * @param perPage - Results per page (at most 100)
+   * @returns The mapped tickets and the total number of results
+   * @private
+   */
+  private async search(
+    params: Record<string, string>,
+    page: number,
+    perPage: number
+  ): Promise<{ tickets: Ticket[]; count: number }> {
+    const response = await this.request<{ results: ZendeskTicket[]; users?: ZendeskUser[]; count: number }>(
+      '/search.json',
+      'GET',
+      undefined,
+      { ...params, include: 'tickets(users)', page, per_page: perPage }
+    );
+    const results = response.results || [];
+
+    this.rememberUsers(response.users);
+    await this.resolveUsers(results.flatMap(ticket => [ticket.requester_id, ticket.assignee_id]));
+
+    return {
+      tickets: results.map(ticket => this.mapZendeskTicketToTicket(ticket)),
+      count: response.count || 0
+    };
+  }
+
+  /**
+   * Builds the Zendesk search query and sort parameters for filter options
+   * @param options - Filter options
+   * @returns The search parameters
+   * @private
+   */
+  private buildSearchParams(options: TicketFilterOptions): Record<string, string> {
+    const terms = ['type:ticket'];
+
+    if (options.userEmail) {
+      terms.push(`requester:${options.userEmail}`);
+    }
+
+    if (options.assignedTo) {
+      terms.push(`assignee:${options.assignedTo}`);
+    }
+
+    if (options.status) {
+      terms.push(STATUS_SEARCH_TERMS[options.status]);
+    }
+
+    if (options.priority) {
+      terms.push(`priority:${PRIORITY_TO_ZENDESK[options.priority]}`);
+    }
+
+    if (options.searchQuery) {
+      terms.push(options.searchQuery);
+    }
+
+    const sortBy = options.sortBy || 'createdAt';
+
+    return {
+      query: terms.join(' '),
+      sort_by: sortBy === 'priority' ? 'priority' : sortBy === 'updatedAt' ? 'updated_at' : 'created_at',
+      sort_order: options.sortOrder || 'desc'
+    };
+  }
+
+  /**
+   * Converts custom fields to Zendesk's list of field values
+   * Zendesk identifies custom fields by numeric ID, so names must be IDs or be translated to IDs by the customFieldCodec
+   * @param customFields - The custom fields by name
+   * @returns The Zendesk custom field values
+   * @throws ValidationError if a name does not translate to a numeric field ID
+   * @private
+   */
+  private toZendeskCustomFields(customFields: Record<string, unknown>): ZendeskCustomFieldValue[] {
+    return Object.entries(encodeCustomFields(customFields, this.customFieldOptions)).map(([id, value]) => {
+      if (!/^\d+$/.test(id)) {
+        throw new ValidationError(`Zendesk custom fields are identified by numeric field ID, but got '${id}'; map names to IDs with customFieldCodec`, {
+          provider: 'zendesk'
+        });
+      }
+      return { id: Number(id), value };
+    });
+  }
+
+  /**
+   * Converts Zendesk's list of field values to custom fields
+   * Zendesk lists every custom field of the account, so fields without a value are left out
+   * @param values - The Zendesk custom field values
+   * @returns The custom fields by name
+   * @private
+   */
+  private fromZendeskCustomFields(values: ZendeskCustomFieldValue[]): CustomFields {
+    const raw = Object.fromEntries(values
+      .filter(field => field.value !== null && field.value !== undefined)
+      .map(field => [String(field.id), field.value]));
+    return decodeCustomFields(raw, this.customFieldOptions);
+  }
+
+  /**
+   * Uploads attachments and returns the tokens to reference them in a comment
+   * @param files - The files to upload
+   * @returns The upload tokens and the resulting attachments
+   * @private
+   */
+  private async uploadAttachments(files: File[] = []): Promise<{ tokens: string[]; attachments: ZendeskAttachment[] }> {
+    const tokens: string[] = [];
+    const attachments: ZendeskAttachment[] = [];
+
+    for (const file of files) {
+      const response = await this.request<{ upload: { token: string; attachment?: ZendeskAttachment } }>(
+        '/uploads.json',
+        'POST',
+        await file.arrayBuffer(),
+        { filename: file.name },
+        { 'Content-Type': file.type || 'application/binary' }
+      );
+
+      tokens.push(response.upload.token);
+      if (response.upload.attachment) {
+        attachments.push(response.upload.attachment);
+      }
+    }
+
+    return { tokens, attachments };
+  }
+
+  /**
+   * Looks up the ID of a user by email
+   * @param email - The email of the user
+   * @returns The user ID, or undefined to post as the authenticated agent
+   * @private
+   */
+  private async findUserId(email: string): Promise<number | undefined> {
+    for (const user of this.users.values()) {
+      if (user.email === email) {
+        return user.id;
+      }
+    }
+
+    if (email === this.email) {
+      return undefined;
+    }
+
+    const response = await this.request<{ users: ZendeskUser[] }>('/users/search.json', 'GET', undefined, { query: `email:${email}` });
+    this.rememberUsers(response.users);
+    return response.users?.[0]?.id;
+  }
+
+  /**
+   * Fetches the users that are referenced but not known yet
+   * @param ids - The referenced user IDs
+   * @private
+   */
+  private async resolveUsers(ids: Array<number | null | undefined>): Promise<void> {
+    const missing = Array.from(new Set(ids.filter((id): id is number => typeof id === 'number' && !this.users.has(id))));
+    if (missing.length === 0) {
+      return;
+    }
+
+    const response = await this.request<{ users: ZendeskUser[] }>('/users/show_many.json', 'GET', undefined, { ids: missing.join(',') });
+    this.rememberUsers(response.users);
+  }
+
+  /**
+   * Remembers sideloaded users
+   * @param users - The users returned by Zendesk
+   * @private
+   */
+  private rememberUsers(users: ZendeskUser[] = []): void {
+    for (const user of users) {
+      this.users.set(user.id, user);
+    }
+  }
+
+  /**
+   * Remembers the email of a user created or referenced by this client
+   * @param id - The user ID
+   * @param email - The user's email
+   * @private
+   */
+  private rememberUser(id: number, email: string): void {
+    if (!this.users.has(id)) {
+      this.users.set(id, { id, email, role: 'end-user' });
+    }
+  }
+
+  /**
+   * Maps a Zendesk ticket to our generic Ticket interface
+   * @param ticket - The Zendesk ticket
+   * @returns The mapped ticket
+   * @private
+   */
+  private mapZendeskTicketToTicket(ticket: ZendeskTicket): Ticket {
+    return {
+      id: String(ticket.id),
+      subject: ticket.subject || '',
+      description: ticket.description || '',
+      status: STATUS_FROM_ZENDESK[ticket.status] || TicketStatus.OPEN,
+      // Zendesk tickets may have no priority at all; treat them as normal
+      priority: (ticket.priority && PRIORITY_FROM_ZENDESK[ticket.priority]) || TicketPriority.MEDIUM,
+      userEmail: this.users.get(ticket.requester_id)?.email || '',
+      assignedTo: ticket.assignee_id ? this.users.get(ticket.assignee_id)?.email : undefined,
+      createdAt: ticket.created_at,
+      updatedAt: ticket.updated_at,
+      attachments: [],
+      customFields: ticket.custom_fields ? this.fromZendeskCustomFields(ticket.custom_fields) : undefined
+    };
+  }
+
+  /**
+   * Maps a Zendesk comment to our generic TicketMessage interface
+   * @param comment - The Zendesk comment
+   * @param ticket - The ticket the comment belongs to
+   * @returns The mapped ticket message
+   * @private
+   */
+  private mapZendeskCommentToTicketMessage(comment: ZendeskComment, ticket: ZendeskTicket): TicketMessage {
+    const author = this.users.get(comment.author_id);
+
+    return {
+      id: String(comment.id),
+      ticketId: String(ticket.id),
+      message: comment.body,
+      sender: author?.email || '',
+      isStaff: author ? author.role !== 'end-user' : comment.author_id !== ticket.requester_id,
+      createdAt: comment.created_at,
+      attachments: (comment.attachments || []).map(attachment =>
+        this.mapZendeskAttachmentToTicketAttachment(attachment, comment.created_at)
+      )
+    };
+  }
+
+  /**
+   * Maps a Zendesk attachment to our generic TicketAttachment interface
+   * @param attachment - The Zendesk attachment
+   * @param createdOn - When the comment holding the attachment was created
+   * @returns The mapped ticket attachment
+   * @private
+   */
+  private mapZendeskAttachmentToTicketAttachment(attachment: ZendeskAttachment, createdOn: string): TicketAttachment {
+    return {
+      fileName: attachment.file_name,
+      fileSize: attachment.size,
+      fileType: attachment.content_type,
+      createdOn,
+      url: attachment.content_url
+    };
+  }
+
+  /**
+   * Builds a paginated response
+   * @private
+   */
+  private toPaginatedResponse(tickets: Ticket[], total: number, page: number, limit: number): PaginatedTicketsResponse {
+    return {
+      tickets,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit)
+    };
+  }
+}